@@ -1,5 +1,6 @@
 -- Row Level Security (RLS) Policies for Pallet App
--- These policies should be applied to your Supabase database
+-- These policies should be applied to your Supabase database after supabase-schema.sql
+-- Drivers sign in with Supabase Auth, so every policy keys off auth.uid()
 
 -- Enable RLS on pallet_sessions table
 ALTER TABLE pallet_sessions ENABLE ROW LEVEL SECURITY;
@@ -7,41 +8,167 @@ ALTER TABLE pallet_sessions ENABLE ROW LEVEL SECURITY;
 -- Enable RLS on pallet_photos table
 ALTER TABLE pallet_photos ENABLE ROW LEVEL SECURITY;
 
--- Policy for pallet_sessions: Users can only access sessions with their device_id
-CREATE POLICY "Users can only access their own sessions" ON pallet_sessions
-    FOR ALL
-    USING (device_id = current_setting('request.jwt.claims', true)::json->>'device_id');
+-- Enable RLS on pallet_details table
+ALTER TABLE pallet_details ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on customers table
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on team tables
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+-- Replace policies from earlier versions of this file, including the device_id claim ones that were never issued
+DROP POLICY IF EXISTS "Users can only access their own sessions" ON pallet_sessions;
+DROP POLICY IF EXISTS "Users can only access their own files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can only access photos from their sessions" ON pallet_photos;
+DROP POLICY IF EXISTS "Users can only access pallet details from their sessions" ON pallet_details;
+DROP POLICY IF EXISTS "Users can only access their own customers" ON customers;
+DROP POLICY IF EXISTS "Users can only upload to their device folder" ON storage.objects;
+DROP POLICY IF EXISTS "Users can only overwrite files in their device folder" ON storage.objects;
+DROP POLICY IF EXISTS "Users can only access their device files" ON storage.objects;
+
+-- Policy for pallet_sessions: Users see their own sessions and their teammates'
+CREATE POLICY "Users can view their own and their team's sessions" ON pallet_sessions
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR team_id IN (SELECT public.current_user_team_ids()));
 
--- Policy for pallet_photos: Users can only access photos through their sessions
+-- Policy for pallet_sessions: Users only write their own sessions, shared with a team they are in
+CREATE POLICY "Users can only upload their own sessions" ON pallet_sessions
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        user_id = auth.uid()
+        AND (team_id IS NULL OR team_id IN (SELECT public.current_user_team_ids()))
+    );
+
+CREATE POLICY "Users can only update their own sessions" ON pallet_sessions
+    FOR UPDATE
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (
+        user_id = auth.uid()
+        AND (team_id IS NULL OR team_id IN (SELECT public.current_user_team_ids()))
+    );
+
+CREATE POLICY "Users can only delete their own sessions" ON pallet_sessions
+    FOR DELETE
+    TO authenticated
+    USING (user_id = auth.uid());
+
+-- Policy for pallet_photos: Photos are visible wherever their session is
+-- (the subquery is itself filtered by the pallet_sessions policies)
+CREATE POLICY "Users can view photos from visible sessions" ON pallet_photos
+    FOR SELECT
+    TO authenticated
+    USING (session_id IN (SELECT id FROM pallet_sessions));
+
+-- Policy for pallet_photos: Users can only write photos to their own sessions
 CREATE POLICY "Users can only access photos from their sessions" ON pallet_photos
     FOR ALL
+    TO authenticated
     USING (
         session_id IN (
-            SELECT id FROM pallet_sessions 
-            WHERE device_id = current_setting('request.jwt.claims', true)::json->>'device_id'
+            SELECT id FROM pallet_sessions
+            WHERE user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        session_id IN (
+            SELECT id FROM pallet_sessions
+            WHERE user_id = auth.uid()
         )
     );
 
+-- Policy for pallet_details: Details are visible wherever their session is
+CREATE POLICY "Users can view pallet details from visible sessions" ON pallet_details
+    FOR SELECT
+    TO authenticated
+    USING (session_id IN (SELECT id FROM pallet_sessions));
+
+-- Policy for pallet_details: Users can only write pallet details to their own sessions
+CREATE POLICY "Users can only access pallet details from their sessions" ON pallet_details
+    FOR ALL
+    TO authenticated
+    USING (
+        session_id IN (
+            SELECT id FROM pallet_sessions
+            WHERE user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        session_id IN (
+            SELECT id FROM pallet_sessions
+            WHERE user_id = auth.uid()
+        )
+    );
+
+-- Policy for customers: Users can only access their own customer directory
+CREATE POLICY "Users can only access their own customers" ON customers
+    FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+-- Policy for teams: Users can see the teams they belong to
+CREATE POLICY "Users can view their teams" ON teams
+    FOR SELECT
+    TO authenticated
+    USING (id IN (SELECT public.current_user_team_ids()));
+
+-- Policy for team_members: Users can see who else is on their teams
+CREATE POLICY "Users can view their teammates" ON team_members
+    FOR SELECT
+    TO authenticated
+    USING (team_id IN (SELECT public.current_user_team_ids()));
+
 -- Create indexes for better performance with RLS
 CREATE INDEX IF NOT EXISTS idx_pallet_sessions_device_id ON pallet_sessions(device_id);
+CREATE INDEX IF NOT EXISTS idx_pallet_sessions_user_id ON pallet_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_pallet_sessions_team_id ON pallet_sessions(team_id);
 CREATE INDEX IF NOT EXISTS idx_pallet_photos_session_id ON pallet_photos(session_id);
 
+-- The upload queue retries with upserts, so each pallet slot must map to exactly one row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pallet_photos_slot ON pallet_photos(session_id, pallet_index, side_index);
+
 -- Storage bucket security
 -- These policies should be applied to the pallet_photos storage bucket
+-- Photos are stored under {user_id}/{session_id}/...
 
--- Policy for storage: Users can only upload to folders with their device_id
-CREATE POLICY "Users can only upload to their device folder" ON storage.objects
+-- The bucket must be private: rows store object paths and the app signs short-lived links,
+-- so only the SELECT policy below decides who can view a photo
+UPDATE storage.buckets SET public = false WHERE id = 'pallet_photos';
+
+-- Policy for storage: Users can only upload to their own folder
+CREATE POLICY "Users can only upload to their own folder" ON storage.objects
     FOR INSERT
-    WITH CHECK (bucket_id = 'pallet_photos' AND 
-                (storage.foldername(name))[1] = current_setting('request.jwt.claims', true)::json->>'device_id');
+    TO authenticated
+    WITH CHECK (bucket_id = 'pallet_photos' AND
+                (storage.foldername(name))[1] = auth.uid()::text);
 
--- Policy for storage: Users can only access files from their device folder
-CREATE POLICY "Users can only access their device files" ON storage.objects
-    FOR SELECT
-    USING (bucket_id = 'pallet_photos' AND 
-           (storage.foldername(name))[1] = current_setting('request.jwt.claims', true)::json->>'device_id');
+-- Policy for storage: Retried uploads overwrite their own earlier attempt
+CREATE POLICY "Users can only overwrite files in their own folder" ON storage.objects
+    FOR UPDATE
+    TO authenticated
+    USING (bucket_id = 'pallet_photos' AND
+           (storage.foldername(name))[1] = auth.uid()::text);
 
--- Note: To implement device_id based authentication, you'll need to:
--- 1. Create a custom authentication system that includes device_id in JWT claims
--- 2. Or modify the existing queries to filter by device_id directly in the application
--- 3. For now, the application filters by device_id in queries, but RLS provides an extra security layer
\ No newline at end of file
+-- Policy for storage: Photos removed by an edit are deleted from their uploader's folder
+CREATE POLICY "Users can only delete files in their own folder" ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'pallet_photos' AND
+           (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Policy for storage: Users can read files from their own folder and their teammates'
+CREATE POLICY "Users can access their own and their team's files" ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (bucket_id = 'pallet_photos' AND (
+               (storage.foldername(name))[1] = auth.uid()::text
+               OR (storage.foldername(name))[1] IN (
+                   SELECT user_id::text FROM team_members
+                   WHERE team_id IN (SELECT public.current_user_team_ids())
+               )
+           ));
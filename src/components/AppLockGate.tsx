@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Lock, Trash2 } from 'lucide-react';
+import { usePallet } from '@/contexts/PalletContext';
+import { useAppLock } from '@/hooks/use-app-lock';
+import { useAutoLock } from '@/hooks/use-auto-lock';
+import { appLock } from '@/lib/appLock';
+import { secureError } from '@/lib/security';
+
+/**
+ * Shown instead of the PIN entry when the stored PIN can't be read. Nothing can unlock the
+ * app then, so the only way on is to erase its data from this device.
+ */
+const UnreadableLock: React.FC = () => {
+  const [isConfirming, setIsConfirming] = useState<boolean>(false);
+  const [isErasing, setIsErasing] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const handleErase = async () => {
+    setIsErasing(true);
+    try {
+      await appLock.eraseDevice();
+      // Start again from empty storage
+      window.location.reload();
+    } catch (error) {
+      secureError('Error erasing device data', error);
+      setError("This device's data couldn't be erased. Please try again.");
+      setIsErasing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        To use the app again, erase its data. This removes every session, photo and upload still
+        waiting on this device, and signs you out.
+      </p>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {isConfirming ? (
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => setIsConfirming(false)} disabled={isErasing}>
+            Cancel
+          </Button>
+          <Button className="flex-1 bg-red-600 hover:bg-red-700" onClick={handleErase} disabled={isErasing}>
+            {isErasing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Erase Everything
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" className="w-full text-red-600" onClick={() => setIsConfirming(true)}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Erase App Data
+        </Button>
+      )}
+    </div>
+  );
+};
+
+const LockScreen: React.FC<{ unreadable: boolean }> = ({ unreadable }) => {
+  const [pin, setPin] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [blockedUntil, setBlockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+  const secondsLeft = blockedUntil ? Math.max(0, Math.ceil((blockedUntil - now) / 1000)) : 0;
+
+  // Count down while further attempts are refused
+  useEffect(() => {
+    if (!blockedUntil) return;
+    const intervalId = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= blockedUntil) {
+        setBlockedUntil(null);
+        setError('');
+      }
+    }, 1000);
+    return () => clearInterval(intervalId);
+  }, [blockedUntil]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin) return;
+
+    setIsChecking(true);
+    try {
+      const result = await appLock.unlock(pin);
+      if (result.ok || result.unreadable) return;
+
+      setPin('');
+      if (result.blockedUntil) {
+        setNow(Date.now());
+        setBlockedUntil(result.blockedUntil);
+        setError('Too many wrong PINs.');
+      } else {
+        setError(`Wrong PIN. ${result.attemptsLeft} attempt(s) left before a wait.`);
+      }
+    } catch (error) {
+      secureError('Error checking app PIN', error);
+      setError("The PIN couldn't be checked. Please try again.");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <AlertDialog open>
+      {/* Covers the whole screen, including any dialog that was open when the app locked */}
+      <AlertDialogContent
+        className="max-w-none h-full sm:rounded-none border-0 flex flex-col items-center justify-center"
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <div className="w-full max-w-xs space-y-6 text-center">
+          <div className="flex justify-center">
+            <div className="bg-pallet-secondary p-4 rounded-full">
+              <Lock className="h-10 w-10 text-pallet-primary" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <AlertDialogTitle className="text-2xl font-bold text-gray-800">Pallet Documenter is locked</AlertDialogTitle>
+            <AlertDialogDescription>
+              {unreadable
+                ? "This device's PIN can't be read, so no PIN will unlock the app."
+                : "Enter this device's PIN to continue."}
+            </AlertDialogDescription>
+          </div>
+          {unreadable ? (
+            <UnreadableLock />
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                aria-label="PIN"
+                value={pin}
+                onChange={(e) => /^\d*$/.test(e.target.value) && setPin(e.target.value)}
+                placeholder="••••"
+                className="text-center text-2xl py-6 tracking-widest"
+                disabled={isChecking || secondsLeft > 0}
+                autoFocus
+              />
+              {error && (
+                <p className="text-sm text-red-500">
+                  {error}
+                  {secondsLeft > 0 && ` Try again in ${secondsLeft} second(s).`}
+                </p>
+              )}
+              <Button
+                type="submit"
+                disabled={isChecking || !pin || secondsLeft > 0}
+                className="w-full py-6 text-lg bg-pallet-primary hover:bg-pallet-accent"
+                size="lg"
+              >
+                {isChecking && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+                Unlock
+              </Button>
+            </form>
+          )}
+        </div>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+/**
+ * Hides everything behind the PIN screen while the app is locked. The app stays mounted
+ * underneath, so a session in progress carries on where it was once unlocked.
+ */
+const AppLockGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { settings } = usePallet();
+  const { enabled, locked, unreadable } = useAppLock();
+
+  useEffect(() => {
+    appLock.init();
+  }, []);
+
+  useAutoLock(enabled && !locked, settings.appLock);
+
+  return (
+    <>
+      <div hidden={locked} aria-hidden={locked}>
+        {children}
+      </div>
+      {locked && <LockScreen unreadable={unreadable} />}
+    </>
+  );
+};
+
+export default AppLockGate;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { appLock, PinCheckResult } from '@/lib/appLock';
+import { secureError, validateAppPin } from '@/lib/security';
+
+export type AppPinDialogMode = 'set' | 'change' | 'remove';
+
+interface AppPinDialogProps {
+  mode: AppPinDialogMode | null;
+  onClose: () => void;
+}
+
+const TITLES: Record<AppPinDialogMode, string> = {
+  set: 'Set App PIN',
+  change: 'Change App PIN',
+  remove: 'Remove App PIN'
+};
+
+const describeRejection = (result: PinCheckResult): string =>
+  result.blockedUntil
+    ? `Too many wrong PINs. Try again in ${Math.max(1, Math.ceil((result.blockedUntil - Date.now()) / 1000))} second(s).`
+    : 'Current PIN is incorrect.';
+
+const PinInput: React.FC<{ id: string; label: string; value: string; onChange: (value: string) => void; autoFocus?: boolean }> = ({
+  id, label, value, onChange, autoFocus
+}) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      value={value}
+      onChange={(e) => /^\d*$/.test(e.target.value) && onChange(e.target.value)}
+      className="tracking-widest"
+      autoFocus={autoFocus}
+    />
+  </div>
+);
+
+/**
+ * Set, change or remove the PIN that locks the app on this device
+ */
+const AppPinDialog: React.FC<AppPinDialogProps> = ({ mode, onClose }) => {
+  const { toast } = useToast();
+  const [currentPin, setCurrentPin] = useState<string>('');
+  const [newPin, setNewPin] = useState<string>('');
+  const [confirmPin, setConfirmPin] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // Start each opening with empty fields
+  useEffect(() => {
+    setCurrentPin('');
+    setNewPin('');
+    setConfirmPin('');
+    setError('');
+  }, [mode]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mode) return;
+
+    if (mode !== 'remove') {
+      const validation = validateAppPin(newPin);
+      if (!validation.isValid) {
+        setError(validation.error || 'Invalid PIN');
+        return;
+      }
+      if (newPin !== confirmPin) {
+        setError('PINs do not match');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const result = mode === 'remove'
+        ? await appLock.removePin(currentPin)
+        : await appLock.setPin(newPin, mode === 'change' ? currentPin : undefined);
+      if (!result.ok) {
+        setCurrentPin('');
+        setError(describeRejection(result));
+        return;
+      }
+
+      toast({
+        title: mode === 'remove' ? "App Lock Off" : "App PIN Saved",
+        description: mode === 'remove'
+          ? "The app no longer asks for a PIN on this device."
+          : "The app will ask for this PIN when it locks.",
+        duration: 3000
+      });
+      onClose();
+    } catch (error) {
+      secureError('Error saving app PIN', error);
+      setError('The PIN could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!mode} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{mode && TITLES[mode]}</DialogTitle>
+          <DialogDescription>
+            {mode === 'remove'
+              ? 'Anyone using this device will be able to open the app and its saved sessions.'
+              : 'Use 4 to 8 digits. Wrong guesses make the app wait before trying again.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode !== 'set' && (
+            <PinInput id="currentAppPin" label="Current PIN" value={currentPin} onChange={setCurrentPin} autoFocus />
+          )}
+          {mode !== 'remove' && (
+            <>
+              <PinInput id="newAppPin" label="New PIN" value={newPin} onChange={setNewPin} autoFocus={mode === 'set'} />
+              <PinInput id="confirmAppPin" label="Confirm new PIN" value={confirmPin} onChange={setConfirmPin} />
+            </>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              type="submit"
+              disabled={isSaving || (mode !== 'set' && !currentPin)}
+              className={mode === 'remove' ? 'bg-red-600 hover:bg-red-700' : 'bg-pallet-primary hover:bg-pallet-accent'}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === 'remove' ? 'Remove PIN' : 'Save PIN'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AppPinDialog;
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScanBarcode } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCameraStream } from '@/hooks/use-camera-stream';
+import { ScanResult, createBarcodeDecoder, toScanResult } from '@/lib/barcodeScanner';
+import { secureError } from '@/lib/security';
+
+interface BarcodeScannerProps {
+  open: boolean;
+  title: string;
+  onDetected: (result: ScanResult) => void;
+  onClose: () => void;
+}
+
+// Barcodes decode fine at 720p, and smaller frames keep the scan loop responsive
+const SCAN_CONSTRAINTS: MediaStreamConstraints = {
+  video: {
+    facingMode: 'environment',
+    width: { ideal: 1280 },
+    height: { ideal: 720 }
+  }
+};
+
+// Pause between decode attempts so the preview stays smooth on slower phones
+const SCAN_INTERVAL_MS = 150;
+
+const ScannerPreview: React.FC<Omit<BarcodeScannerProps, 'open' | 'title'>> = ({ onDetected, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [isDecoderReady, setIsDecoderReady] = useState<boolean>(false);
+  // Latest callbacks, so a parent re-rendering doesn't restart the camera and decoder
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  const { toast } = useToast();
+  const { isLoading, startCamera, stopCamera } = useCameraStream(videoRef, SCAN_CONSTRAINTS, () => {
+    toast({
+      title: "Camera Error",
+      description: "Unable to access camera for scanning. Please check permissions or type the value instead.",
+      variant: "destructive",
+      duration: 6000
+    });
+    onCloseRef.current();
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const scan = async () => {
+      try {
+        const decoder = await createBarcodeDecoder();
+        if (cancelled) return;
+        setIsDecoderReady(true);
+
+        const tick = async () => {
+          if (cancelled) return;
+          const video = videoRef.current;
+          const text = video ? await decoder.decode(video).catch(() => null) : null;
+          if (cancelled) return;
+
+          if (text) {
+            stopCamera();
+            navigator.vibrate?.(100);
+            onDetectedRef.current(toScanResult(text));
+            onCloseRef.current();
+            return;
+          }
+          timer = setTimeout(tick, SCAN_INTERVAL_MS);
+        };
+        tick();
+      } catch (error) {
+        secureError('Error starting barcode decoder', error);
+        toast({
+          title: "Scanning Unavailable",
+          description: "Barcode scanning isn't supported on this device. Please type the value instead.",
+          variant: "destructive",
+          duration: 5000
+        });
+        onCloseRef.current();
+      }
+    };
+
+    startCamera();
+    scan();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [startCamera, stopCamera, toast]);
+
+  return (
+    <div className="relative w-full aspect-[4/3] bg-black rounded-md overflow-hidden">
+      <video ref={videoRef} autoPlay playsInline muted className="absolute inset-0 w-full h-full object-cover" />
+      {/* Aiming guide */}
+      <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-1/3 border-2 border-white/80 rounded-md pointer-events-none" />
+      <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80 pointer-events-none" />
+      {(isLoading || !isDecoderReady) && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/50 text-white">
+          <div className="text-center">
+            <ScanBarcode className="h-8 w-8 mx-auto mb-2 animate-pulse-light" />
+            <p className="text-sm">Starting scanner...</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ open, title, onDetected, onClose }) => (
+  <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+    <DialogContent className="max-w-lg">
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>Point the camera at a barcode or QR code. It will be read automatically.</DialogDescription>
+      </DialogHeader>
+      {/* Mounted only while open so the camera is released as soon as the dialog closes */}
+      {open && <ScannerPreview onDetected={onDetected} onClose={onClose} />}
+    </DialogContent>
+  </Dialog>
+);
+
+export default BarcodeScanner;
@@ -1,96 +1,74 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { CameraIcon, CheckIcon, RefreshCw, ZoomIn } from 'lucide-react';
+import { CameraIcon, CheckIcon, PenLine, RefreshCw, SkipForward, ZoomIn } from 'lucide-react';
 import { usePallet } from '@/contexts/PalletContext';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile, useDeviceOrientation } from '@/hooks/use-mobile';
+import { useCameraStream } from '@/hooks/use-camera-stream';
+import { getSlot, getSlotLabel } from '@/lib/captureTemplates';
+import { PhotoAnnotation, describeAnnotation, hasAnnotation } from '@/lib/annotations';
+import { describeImageType, encodeImage, encodeImageBlob } from '@/lib/imageOutput';
+import { CaptureMetadata, formatLocation, getDeviceInfo, readCameraSettings } from '@/lib/captureMetadata';
+import { useLocationFix } from '@/hooks/use-location-fix';
+import { hashPhotoUri } from '@/lib/photoIntegrity';
+import { secureError } from '@/lib/security';
+import PhotoAnnotationEditor from './PhotoAnnotationEditor';
 
 interface CameraViewProps {
-  onPhotoTaken: (uri: string) => void;
+  onPhotoTaken: (uri: string, annotation?: PhotoAnnotation, metadata?: CaptureMetadata, sha256?: string) => void;
+  onSkip?: () => void;
 }
 
-const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
+const PHOTO_CONSTRAINTS = {
+  video: {
+    facingMode: 'environment',
+    // Request highest possible resolution and quality
+    width: { ideal: 4096, min: 1280 },
+    height: { ideal: 3072, min: 720 },
+    frameRate: { ideal: 30, min: 15 },
+    // Advanced video quality settings
+    aspectRatio: { ideal: 4/3 },
+    resizeMode: 'none', // Prevent resizing
+    // Additional quality hints
+    advanced: [{
+      width: { min: 1920, ideal: 4096 },
+      height: { min: 1080, ideal: 3072 },
+      frameRate: { min: 15, ideal: 30 }
+    }]
+  }
+};
+
+const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken, onSkip }) => {
   const [photoTaken, setPhotoTaken] = useState<boolean>(false);
   const [photoUri, setPhotoUri] = useState<string>('');
-  const [isLoading, setIsLoading] = useState<boolean>(true);
   const [photoResolution, setPhotoResolution] = useState<string>('');
   const [captureMethod, setCaptureMethod] = useState<string>('');
   const [photoFormat, setPhotoFormat] = useState<string>('JPEG');
   const [photoSize, setPhotoSize] = useState<number>(0);
+  const [annotation, setAnnotation] = useState<PhotoAnnotation | undefined>(undefined);
+  const [isAnnotating, setIsAnnotating] = useState<boolean>(false);
+  const [captureMetadata, setCaptureMetadata] = useState<CaptureMetadata | undefined>(undefined);
+  const [isConfirming, setIsConfirming] = useState<boolean>(false);
   const videoRef = useRef<HTMLVideoElement | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const { currentPallet, totalPallets, currentSide } = usePallet();
+  const { currentPallet, totalPallets, currentSide, captureTemplate, settings: { imageOutput, recordLocation } } = usePallet();
+  const locationRef = useLocationFix(recordLocation);
+  const slot = getSlot(captureTemplate, currentSide);
+  const slotLabel = getSlotLabel(captureTemplate, currentSide);
+  const canSkip = !!onSkip && !!slot && !slot.required;
   const { toast } = useToast();
   const isMobile = useIsMobile();
   const orientation = useDeviceOrientation();
 
-  const startCamera = async () => {
-    try {
-      setIsLoading(true);
-      console.log('🎥 Starting camera with maximum quality settings...');
-      
-      // Request maximum native camera resolution and quality
-      const constraints = {
-        video: {
-          facingMode: 'environment',
-          // Request highest possible resolution and quality
-          width: { ideal: 4096, min: 1280 },
-          height: { ideal: 3072, min: 720 },
-          frameRate: { ideal: 30, min: 15 },
-          // Advanced video quality settings
-          aspectRatio: { ideal: 4/3 },
-          resizeMode: 'none', // Prevent resizing
-          // Additional quality hints
-          advanced: [{
-            width: { min: 1920, ideal: 4096 },
-            height: { min: 1080, ideal: 3072 },
-            frameRate: { min: 15, ideal: 30 }
-          }]
-        }
-      };
-
-      console.log('📱 Requesting camera with constraints:', constraints);
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      
-      // Log actual stream settings
-      const track = stream.getVideoTracks()[0];
-      const settings = track.getSettings();
-      console.log('✅ Camera started with settings:', {
-        width: settings.width,
-        height: settings.height,
-        frameRate: settings.frameRate,
-        facingMode: settings.facingMode,
-        aspectRatio: settings.aspectRatio
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        
-        // Wait for video to load metadata before hiding loading
-        videoRef.current.onloadedmetadata = () => {
-          console.log('📺 Video metadata loaded:', {
-            videoWidth: videoRef.current?.videoWidth,
-            videoHeight: videoRef.current?.videoHeight,
-            clientWidth: videoRef.current?.clientWidth,
-            clientHeight: videoRef.current?.clientHeight
-          });
-          setIsLoading(false);
-        };
-      }
-    } catch (err) {
-      setIsLoading(false);
-      console.error("❌ Error accessing camera:", err);
-      toast({
-        title: "Camera Error",
-        description: "Unable to access camera. Please check permissions and try again, or use a device with camera support.",
-        variant: "destructive",
-        duration: 6000
-      });
-    }
-  };
+  // Request maximum native camera resolution and quality
+  const { streamRef, isLoading, startCamera } = useCameraStream(videoRef, PHOTO_CONSTRAINTS, () => {
+    toast({
+      title: "Camera Error",
+      description: "Unable to access camera. Please check permissions and try again, or use a device with camera support.",
+      variant: "destructive",
+      duration: 6000
+    });
+  });
 
   const hideKeyboard = () => {
     // Hide keyboard on mobile devices
@@ -112,12 +90,25 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
       reader.readAsDataURL(blob);
     });
 
+  // Resolve once an image has decoded, for its pixel dimensions
+  const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = reject;
+      img.src = src;
+    });
+
   const takePhoto = async () => {
     // Hide keyboard before taking photo
     hideKeyboard();
     
     try {
       console.log('📸 Starting photo capture process...');
+      const capturedAt = Date.now();
+      const location = locationRef.current;
+      const devicePromise = getDeviceInfo();
+      let method = 'Canvas Fallback (API unavailable)';
       
       // Use MediaStream Image Capture API for highest quality photos
       const track = streamRef.current?.getVideoTracks?.[0];
@@ -189,60 +180,40 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
           }
           
           console.log('⚙️ Final capture settings:', settings);
+          const camera = readCameraSettings(track, capabilities);
           
           // Take photo with optimized settings
           const blob: Blob = await imageCapture.takePhoto(settings);
           console.log(`✅ Photo captured! Size: ${(blob.size / 1024 / 1024).toFixed(2)}MB, Type: ${blob.type}`);
           
-          // Always convert to PNG for lossless quality
-          let finalBlob = blob;
-          let format = 'PNG';
-          
-          // Convert to PNG if it's not already
-          if (!blob.type.includes('png')) {
-            try {
-              const canvas = document.createElement('canvas');
-              const ctx = canvas.getContext('2d');
-              const img = new Image();
-              
-              await new Promise((resolve, reject) => {
-                img.onload = () => {
-                  canvas.width = img.width;
-                  canvas.height = img.height;
-                  ctx?.drawImage(img, 0, 0);
-                  canvas.toBlob((pngBlob) => {
-                    if (pngBlob) {
-                      finalBlob = pngBlob;
-                      console.log(`🎨 Converted to PNG: ${(pngBlob.size / 1024 / 1024).toFixed(2)}MB`);
-                    }
-                    resolve(null);
-                  }, 'image/png');
-                };
-                img.onerror = reject;
-                img.src = URL.createObjectURL(blob);
-              });
-            } catch (e) {
-              console.log('PNG conversion failed, using original format');
-              format = blob.type.includes('png') ? 'PNG' : 'JPEG';
-            }
-          }
+          // Encode with this device's image settings rather than keeping the camera's raw output
+          const finalBlob = await encodeImageBlob(blob, imageOutput);
+          const format = describeImageType(finalBlob.type, imageOutput.quality);
+          console.log(`🎨 Encoded as ${format}: ${(finalBlob.size / 1024 / 1024).toFixed(2)}MB`);
           
           const dataUrl = await blobToDataUrl(finalBlob);
           
           // Extract and display photo information
-          const img = new Image();
-          img.onload = () => {
-            const resolution = `${img.width}x${img.height}`;
-            const sizeKB = (finalBlob.size / 1024).toFixed(1);
-            
-            setPhotoResolution(resolution);
-            setCaptureMethod('ImageCapture API');
-            setPhotoFormat(format);
-            setPhotoSize(finalBlob.size);
-            
-            console.log(`📊 Final photo info: ${resolution}, ${sizeKB}KB, ${format}, ImageCapture API`);
-          };
-          img.src = dataUrl;
+          const img = await loadImage(dataUrl);
+          const resolution = `${img.width}x${img.height}`;
+          const sizeKB = (finalBlob.size / 1024).toFixed(1);
+          
+          setPhotoResolution(resolution);
+          setCaptureMethod('ImageCapture API');
+          setPhotoFormat(format);
+          setPhotoSize(finalBlob.size);
+          setCaptureMetadata({
+            capturedAt,
+            location,
+            device: await devicePromise,
+            camera,
+            resolution,
+            method: 'ImageCapture API',
+            format,
+            fileSize: finalBlob.size
+          });
+          
+          console.log(`📊 Final photo info: ${resolution}, ${sizeKB}KB, ${format}, ImageCapture API`);
           
           setPhotoUri(dataUrl);
           setPhotoTaken(true);
@@ -250,18 +221,18 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
           return;
         } catch (e) {
           console.error('❌ ImageCapture API failed:', e);
-          setCaptureMethod('Canvas Fallback (ImageCapture failed)');
+          method = 'Canvas Fallback (ImageCapture failed)';
+          setCaptureMethod(method);
         }
       } else {
         console.log('⚠️ ImageCapture API not available, using canvas fallback');
-        setCaptureMethod('Canvas Fallback (API unavailable)');
+        setCaptureMethod(method);
       }
 
-      // Fallback: capture from the video element into canvas
-      if (videoRef.current && canvasRef.current) {
+      // Fallback: capture a frame from the video element
+      if (videoRef.current) {
         console.log('🎨 Using canvas capture fallback');
         const video = videoRef.current;
-        const canvas = canvasRef.current;
         
         // Use video's natural resolution for maximum quality
         const width = video.videoWidth || video.clientWidth;
@@ -269,48 +240,33 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
         
         console.log(`📐 Canvas capture dimensions: ${width}x${height}`);
         
-        // Set canvas dimensions to match video's natural resolution
-        canvas.width = width;
-        canvas.height = height;
+        const blob = await encodeImage(video, width, height, imageOutput);
+        const dataUrl = await blobToDataUrl(blob);
+        const format = describeImageType(blob.type, imageOutput.quality);
+        const scale = imageOutput.maxEdge > 0 ? Math.min(1, imageOutput.maxEdge / Math.max(width, height)) : 1;
+        const resolution = `${Math.round(width * scale)}x${Math.round(height * scale)}`;
         
-        // Draw video frame to canvas with high quality
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          // Enable image smoothing for better quality
-          ctx.imageSmoothingEnabled = true;
-          ctx.imageSmoothingQuality = 'high';
-          
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          
-          // Always use PNG for lossless quality
-          let dataUrl: string;
-          let format: string;
-          let size: number;
-          
-          try {
-            // Always use PNG for lossless quality
-            dataUrl = canvas.toDataURL('image/png');
-            format = 'PNG';
-            size = Math.round(dataUrl.length * 0.75); // Approximate size
-          } catch (e) {
-            // Fallback to high quality JPEG only if PNG fails
-            dataUrl = canvas.toDataURL('image/jpeg', 1.0);
-            format = 'JPEG (100% quality)';
-            size = Math.round(dataUrl.length * 0.75);
-          }
-          
-          console.log(`✅ Canvas capture complete: ${width}x${height}, ${(size/1024/1024).toFixed(2)}MB, ${format}`);
-          
-          setPhotoUri(dataUrl);
-          setPhotoTaken(true);
-          setPhotoResolution(`${width}x${height}`);
-          setPhotoFormat(format);
-          setPhotoSize(size);
-          
-          // Stop camera stream
-          if (streamRef.current) {
-            streamRef.current.getTracks().forEach(track => track.stop());
-          }
+        console.log(`✅ Canvas capture complete: ${resolution}, ${(blob.size/1024/1024).toFixed(2)}MB, ${format}`);
+        
+        setPhotoUri(dataUrl);
+        setPhotoTaken(true);
+        setPhotoResolution(resolution);
+        setPhotoFormat(format);
+        setPhotoSize(blob.size);
+        setCaptureMetadata({
+          capturedAt,
+          location,
+          device: await devicePromise,
+          camera: readCameraSettings(streamRef.current?.getVideoTracks?.()[0]),
+          resolution,
+          method,
+          format,
+          fileSize: blob.size
+        });
+        
+        // Stop camera stream
+        if (streamRef.current) {
+          streamRef.current.getTracks().forEach(track => track.stop());
         }
       }
     } catch (err) {
@@ -331,12 +287,21 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
     setCaptureMethod('');
     setPhotoFormat('JPEG');
     setPhotoSize(0);
-    startCamera();
+    setAnnotation(undefined);
+    setCaptureMetadata(undefined);
+    // The camera restarts in the effect that watches photoTaken
   };
 
-  const confirmPhoto = () => {
-    if (photoUri) {
-      onPhotoTaken(photoUri);
+  const confirmPhoto = async () => {
+    if (photoUri && !isConfirming) {
+      setIsConfirming(true);
+      // Hash the exact bytes that will be stored; markup is kept separately and never alters them
+      const sha256 = await hashPhotoUri(photoUri).catch(error => {
+        secureError('Error hashing photo', error);
+        return undefined;
+      });
+      setIsConfirming(false);
+      onPhotoTaken(photoUri, hasAnnotation(annotation) ? annotation : undefined, captureMetadata, sha256);
       // Reset the state and automatically start the camera for the next photo
       setPhotoTaken(false);
       setPhotoUri('');
@@ -344,22 +309,12 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
       setCaptureMethod('');
       setPhotoFormat('JPEG');
       setPhotoSize(0);
+      setAnnotation(undefined);
+      setCaptureMetadata(undefined);
       // We'll start the camera in useEffect that watches photoTaken
     }
   };
 
-  // Initial camera start
-  useEffect(() => {
-    startCamera();
-    
-    return () => {
-      // Cleanup: stop camera when component unmounts
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-    };
-  }, []);
-
   // Auto-start camera when photo is confirmed and we reset photoTaken to false
   useEffect(() => {
     if (!photoTaken && photoUri === '') {
@@ -372,10 +327,10 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
       {/* Header - Compact */}
       <div className="text-center mb-2 flex-shrink-0">
         <h2 className="text-base sm:text-lg font-semibold">
-          Pallet {currentPallet} of {totalPallets} - Side {currentSide}
+          Pallet {currentPallet} of {totalPallets} - {slotLabel}
         </h2>
         <p className="text-xs text-muted-foreground">
-          {isMobile ? "Tap to capture" : "Position camera to capture the full side of the pallet"}
+          Shot {currentSide} of {captureTemplate.slots.length}{canSkip ? ' (optional)' : ''} · {isMobile ? "Tap to capture" : `Position camera to capture the ${slotLabel.toLowerCase()} of the pallet`}
         </p>
       </div>
       
@@ -415,6 +370,15 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
                 <div>Format: {photoFormat}</div>
                 <div>Size: {(photoSize / 1024 / 1024).toFixed(2)}MB</div>
                 <div>Method: {captureMethod}</div>
+                {recordLocation && (
+                  <div>Location: {captureMetadata?.location ? formatLocation(captureMetadata.location) : 'Unavailable'}</div>
+                )}
+              </div>
+            )}
+            {hasAnnotation(annotation) && (
+              <div className="absolute top-2 right-2 bg-red-600/90 text-white text-xs rounded px-2 py-1 max-w-[50%]">
+                <div className="font-semibold">Damage marked</div>
+                {describeAnnotation(annotation) && <div>{describeAnnotation(annotation)}</div>}
               </div>
             )}
           </>
@@ -431,21 +395,32 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
             </p>
           </div>
         )}
-        
-        <canvas ref={canvasRef} className="hidden" />
+
       </div>
 
       {/* Controls - Fixed at bottom */}
       <div className="flex justify-center gap-3 sm:gap-4 mt-2 flex-shrink-0">
         {!photoTaken ? (
-          <Button 
-            onClick={takePhoto} 
-            disabled={isLoading}
-            className="bg-pallet-primary hover:bg-pallet-accent text-white rounded-full min-h-touch min-w-touch flex items-center justify-center shadow-lg active:scale-95 transition-transform"
-            style={{ width: '80px', height: '80px' }}
-          >
-            <CameraIcon className={`${isMobile ? 'h-10 w-10' : 'h-8 w-8'}`} />
-          </Button>
+          <>
+            <Button 
+              onClick={takePhoto} 
+              disabled={isLoading}
+              className="bg-pallet-primary hover:bg-pallet-accent text-white rounded-full min-h-touch min-w-touch flex items-center justify-center shadow-lg active:scale-95 transition-transform"
+              style={{ width: '80px', height: '80px' }}
+            >
+              <CameraIcon className={`${isMobile ? 'h-10 w-10' : 'h-8 w-8'}`} />
+            </Button>
+            {canSkip && (
+              <Button 
+                onClick={onSkip} 
+                variant="outline"
+                className="self-center bg-white text-pallet-primary border-pallet-primary hover:bg-pallet-secondary min-h-touch px-4 sm:px-6 active:scale-95 transition-transform"
+              >
+                <SkipForward className="mr-1 sm:mr-2 h-4 sm:h-5 w-4 sm:w-5" />
+                <span className="text-sm sm:text-base">Skip</span>
+              </Button>
+            )}
+          </>
         ) : (
           <>
             <Button 
@@ -456,8 +431,17 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
               <RefreshCw className="mr-1 sm:mr-2 h-4 sm:h-5 w-4 sm:w-5" />
               <span className="text-sm sm:text-base">Retake</span>
             </Button>
+            <Button 
+              onClick={() => setIsAnnotating(true)} 
+              variant="outline"
+              className="bg-white text-red-600 border-red-300 hover:bg-red-50 min-h-touch px-4 sm:px-6 active:scale-95 transition-transform"
+            >
+              <PenLine className="mr-1 sm:mr-2 h-4 sm:h-5 w-4 sm:w-5" />
+              <span className="text-sm sm:text-base">Mark Damage</span>
+            </Button>
             <Button 
               onClick={confirmPhoto} 
+              disabled={isConfirming}
               className="bg-pallet-primary hover:bg-pallet-accent min-h-touch px-4 sm:px-6 active:scale-95 transition-transform"
             >
               <CheckIcon className="mr-1 sm:mr-2 h-4 sm:h-5 w-4 sm:w-5" />
@@ -466,6 +450,15 @@ const CameraView: React.FC<CameraViewProps> = ({ onPhotoTaken }) => {
           </>
         )}
       </div>
+
+      <PhotoAnnotationEditor
+        open={isAnnotating}
+        photoUri={photoUri}
+        title={`Pallet ${currentPallet} - ${slotLabel}`}
+        annotation={annotation}
+        onSave={setAnnotation}
+        onClose={() => setIsAnnotating(false)}
+      />
     </div>
   );
 };
@@ -0,0 +1,150 @@
+import React from 'react';
+import { usePallet } from '@/contexts/PalletContext';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Camera, Check, ClipboardList, PlayIcon } from 'lucide-react';
+import { hasAnnotation } from '@/lib/annotations';
+import { findSlotPhoto, getEmptySlots, getMissingRequiredSlots } from '@/lib/captureProgress';
+import { getPalletDetails } from '@/lib/palletDetails';
+import { getThumbnailUri } from '@/lib/thumbnails';
+import PalletVerdictBadge from './PalletVerdictBadge';
+
+interface CaptureOverviewProps {
+  onSelectSlot: (palletIndex: number, sideIndex: number) => void;
+  onEditDetails: (palletIndex: number) => void;
+  onContinue: () => void;
+  onFinish: () => void;
+}
+
+/**
+ * Every pallet and slot of the session in progress, so photos can be taken in any order
+ */
+const CaptureOverview: React.FC<CaptureOverviewProps> = ({ onSelectSlot, onEditDetails, onContinue, onFinish }) => {
+  const { totalPallets, photos, palletDetails, captureTemplate, currentPallet, currentSide } = usePallet();
+  const requiredCount = totalPallets * captureTemplate.slots.filter(slot => slot.required).length;
+  const missingRequired = getMissingRequiredSlots(captureTemplate, totalPallets, photos);
+  const hasEmptySlots = getEmptySlots(captureTemplate, totalPallets, photos).length > 0;
+  const takenRequired = requiredCount - missingRequired.length;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-xl mx-auto mb-6 text-center space-y-2">
+        <h1 className="text-2xl font-bold">Capture Overview</h1>
+        <p className="text-sm text-gray-500">
+          Tap any slot to take or retake its photo.
+        </p>
+        <Progress value={requiredCount > 0 ? (takenRequired / requiredCount) * 100 : 100} className="h-2" />
+        <p className="text-sm font-medium">
+          {takenRequired} of {requiredCount} required photos taken
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {Array.from({ length: totalPallets }, (_, i) => i + 1).map((palletIndex) => {
+          const details = getPalletDetails(palletDetails, palletIndex);
+          return (
+            <div key={palletIndex} className="bg-white rounded-lg shadow p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h2 className="text-lg font-semibold">Pallet {palletIndex}</h2>
+                <div className="flex items-center gap-2">
+                  {details ? (
+                    <PalletVerdictBadge verdict={details.verdict} />
+                  ) : (
+                    <span className="text-xs text-gray-400">No details yet</span>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onEditDetails(palletIndex)}
+                    className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+                  >
+                    <ClipboardList className="mr-1 h-4 w-4" />
+                    Details
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {captureTemplate.slots.map((slot, index) => {
+                  const sideIndex = index + 1;
+                  const photo = findSlotPhoto(photos, palletIndex, sideIndex);
+                  const isCurrent = palletIndex === currentPallet && sideIndex === currentSide;
+                  return (
+                    <button
+                      key={slot.id}
+                      type="button"
+                      onClick={() => onSelectSlot(palletIndex, sideIndex)}
+                      className={`relative aspect-[4/3] rounded-md overflow-hidden text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-pallet-primary ${
+                        photo
+                          ? 'border border-gray-200'
+                          : slot.required
+                            ? 'border-2 border-dashed border-red-300 bg-red-50'
+                            : 'border-2 border-dashed border-gray-200 bg-gray-50'
+                      } ${isCurrent ? 'ring-2 ring-pallet-primary ring-offset-2' : ''}`}
+                    >
+                      {photo ? (
+                        <>
+                          <img
+                            src={getThumbnailUri(photo)}
+                            alt={`Pallet ${palletIndex} ${slot.name}`}
+                            className="absolute inset-0 w-full h-full object-cover"
+                            loading="lazy"
+                            decoding="async"
+                          />
+                          <span className="absolute top-1 right-1 bg-green-600 text-white rounded-full p-0.5">
+                            <Check className="h-3 w-3" />
+                          </span>
+                          {hasAnnotation(photo.annotation) && (
+                            <span className="absolute top-1 left-1 bg-red-600 text-white rounded-full p-0.5">
+                              <AlertTriangle className="h-3 w-3" />
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="absolute inset-0 flex flex-col items-center justify-center gap-1 text-gray-400">
+                          <Camera className="h-5 w-5" />
+                        </span>
+                      )}
+                      <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs px-2 py-1 truncate">
+                        {slot.name}{slot.required ? '' : ' (optional)'}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col items-center gap-2 mt-8">
+        <div className="flex flex-wrap gap-4 justify-center">
+          {hasEmptySlots && (
+            <Button
+              variant="outline"
+              onClick={onContinue}
+              className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+            >
+              <PlayIcon className="mr-2 h-5 w-5" />
+              Continue Capture
+            </Button>
+          )}
+          <Button
+            onClick={onFinish}
+            disabled={missingRequired.length > 0}
+            className="bg-pallet-primary hover:bg-pallet-accent"
+          >
+            <Check className="mr-2 h-5 w-5" />
+            Finish
+          </Button>
+        </div>
+        {missingRequired.length > 0 && (
+          <p className="text-sm text-red-500">
+            {missingRequired.length} required photo(s) still missing
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaptureOverview;
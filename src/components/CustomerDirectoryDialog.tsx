@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { usePallet } from '@/contexts/PalletContext';
+import { useToast } from '@/hooks/use-toast';
+import { CAPTURE_TEMPLATES } from '@/lib/captureTemplates';
+import { CustomerRecord, describeCustomerDefaults } from '@/lib/customerDirectory';
+import { secureError, validateCustomerName } from '@/lib/security';
+
+interface CustomerDirectoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Select values can't be empty strings, so "no default" gets its own value
+const NO_DEFAULT = 'none';
+
+interface CustomerFormState {
+  previousKey?: string;
+  name: string;
+  wrapStatus: string;
+  palletCount: string;
+  templateId: string;
+}
+
+const emptyForm: CustomerFormState = { name: '', wrapStatus: NO_DEFAULT, palletCount: '', templateId: NO_DEFAULT };
+
+const CustomerDirectoryDialog: React.FC<CustomerDirectoryDialogProps> = ({ open, onClose }) => {
+  const { customers, saveCustomer, removeCustomer } = usePallet();
+  const { toast } = useToast();
+  const [form, setForm] = useState<CustomerFormState | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const startEdit = (customer?: CustomerRecord) => {
+    setError('');
+    setForm(customer ? {
+      previousKey: customer.key,
+      name: customer.name,
+      wrapStatus: customer.defaults.wrapStatus || NO_DEFAULT,
+      palletCount: customer.defaults.palletCount?.toString() || '',
+      templateId: customer.defaults.templateId || NO_DEFAULT
+    } : emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const nameValidation = validateCustomerName(form.name);
+    if (!nameValidation.isValid) {
+      setError(nameValidation.error || 'Invalid customer name');
+      return;
+    }
+    const palletCount = form.palletCount ? parseInt(form.palletCount) : undefined;
+    if (palletCount !== undefined && (isNaN(palletCount) || palletCount <= 0 || palletCount > 50)) {
+      setError('Default pallet count must be between 1 and 50');
+      return;
+    }
+
+    try {
+      await saveCustomer(form.name, {
+        wrapStatus: form.wrapStatus === NO_DEFAULT ? undefined : form.wrapStatus as 'unwrapped' | 'wrapped',
+        palletCount,
+        templateId: form.templateId === NO_DEFAULT ? undefined : form.templateId
+      }, form.previousKey);
+      setForm(null);
+    } catch (error) {
+      secureError('Error saving customer', error);
+      setError('The customer could not be saved. Please try again.');
+    }
+  };
+
+  const handleRemove = async (customer: CustomerRecord) => {
+    try {
+      await removeCustomer(customer.key);
+      toast({
+        title: "Customer Removed",
+        description: `${customer.name} has been removed from the directory.`,
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error removing customer', error);
+    }
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setForm(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{form ? (form.previousKey ? 'Edit Customer' : 'Add Customer') : 'Customer Directory'}</DialogTitle>
+          <DialogDescription>
+            {form
+              ? 'Defaults are suggested whenever this customer is picked.'
+              : 'Customers from past sessions appear here automatically.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="directoryName">Customer Name</Label>
+              <Input
+                id="directoryName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={error ? 'border-red-500' : ''}
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="directoryPallets">Usual pallet count</Label>
+                <Input
+                  id="directoryPallets"
+                  inputMode="numeric"
+                  value={form.palletCount}
+                  onChange={(e) => /^\d*$/.test(e.target.value) && setForm({ ...form, palletCount: e.target.value })}
+                  placeholder="None"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Wrap status</Label>
+                <Select value={form.wrapStatus} onValueChange={(value) => setForm({ ...form, wrapStatus: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_DEFAULT}>No default</SelectItem>
+                    <SelectItem value="unwrapped">Unwrapped</SelectItem>
+                    <SelectItem value="wrapped">Wrapped</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Photos per pallet</Label>
+              <Select value={form.templateId} onValueChange={(value) => setForm({ ...form, templateId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DEFAULT}>No default</SelectItem>
+                  {CAPTURE_TEMPLATES.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button className="bg-pallet-primary hover:bg-pallet-accent" onClick={handleSave}>Save Customer</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {customers.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">No customers yet.</p>
+            ) : (
+              <ul className="divide-y border rounded-md">
+                {customers.map(customer => (
+                  <li key={customer.key} className="flex items-center justify-between gap-2 p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{customer.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {describeCustomerDefaults(customer) || 'No defaults'}
+                        {customer.defaultsSource === 'learned' && customer.defaults.palletCount ? ' (from last session)' : ''}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => startEdit(customer)} title="Edit customer">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(customer)}
+                        className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                        title="Remove customer"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => startEdit()}
+              className="w-full border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Customer
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerDirectoryDialog;
@@ -1,20 +1,77 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { usePallet } from '@/contexts/PalletContext';
-import { UserIcon, ClipboardIcon, ArrowRightIcon, Package } from 'lucide-react';
+import { UserIcon, ClipboardIcon, ArrowRightIcon, Package, ScanBarcode, BookUser, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
 import { validateCustomerName, validatePoNumber, sanitizeInput } from '@/lib/security';
+import { ScanResult, getScannedPoNumber } from '@/lib/barcodeScanner';
+import { getCaptureTemplate } from '@/lib/captureTemplates';
+import { CustomerRecord, customerKey, describeCustomerDefaults, searchCustomers } from '@/lib/customerDirectory';
+import BarcodeScanner from './BarcodeScanner';
+import CustomerDirectoryDialog from './CustomerDirectoryDialog';
 
 interface CustomerInfoFormProps {
   onContinue: () => void;
 }
 
 const CustomerInfoForm: React.FC<CustomerInfoFormProps> = ({ onContinue }) => {
-  const { customerName, setCustomerName, poNumber, setPoNumber, wrapStatus, setWrapStatus } = usePallet();
+  const {
+    customerName, setCustomerName, poNumber, setPoNumber, wrapStatus, setWrapStatus,
+    totalPallets, setTotalPallets, captureTemplate, setCaptureTemplate, customers
+  } = usePallet();
   const [errors, setErrors] = useState({ name: '', poNumber: '' });
+  const [isScanning, setIsScanning] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [isDirectoryOpen, setIsDirectoryOpen] = useState(false);
+  const { toast } = useToast();
+
+  const suggestions = useMemo(() => searchCustomers(customers, customerName), [customers, customerName]);
+  const matchedCustomer = customers.find(customer => customer.key === customerKey(customerName));
+
+  // Pallet count and template are picked before this screen, so offer them rather than overwrite
+  const pendingDefaults = matchedCustomer && (
+    (matchedCustomer.defaults.palletCount !== undefined && matchedCustomer.defaults.palletCount !== totalPallets) ||
+    (matchedCustomer.defaults.templateId !== undefined && matchedCustomer.defaults.templateId !== captureTemplate.id)
+  );
+
+  const selectCustomer = (customer: CustomerRecord) => {
+    setCustomerName(customer.name);
+    if (customer.defaults.wrapStatus) {
+      setWrapStatus(customer.defaults.wrapStatus);
+    }
+    setErrors(current => ({ ...current, name: '' }));
+    setShowSuggestions(false);
+    setHighlightedIndex(-1);
+  };
+
+  const applyCustomerDefaults = () => {
+    if (!matchedCustomer) return;
+    const { palletCount, templateId } = matchedCustomer.defaults;
+    if (palletCount !== undefined) setTotalPallets(palletCount);
+    if (templateId !== undefined) setCaptureTemplate(getCaptureTemplate(templateId));
+  };
+
+  const handleNameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && highlightedIndex >= 0) {
+      e.preventDefault();
+      selectCustomer(suggestions[highlightedIndex]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
 
   const validate = (): boolean => {
     const newErrors = { name: '', poNumber: '' };
@@ -33,6 +90,20 @@ const CustomerInfoForm: React.FC<CustomerInfoFormProps> = ({ onContinue }) => {
     return nameValidation.isValid && poValidation.isValid;
   };
 
+  const handleScan = (result: ScanResult) => {
+    const scanned = getScannedPoNumber(result);
+    setPoNumber(scanned);
+
+    // Flag codes that aren't a valid PO straight away rather than on Continue
+    const poValidation = validatePoNumber(scanned);
+    setErrors(current => ({ ...current, poNumber: poValidation.isValid ? '' : poValidation.error || 'Invalid PO number' }));
+    toast({
+      title: "PO Scanned",
+      description: `Read "${scanned}". Please check it matches the paperwork.`,
+      duration: 3000
+    });
+  };
+
   const handleContinue = () => {
     if (validate()) {
       // Sanitize inputs before proceeding
@@ -51,19 +122,84 @@ const CustomerInfoForm: React.FC<CustomerInfoFormProps> = ({ onContinue }) => {
         
         <div className="space-y-6">
           <div className="space-y-2">
-            <Label htmlFor="customerName" className="text-md flex items-center">
-              <UserIcon className="h-4 w-4 mr-2" />
-              Customer Name
-            </Label>
-            <Input
-              id="customerName"
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              placeholder="Enter customer name"
-              className={`text-lg py-5 ${errors.name ? 'border-red-500' : 'border-gray-300'}`}
-              autoFocus
-            />
+            <div className="flex items-center justify-between">
+              <Label htmlFor="customerName" className="text-md flex items-center">
+                <UserIcon className="h-4 w-4 mr-2" />
+                Customer Name
+              </Label>
+              <button
+                type="button"
+                onClick={() => setIsDirectoryOpen(true)}
+                className="text-sm text-pallet-primary hover:underline flex items-center"
+              >
+                <BookUser className="h-4 w-4 mr-1" />
+                Manage customers
+              </button>
+            </div>
+            <div className="relative">
+              <Input
+                id="customerName"
+                value={customerName}
+                onChange={(e) => {
+                  setCustomerName(e.target.value);
+                  setShowSuggestions(true);
+                  setHighlightedIndex(-1);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                onKeyDown={handleNameKeyDown}
+                placeholder="Enter customer name"
+                className={`text-lg py-5 ${errors.name ? 'border-red-500' : 'border-gray-300'}`}
+                role="combobox"
+                aria-expanded={showSuggestions && suggestions.length > 0}
+                aria-controls="customerSuggestions"
+                aria-autocomplete="list"
+                autoComplete="off"
+                autoFocus
+              />
+              {showSuggestions && suggestions.length > 0 && (
+                <ul
+                  id="customerSuggestions"
+                  role="listbox"
+                  className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto"
+                >
+                  {suggestions.map((customer, index) => (
+                    <li
+                      key={customer.key}
+                      role="option"
+                      aria-selected={index === highlightedIndex}
+                      // Keep focus on the input so the blur doesn't close the list before the click lands
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => selectCustomer(customer)}
+                      className={`px-3 py-2 cursor-pointer ${index === highlightedIndex ? 'bg-pallet-secondary' : 'hover:bg-gray-50'}`}
+                    >
+                      <p className="font-medium text-gray-800">{customer.name}</p>
+                      {describeCustomerDefaults(customer) && (
+                        <p className="text-xs text-gray-500">{describeCustomerDefaults(customer)}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
             {errors.name && <p className="text-sm text-red-500">{errors.name}</p>}
+            {matchedCustomer && pendingDefaults && (
+              <div className="flex items-center justify-between gap-2 rounded-md bg-pallet-secondary/50 border border-pallet-secondary p-3">
+                <p className="text-sm text-gray-700 flex items-center">
+                  <History className="h-4 w-4 mr-2 shrink-0" />
+                  Usual for {matchedCustomer.name}: {describeCustomerDefaults(matchedCustomer)}
+                </p>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={applyCustomerDefaults}
+                  className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary shrink-0"
+                >
+                  Apply
+                </Button>
+              </div>
+            )}
           </div>
           
           <div className="space-y-2">
@@ -71,13 +207,24 @@ const CustomerInfoForm: React.FC<CustomerInfoFormProps> = ({ onContinue }) => {
               <ClipboardIcon className="h-4 w-4 mr-2" />
               PO Number
             </Label>
-            <Input
-              id="poNumber"
-              value={poNumber}
-              onChange={(e) => setPoNumber(e.target.value)}
-              placeholder="Enter PO number"
-              className={`text-lg py-5 ${errors.poNumber ? 'border-red-500' : 'border-gray-300'}`}
-            />
+            <div className="flex gap-2">
+              <Input
+                id="poNumber"
+                value={poNumber}
+                onChange={(e) => setPoNumber(e.target.value)}
+                placeholder="Enter PO number"
+                className={`text-lg py-5 ${errors.poNumber ? 'border-red-500' : 'border-gray-300'}`}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsScanning(true)}
+                className="h-auto border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+                title="Scan PO barcode"
+              >
+                <ScanBarcode className="h-5 w-5" />
+              </Button>
+            </div>
             {errors.poNumber && <p className="text-sm text-red-500">{errors.poNumber}</p>}
           </div>
           
@@ -124,6 +271,15 @@ const CustomerInfoForm: React.FC<CustomerInfoFormProps> = ({ onContinue }) => {
           </Button>
         </div>
       </div>
+
+      <BarcodeScanner
+        open={isScanning}
+        title="Scan PO Number"
+        onDetected={handleScan}
+        onClose={() => setIsScanning(false)}
+      />
+
+      <CustomerDirectoryDialog open={isDirectoryOpen} onClose={() => setIsDirectoryOpen(false)} />
     </div>
   );
 };
@@ -0,0 +1,189 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { HISTORY_SORTS, HISTORY_SYNC_STATES, HistoryFilters, HistorySort } from '@/lib/teamHistory';
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface HistoryFilterBarProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+  sort: HistorySort;
+  onSortChange: (sort: HistorySort) => void;
+  devices: FilterOption[];
+  users: FilterOption[];
+  customers: string[];
+  resultCount: number;
+  totalCount: number;
+}
+
+// Select values can't be empty strings, so "no filter" gets its own value
+const ALL = 'all';
+
+const HistoryFilterBar: React.FC<HistoryFilterBarProps> = ({
+  filters,
+  onChange,
+  sort,
+  onSortChange,
+  devices,
+  users,
+  customers,
+  resultCount,
+  totalCount
+}) => {
+  const setFilter = (key: keyof HistoryFilters, value: string) => {
+    onChange({ ...filters, [key]: value === ALL || value === '' ? undefined : value });
+  };
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-lg border border-pallet-secondary">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            type="search"
+            value={filters.query || ''}
+            onChange={(e) => setFilter('query', e.target.value)}
+            placeholder="Search customer or PO number"
+            className="pl-9"
+            aria-label="Search sessions"
+          />
+        </div>
+        <Select value={sort} onValueChange={(value) => onSortChange(value as HistorySort)}>
+          <SelectTrigger className="w-40" aria-label="Sort sessions">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HISTORY_SORTS.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Wrap status</Label>
+          <Select value={filters.wrapStatus || ALL} onValueChange={(value) => setFilter('wrapStatus', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any</SelectItem>
+              <SelectItem value="unwrapped">Unwrapped</SelectItem>
+              <SelectItem value="wrapped">Wrapped</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Sync</Label>
+          <Select value={filters.syncState || ALL} onValueChange={(value) => setFilter('syncState', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any</SelectItem>
+              {HISTORY_SYNC_STATES.map(state => (
+                <SelectItem key={state.id} value={state.id}>{state.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="historyFrom" className="text-xs text-gray-500">From</Label>
+          <Input
+            id="historyFrom"
+            type="date"
+            value={filters.from || ''}
+            max={filters.to}
+            onChange={(e) => setFilter('from', e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="historyTo" className="text-xs text-gray-500">To</Label>
+          <Input
+            id="historyTo"
+            type="date"
+            value={filters.to || ''}
+            min={filters.from}
+            onChange={(e) => setFilter('to', e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Customer</Label>
+          <Select value={filters.customerName || ALL} onValueChange={(value) => setFilter('customerName', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All customers</SelectItem>
+              {customers.map(customer => (
+                <SelectItem key={customer} value={customer}>{customer}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Only worth showing once sessions come from more than one device or driver */}
+        {devices.length > 1 && (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Device</Label>
+            <Select value={filters.deviceId || ALL} onValueChange={(value) => setFilter('deviceId', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All devices</SelectItem>
+                {devices.map(device => (
+                  <SelectItem key={device.value} value={device.value}>{device.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {users.length > 1 && (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Driver</Label>
+            <Select value={filters.userId || ALL} onValueChange={(value) => setFilter('userId', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All drivers</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.value} value={user.value}>{user.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>
+          {hasFilters ? `${resultCount} of ${totalCount} sessions` : `${totalCount} sessions`}
+        </span>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+            <X className="mr-1 h-4 w-4" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryFilterBar;
@@ -1,20 +1,101 @@
 
-import React from 'react';
-import { usePallet } from '@/contexts/PalletContext';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { usePallet, PalletPhoto, PalletSession } from '@/contexts/PalletContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { ArrowLeft, Trash2, Download } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Trash2, Download, FileArchive, FileText, UploadCloud, AlertTriangle, RefreshCw, Smartphone, Maximize2, Pin, PinOff, Clock, Pencil, History, Layers, Package, ShieldAlert } from 'lucide-react';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
-import { generateSecureFilename, secureError } from '@/lib/security';
+import { secureError } from '@/lib/security';
+import { getSlotLabel } from '@/lib/captureTemplates';
+import { buildSessionZip, downloadBlob, exportPhoto, shareFiles } from '@/lib/sessionExport';
+import { hasAnnotation } from '@/lib/annotations';
+import { getThumbnailUri } from '@/lib/thumbnails';
+import { buildSessionReport } from '@/lib/pdfReport';
+import { useWindowVirtualizer } from '@/hooks/use-window-virtualizer';
+import { getExpiryState } from '@/lib/retention';
+import { findLinkedSession } from '@/lib/wrapPhases';
+import {
+  HistoryEntry,
+  HistoryFilters,
+  HistorySort,
+  RemoteSessionRow,
+  filterHistory,
+  getDeviceLabel,
+  getMemberName,
+  mergeHistory,
+  sortHistory
+} from '@/lib/teamHistory';
+import SyncStatusBadge from './SyncStatusBadge';
+import SessionExpiryLabel from './SessionExpiryLabel';
+import HistoryFilterBar from './HistoryFilterBar';
+import RemoteSessionCard from './RemoteSessionCard';
 
 interface HistoryViewProps {
   onBack: () => void;
+  onEdit: (sessionId: string) => void;
+  onStartWrapped: (session: PalletSession) => void;
 }
 
-const HistoryView: React.FC<HistoryViewProps> = ({ onBack }) => {
-  const { localSessions, deleteLocalSession } = usePallet();
+const HistoryView: React.FC<HistoryViewProps> = ({ onBack, onEdit, onStartWrapped }) => {
+  const {
+    localSessions, deleteLocalSession, supabase, syncProgress, queueSessionUpload, deviceId,
+    team, authUser, fetchHistorySessions, setSessionPinned, settings, unreadableRecords
+  } = usePallet();
   const { toast } = useToast();
+  const [exportingSessionId, setExportingSessionId] = useState<string | null>(null);
+  const [burnAnnotations, setBurnAnnotations] = useState(true);
+  const [remoteSessions, setRemoteSessions] = useState<RemoteSessionRow[]>([]);
+  const [isLoadingRemote, setIsLoadingRemote] = useState<boolean>(false);
+  const [filters, setFilters] = useState<HistoryFilters>({});
+  const [sort, setSort] = useState<HistorySort>('newest');
+  const currentUserId = authUser?.id ?? null;
+
+  // Sessions uploaded from any device in the team, merged with what's saved here
+  const loadRemoteSessions = useCallback(async () => {
+    setIsLoadingRemote(true);
+    setRemoteSessions(await fetchHistorySessions());
+    setIsLoadingRemote(false);
+  }, [fetchHistorySessions]);
+
+  useEffect(() => {
+    if (supabase) {
+      loadRemoteSessions();
+    }
+  }, [supabase, loadRemoteSessions]);
+
+  const entries = useMemo(
+    () => mergeHistory(localSessions, remoteSessions, deviceId),
+    [localSessions, remoteSessions, deviceId]
+  );
+  const visibleEntries = useMemo(
+    () => sortHistory(filterHistory(entries, filters), sort),
+    [entries, filters, sort]
+  );
+  const visibleKeys = useMemo(() => visibleEntries.map(entry => entry.session.id), [visibleEntries]);
+  const { containerRef, items, totalSize, measureElement } = useWindowVirtualizer<HTMLDivElement>({
+    keys: visibleKeys,
+    // Roughly a card with one row of thumbnails
+    estimateSize: 420
+  });
+
+  const expiringCount = localSessions.filter(session => getExpiryState(session, settings) === 'expiring').length;
+
+  const deviceOptions = [...new Set(entries.map(entry => entry.deviceId))]
+    .map(id => ({ value: id, label: getDeviceLabel(id, deviceId) }));
+  const userOptions = [...new Set(entries.flatMap(entry => (entry.userId ? [entry.userId] : [])))]
+    .map(id => ({ value: id, label: getMemberName(id, team, currentUserId) }));
+  const customerOptions = [...new Set(entries.map(entry => entry.session.customerName))]
+    .sort((a, b) => a.localeCompare(b));
+
+  // Who captured a session and where, once there's more than one of either to tell apart
+  const describeOrigin = (entryDeviceId: string, entryUserId?: string): string | null => {
+    if (!team && deviceOptions.length < 2) return null;
+    return `${getMemberName(entryUserId, team, currentUserId)} · ${getDeviceLabel(entryDeviceId, deviceId)}`;
+  };
 
   // Format date for display
   const formatDate = (timestamp: number) => {
@@ -22,18 +103,11 @@ const HistoryView: React.FC<HistoryViewProps> = ({ onBack }) => {
   };
 
   // Handle download of a photo
-  const handleDownload = (photo: any, customerName: string, poNumber: string, wrapStatus?: string) => {
+  const handleDownload = async (photo: PalletPhoto, session: PalletSession) => {
     try {
-      const { palletIndex, sideIndex, photoUri } = photo;
-      const status = wrapStatus || 'unwrapped';
-      const fileName = generateSecureFilename(customerName, poNumber, status, palletIndex, sideIndex);
+      const { blob, fileName } = await exportPhoto(session, photo, burnAnnotations, settings.watermark);
       
-      const link = document.createElement('a');
-      link.href = photoUri;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadBlob(blob, fileName);
       
       toast({
         title: "Photo Saved",
@@ -51,6 +125,109 @@ const HistoryView: React.FC<HistoryViewProps> = ({ onBack }) => {
     }
   };
 
+  // Handle exporting a whole session as one ZIP
+  const handleExportZip = async (session: PalletSession) => {
+    setExportingSessionId(session.id);
+    try {
+      // Before/after pairs are exported together
+      const linkedSession = findLinkedSession(session, localSessions);
+      const { blob, fileName } = await buildSessionZip(session, {
+        deviceId, burnAnnotations, linkedSession, watermark: settings.watermark
+      });
+      downloadBlob(blob, fileName);
+      toast({
+        title: "ZIP Ready",
+        description: `${session.photos.length + (linkedSession?.photos.length ?? 0)} photos and a manifest were saved as ${fileName}.`,
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error exporting session ZIP from history', error);
+      toast({
+        title: "Export Failed",
+        description: "There was an error creating the ZIP file. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    } finally {
+      setExportingSessionId(null);
+    }
+  };
+
+  // Handle generating and sharing a PDF report for a session
+  const handleReport = async (session: PalletSession) => {
+    setExportingSessionId(session.id);
+    try {
+      const linkedSession = findLinkedSession(session, localSessions);
+      const { blob, fileName } = await buildSessionReport(session, { deviceId, linkedSession });
+      const file = new File([blob], fileName, { type: 'application/pdf' });
+      const shared = await shareFiles([file], `${session.customerName} - ${session.poNumber} Report`);
+      if (!shared) {
+        downloadBlob(blob, fileName);
+      }
+      toast({
+        title: "Report Ready",
+        description: shared ? "The PDF report has been shared." : `${fileName} has been saved to your downloads folder.`,
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error generating PDF report from history', error);
+      toast({
+        title: "Report Failed",
+        description: "There was an error generating the PDF report. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    } finally {
+      setExportingSessionId(null);
+    }
+  };
+
+  // Handle queueing a local-only or failed session for upload
+  const handleUpload = async (sessionId: string) => {
+    try {
+      const queued = await queueSessionUpload(sessionId);
+      toast({
+        title: queued ? "Upload Queued" : "Upload Unavailable",
+        description: queued 
+          ? "This session will upload in the background, even if you close the app."
+          : "Cloud sync is not configured on this device.",
+        variant: queued ? "default" : "destructive",
+        duration: 3000
+      });
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "The session couldn't be queued. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    }
+  };
+
+  // Handle pinning a session so it never expires, or releasing it back to the retention period
+  const handlePin = async (session: PalletSession) => {
+    try {
+      await setSessionPinned(session.id, !session.pinned);
+      toast({
+        title: session.pinned ? "Session Unpinned" : "Session Pinned",
+        description: session.pinned
+          ? `This session will be deleted ${settings.retentionDays} days after it was captured.`
+          : "This session will stay on this device until you delete it.",
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error pinning session', error);
+      toast({
+        title: "Pin Failed",
+        description: "There was an error updating this session. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    }
+  };
+
   // Handle deleting a session
   const handleDelete = (sessionId: string) => {
     deleteLocalSession(sessionId);
@@ -61,84 +238,278 @@ const HistoryView: React.FC<HistoryViewProps> = ({ onBack }) => {
     });
   };
 
+  // Cards vary in height with their thumbnails; the virtualized list measures each one
+  const renderEntry = ({ session, ...entry }: HistoryEntry) => {
+    if (entry.source === 'remote') {
+      return (
+        <RemoteSessionCard
+          entry={{ session, ...entry }}
+          capturedBy={describeOrigin(entry.deviceId, entry.userId) || getDeviceLabel(entry.deviceId, deviceId)}
+        />
+      );
+    }
+
+    // Before/after pairs are shown and exported together
+    const linkedSession = findLinkedSession(session, localSessions);
+    return (
+      <Card className="overflow-hidden">
+        <CardContent className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-xl font-semibold">{session.customerName}</h2>
+              <p className="text-sm text-gray-500">PO: {session.poNumber}</p>
+              <p className="text-sm text-gray-500">Status: {session.wrapStatus ? session.wrapStatus.charAt(0).toUpperCase() + session.wrapStatus.slice(1) : 'Unwrapped'}</p>
+              <p className="text-xs text-gray-400">{formatDate(session.timestamp)}</p>
+              <SessionExpiryLabel session={session} />
+              {session.edits && session.edits.length > 0 && (
+                <p className="flex items-center gap-1 text-xs text-gray-500">
+                  <History className="h-3.5 w-3.5" />
+                  Edited {formatDate(session.edits[session.edits.length - 1].editedAt)}
+                </p>
+              )}
+              {linkedSession && (
+                <p className="flex items-center gap-1 text-xs text-pallet-primary">
+                  <Layers className="h-3.5 w-3.5" />
+                  Paired with {linkedSession.wrapStatus} photos from {formatDate(linkedSession.timestamp)}
+                </p>
+              )}
+              {describeOrigin(entry.deviceId, entry.userId) && (
+                <p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                  <Smartphone className="h-3.5 w-3.5" />
+                  {describeOrigin(entry.deviceId, entry.userId)}
+                </p>
+              )}
+              {session.photos.some(photo => hasAnnotation(photo.annotation)) && (
+                <p className="flex items-center gap-1 text-sm text-red-600 mt-1">
+                  <AlertTriangle className="h-4 w-4" />
+                  {session.photos.filter(photo => hasAnnotation(photo.annotation)).length} photo(s) with damage noted
+                </p>
+              )}
+              <div className="mt-2">
+                <SyncStatusBadge status={session.syncStatus} progress={syncProgress[session.id]} error={session.syncError} />
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <Button 
+                asChild
+                variant="ghost" 
+                className="text-pallet-primary hover:bg-pallet-secondary"
+                title="View all photos"
+              >
+                <Link to={`/sessions/${session.id}`}>
+                  <Maximize2 className="h-5 w-5" />
+                </Link>
+              </Button>
+              <Button 
+                variant="ghost" 
+                onClick={() => handleExportZip(session)}
+                disabled={exportingSessionId === session.id}
+                className="text-pallet-primary hover:bg-pallet-secondary"
+                title="Download ZIP"
+              >
+                <FileArchive className="h-5 w-5" />
+              </Button>
+              <Button 
+                variant="ghost" 
+                onClick={() => handleReport(session)}
+                disabled={exportingSessionId === session.id}
+                className="text-pallet-primary hover:bg-pallet-secondary"
+                title="PDF report"
+              >
+                <FileText className="h-5 w-5" />
+              </Button>
+              {supabase && session.syncStatus !== 'synced' && (!syncProgress[session.id] || session.syncStatus === 'error') && (
+                <Button 
+                  variant="ghost" 
+                  onClick={() => handleUpload(session.id)}
+                  className="text-pallet-primary hover:bg-pallet-secondary"
+                  title="Upload to cloud"
+                >
+                  <UploadCloud className="h-5 w-5" />
+                </Button>
+              )}
+              <Button 
+                variant="ghost" 
+                onClick={() => onEdit(session.id)}
+                className="text-pallet-primary hover:bg-pallet-secondary"
+                title="Edit session"
+              >
+                <Pencil className="h-5 w-5" />
+              </Button>
+              {session.wrapStatus === 'unwrapped' && !linkedSession && (
+                <Button 
+                  variant="ghost" 
+                  onClick={() => onStartWrapped(session)}
+                  className="text-pallet-primary hover:bg-pallet-secondary"
+                  title="Photograph after wrapping"
+                >
+                  <Package className="h-5 w-5" />
+                </Button>
+              )}
+              <Button 
+                variant="ghost" 
+                onClick={() => handlePin(session)}
+                className="text-pallet-primary hover:bg-pallet-secondary"
+                title={session.pinned ? "Unpin" : "Pin to keep on this device"}
+              >
+                {session.pinned ? <PinOff className="h-5 w-5" /> : <Pin className="h-5 w-5" />}
+              </Button>
+              <Button 
+                variant="ghost" 
+                onClick={() => handleDelete(session.id)}
+                className="text-red-500 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-5 w-5" />
+              </Button>
+            </div>
+          </div>
+          
+          <p className="text-sm mb-3">
+            {session.totalPallets} pallet(s), {session.photos.length} photos
+          </p>
+          
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {session.photos.slice(0, 4).map((photo, index) => (
+              <div key={`${photo.palletIndex}-${photo.sideIndex}`} className="relative aspect-square">
+                <img 
+                  src={getThumbnailUri(photo)}
+                  alt={`Pallet ${photo.palletIndex}, ${getSlotLabel(session.captureTemplate, photo.sideIndex)}`}
+                  className="w-full h-full object-cover rounded-md"
+                  loading="lazy"
+                  decoding="async"
+                />
+                <div className="absolute inset-0 flex items-center justify-center gap-1 opacity-0 hover:opacity-100 transition-opacity bg-black/50 rounded-md">
+                  <Button 
+                    asChild
+                    size="sm"
+                    variant="ghost"
+                    className="text-white bg-transparent hover:bg-white/20"
+                    title="View session"
+                  >
+                    <Link to={`/sessions/${session.id}`}>
+                      <Maximize2 className="h-5 w-5" />
+                    </Link>
+                  </Button>
+                  <Button 
+                    size="sm"
+                    variant="ghost"
+                    className="text-white bg-transparent hover:bg-white/20"
+                    onClick={() => handleDownload(photo, session)}
+                  >
+                    <Download className="h-5 w-5" />
+                  </Button>
+                </div>
+                <div className="absolute top-1 left-1 bg-black/70 text-white px-1.5 py-0.5 text-xs rounded">
+                  P{photo.palletIndex} {getSlotLabel(session.captureTemplate, photo.sideIndex)}
+                </div>
+              </div>
+            ))}
+            {session.photos.length > 4 && (
+              <Link
+                to={`/sessions/${session.id}`}
+                className="flex items-center justify-center bg-gray-100 hover:bg-gray-200 rounded-md aspect-square"
+              >
+                <span className="text-gray-500">+{session.photos.length - 4} more</span>
+              </Link>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex items-center justify-between mb-6">
-        <h1 className="text-2xl font-bold">Session History</h1>
-        <Button 
-          variant="outline" 
-          onClick={onBack}
-          className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
-        >
-          <ArrowLeft className="mr-2 h-5 w-5" />
-          Back
-        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Session History</h1>
+          {team && <p className="text-sm text-gray-500">{team.name} · all devices</p>}
+        </div>
+        <div className="flex gap-2">
+          {supabase && (
+            <Button
+              variant="outline"
+              onClick={loadRemoteSessions}
+              disabled={isLoadingRemote}
+              className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+              title="Refresh"
+            >
+              <RefreshCw className={`h-5 w-5 ${isLoadingRemote ? 'animate-spin' : ''}`} />
+            </Button>
+          )}
+          <Button 
+            variant="outline" 
+            onClick={onBack}
+            className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+          >
+            <ArrowLeft className="mr-2 h-5 w-5" />
+            Back
+          </Button>
+        </div>
       </div>
 
-      {localSessions.length === 0 ? (
+      {unreadableRecords > 0 && (
+        <div className="flex items-start gap-2 p-4 mb-6 rounded-lg border border-red-200 bg-red-50 text-sm text-red-800">
+          <ShieldAlert className="h-5 w-5 shrink-0" />
+          <p>
+            {unreadableRecords} session(s) or photo(s) stored on this device couldn't be decrypted, so they aren't listed.
+            Anything already uploaded can still be viewed from the cloud.
+          </p>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-gray-500">No session history found.</p>
           <p className="text-gray-400 text-sm mt-2">
-            When you complete documenting pallets, they will appear here for one week.
+            When you complete documenting pallets, they will appear here for {settings.retentionDays} days.
           </p>
         </div>
       ) : (
         <div className="space-y-6">
-          {localSessions.map((session) => (
-            <Card key={session.id} className="overflow-hidden">
-              <CardContent className="p-6">
-                <div className="flex justify-between items-start mb-4">
-                  <div>
-                    <h2 className="text-xl font-semibold">{session.customerName}</h2>
-                    <p className="text-sm text-gray-500">PO: {session.poNumber}</p>
-                    <p className="text-sm text-gray-500">Status: {session.wrapStatus ? session.wrapStatus.charAt(0).toUpperCase() + session.wrapStatus.slice(1) : 'Unwrapped'}</p>
-                    <p className="text-xs text-gray-400">{formatDate(session.timestamp)}</p>
-                  </div>
-                  <Button 
-                    variant="ghost" 
-                    onClick={() => handleDelete(session.id)}
-                    className="text-red-500 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 className="h-5 w-5" />
-                  </Button>
-                </div>
-                
-                <p className="text-sm mb-3">
-                  {session.totalPallets} pallet(s), {session.photos.length} photos
-                </p>
-                
-                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-                  {session.photos.slice(0, 4).map((photo, index) => (
-                    <div key={`${photo.palletIndex}-${photo.sideIndex}`} className="relative aspect-square">
-                      <img 
-                        src={photo.photoUri} 
-                        alt={`Pallet ${photo.palletIndex}, Side ${photo.sideIndex}`}
-                        className="w-full h-full object-cover rounded-md"
-                      />
-                      <div className="absolute inset-0 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity bg-black/50 rounded-md">
-                        <Button 
-                          size="sm"
-                          variant="ghost"
-                          className="text-white bg-transparent hover:bg-white/20"
-                          onClick={() => handleDownload(photo, session.customerName, session.poNumber, session.wrapStatus)}
-                        >
-                          <Download className="h-5 w-5" />
-                        </Button>
-                      </div>
-                      <div className="absolute top-1 left-1 bg-black/70 text-white px-1.5 py-0.5 text-xs rounded">
-                        P{photo.palletIndex}S{photo.sideIndex}
-                      </div>
-                    </div>
-                  ))}
-                  {session.photos.length > 4 && (
-                    <div className="flex items-center justify-center bg-gray-100 rounded-md aspect-square">
-                      <span className="text-gray-500">+{session.photos.length - 4} more</span>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+          {expiringCount > 0 && (
+            <div className="flex items-start gap-2 p-4 rounded-lg border border-amber-300 bg-amber-50 text-sm text-amber-800">
+              <Clock className="h-5 w-5 shrink-0" />
+              <p>
+                {expiringCount} session(s) will be deleted from this device within two days.
+                Pin, upload or export any you still need.
+              </p>
+            </div>
+          )}
+          <HistoryFilterBar
+            filters={filters}
+            onChange={setFilters}
+            sort={sort}
+            onSortChange={setSort}
+            devices={deviceOptions}
+            users={userOptions}
+            customers={customerOptions}
+            resultCount={visibleEntries.length}
+            totalCount={entries.length}
+          />
+          {localSessions.some(session => session.photos.some(photo => hasAnnotation(photo.annotation))) && (
+            <div className="flex items-center gap-2">
+              <Switch id="historyBurnAnnotations" checked={burnAnnotations} onCheckedChange={setBurnAnnotations} />
+              <Label htmlFor="historyBurnAnnotations">Burn damage markup into exported photos</Label>
+            </div>
+          )}
+          {visibleEntries.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No sessions match these filters.</p>
+          )}
+          {/* Only cards near the viewport are mounted, so hundreds of sessions stay responsive */}
+          <div ref={containerRef} className="relative" style={{ height: totalSize }}>
+            {items.map(item => (
+              <div
+                key={item.key}
+                ref={measureElement}
+                data-virtual-key={item.key}
+                className="absolute inset-x-0 top-0 pb-6"
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                {renderEntry(visibleEntries[item.index])}
+              </div>
+            ))}
+          </div>
         </div>
       )}
     </div>
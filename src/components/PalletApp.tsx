@@ -1,71 +1,246 @@
 
 import React, { useState } from 'react';
+import { useLocation } from 'react-router-dom';
 import PalletCountSelector from './PalletCountSelector';
 import CustomerInfoForm from './CustomerInfoForm';
 import CameraView from './CameraView';
+import PalletDetailsForm from './PalletDetailsForm';
 import PhotoGallery from './PhotoGallery';
 import HistoryView from './HistoryView';
-import { usePallet } from '@/contexts/PalletContext';
-import { ArrowLeft, History } from 'lucide-react';
+import SettingsView from './SettingsView';
+import VerifyView from './VerifyView';
+import SessionEditView from './SessionEditView';
+import CaptureOverview from './CaptureOverview';
+import SignInView from './SignInView';
+import { usePallet, PalletSession } from '@/contexts/PalletContext';
+import { ArrowLeft, History, LayoutGrid, Loader2, Lock, LogOut, Settings, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAppLock } from '@/hooks/use-app-lock';
+import { appLock } from '@/lib/appLock';
+import { secureError } from '@/lib/security';
+import { PhotoAnnotation } from '@/lib/annotations';
+import { CaptureMetadata } from '@/lib/captureMetadata';
+import { getEmptySlots, getMissingRequiredSlots } from '@/lib/captureProgress';
 
 enum AppStage {
   COUNT_SELECTION,
   CUSTOMER_INFO,
   PHOTO_CAPTURE,
+  PALLET_DETAILS,
   GALLERY,
-  HISTORY
+  HISTORY,
+  SETTINGS,
+  EDIT_SESSION,
+  CAPTURE_OVERVIEW,
+  VERIFY
 }
 
 const PalletApp: React.FC = () => {
-  const [stage, setStage] = useState<AppStage>(AppStage.COUNT_SELECTION);
+  const location = useLocation();
   const { 
     totalPallets, 
+    setTotalPallets, 
     currentPallet, 
     setCurrentPallet, 
     currentSide, 
     setCurrentSide, 
+    captureTemplate,
     addPhoto,
-    resetData
+    resetData,
+    photos,
+    editingSession,
+    reopenSession,
+    startWrappedPhase,
+    unfinishedDraft,
+    authStatus,
+    authUser,
+    signOut
   } = usePallet();
+  // Coming back from a session's detail page returns to history, or to the session it reopened
+  const [stage, setStage] = useState<AppStage>(() => {
+    const view = (location.state as { view?: string } | null)?.view;
+    if (view === 'edit' && editingSession) return AppStage.EDIT_SESSION;
+    return view === 'history' ? AppStage.HISTORY : AppStage.COUNT_SELECTION;
+  });
+  // Set while a single slot or pallet's details are captured out of order; the stage to return to after
+  const [returnStage, setReturnStage] = useState<AppStage | null>(null);
+  const { toast } = useToast();
+  const { enabled: lockEnabled } = useAppLock();
+  const slotCount = captureTemplate.slots.length;
 
-  const handlePhotoTaken = (photoUri: string) => {
+  const advanceToNextSlot = () => {
+    if (currentSide < slotCount) {
+      // Go to next slot of current pallet
+      setCurrentSide(currentSide + 1);
+    } else {
+      // This pallet is complete, record its details before moving on
+      setStage(AppStage.PALLET_DETAILS);
+    }
+  };
+
+  // Completion waits until every required slot has a photo
+  const finishCapture = () => {
+    if (editingSession) {
+      setStage(AppStage.EDIT_SESSION);
+      return;
+    }
+    const missing = getMissingRequiredSlots(captureTemplate, totalPallets, photos);
+    if (missing.length > 0) {
+      toast({
+        title: "Photos Missing",
+        description: `${missing.length} required photo(s) still need to be taken.`,
+        variant: "destructive",
+        duration: 3000
+      });
+      setStage(AppStage.CAPTURE_OVERVIEW);
+      return;
+    }
+    setStage(AppStage.GALLERY);
+  };
+
+  const handlePalletDetailsSaved = () => {
+    if (returnStage !== null) {
+      finishOutOfOrder();
+    } else if (currentPallet < totalPallets) {
+      // Move to the next pallet
+      setCurrentPallet(currentPallet + 1);
+      setCurrentSide(1);
+      setStage(AppStage.PHOTO_CAPTURE);
+    } else {
+      // All pallets complete, show gallery, or go back to the session being edited
+      finishCapture();
+    }
+  };
+
+  const handlePhotoTaken = (photoUri: string, annotation?: PhotoAnnotation, metadata?: CaptureMetadata, sha256?: string) => {
     // Save the photo
-    addPhoto(currentPallet, currentSide, photoUri);
+    addPhoto(currentPallet, currentSide, photoUri, annotation, metadata, sha256);
     
-    // Move to next side or next pallet
-    if (currentSide < 4) {
-      // Go to next side of current pallet
-      setCurrentSide(currentSide + 1);
+    if (returnStage !== null) {
+      finishOutOfOrder();
+      return;
+    }
+
+    // Move to next slot or next pallet
+    advanceToNextSlot();
+  };
+
+  const handleSkip = () => {
+    if (returnStage !== null) {
+      finishOutOfOrder();
     } else {
-      // This pallet is complete
-      if (currentPallet < totalPallets) {
-        // Move to the next pallet
-        setCurrentPallet(currentPallet + 1);
-        setCurrentSide(1);
-      } else {
-        // All pallets complete, show gallery
-        setStage(AppStage.GALLERY);
-      }
+      advanceToNextSlot();
     }
   };
 
+  // An interrupted edit resumes on the edit screen rather than the camera
+  const handleResume = () => {
+    setStage(unfinishedDraft?.editOf ? AppStage.EDIT_SESSION : AppStage.PHOTO_CAPTURE);
+  };
+
+  const handleEditSession = async (sessionId: string) => {
+    const reopened = await reopenSession(sessionId);
+    if (reopened) {
+      setStage(AppStage.EDIT_SESSION);
+      return;
+    }
+    toast({
+      title: "Can't Edit Session",
+      description: unfinishedDraft
+        ? "Resume or discard the unfinished session first."
+        : "This session could not be opened for editing. Please try again.",
+      variant: "destructive",
+      duration: 4000
+    });
+  };
+
+  // The wrapped photos of already-photographed pallets skip straight to the camera
+  const handleStartWrapped = (session: PalletSession) => {
+    if (startWrappedPhase(session)) {
+      setStage(AppStage.PHOTO_CAPTURE);
+      return;
+    }
+    toast({
+      title: "Can't Start Wrapped Photos",
+      description: "Resume or discard the unfinished session first.",
+      variant: "destructive",
+      duration: 4000
+    });
+  };
+
+  const captureSlot = (palletIndex: number, sideIndex: number, from: AppStage) => {
+    setCurrentPallet(palletIndex);
+    setCurrentSide(sideIndex);
+    setReturnStage(from);
+    setStage(AppStage.PHOTO_CAPTURE);
+  };
+
+  const handleEditDetails = (palletIndex: number) => {
+    setCurrentPallet(palletIndex);
+    setReturnStage(AppStage.CAPTURE_OVERVIEW);
+    setStage(AppStage.PALLET_DETAILS);
+  };
+
+  const finishOutOfOrder = () => {
+    setStage(returnStage ?? AppStage.PHOTO_CAPTURE);
+    setReturnStage(null);
+  };
+
+  // Picks up the usual slot-by-slot flow from the first slot still without a photo
+  const handleContinueCapture = () => {
+    const [next] = getEmptySlots(captureTemplate, totalPallets, photos);
+    if (next) {
+      setCurrentPallet(next.palletIndex);
+      setCurrentSide(next.sideIndex);
+    }
+    setReturnStage(null);
+    setStage(AppStage.PHOTO_CAPTURE);
+  };
+
+  // A late pallet goes through the usual capture and details steps
+  const handleAddPallet = () => {
+    const palletIndex = totalPallets + 1;
+    setTotalPallets(palletIndex);
+    setCurrentPallet(palletIndex);
+    setCurrentSide(1);
+    setStage(AppStage.PHOTO_CAPTURE);
+  };
+
+  const handleDiscardEdit = () => {
+    resetData();
+    setStage(AppStage.HISTORY);
+  };
+
   const handleBack = () => {
     if (stage === AppStage.CUSTOMER_INFO) {
       setStage(AppStage.COUNT_SELECTION);
+    } else if ((stage === AppStage.PHOTO_CAPTURE || stage === AppStage.PALLET_DETAILS) && returnStage !== null) {
+      finishOutOfOrder();
+    } else if (stage === AppStage.PHOTO_CAPTURE && editingSession && currentSide === 1) {
+      // Backing out of a pallet that was just added, before any photo, drops it again
+      if (currentPallet === totalPallets && !photos.some(photo => photo.palletIndex === currentPallet)) {
+        setTotalPallets(totalPallets - 1);
+      }
+      setStage(AppStage.EDIT_SESSION);
     } else if (stage === AppStage.PHOTO_CAPTURE) {
-      // If we're at the first side of the first pallet, go to customer info
+      // If we're at the first slot of the first pallet, go to customer info
       if (currentPallet === 1 && currentSide === 1) {
         setStage(AppStage.CUSTOMER_INFO);
       } else if (currentSide === 1) {
-        // If we're at the first side of any other pallet, go to the previous pallet's last side
+        // If we're at the first slot of any other pallet, go to the previous pallet's last slot
         setCurrentPallet(currentPallet - 1);
-        setCurrentSide(4);
+        setCurrentSide(slotCount);
       } else {
-        // Otherwise, just go back one side
+        // Otherwise, just go back one slot
         setCurrentSide(currentSide - 1);
       }
-    } else if (stage === AppStage.HISTORY) {
+    } else if (stage === AppStage.PALLET_DETAILS) {
+      // Return to the pallet's last slot to retake it
+      setStage(AppStage.PHOTO_CAPTURE);
+    } else if (stage === AppStage.CAPTURE_OVERVIEW) {
+      handleContinueCapture();
+    } else if (stage === AppStage.HISTORY || stage === AppStage.SETTINGS || stage === AppStage.VERIFY) {
       setStage(AppStage.COUNT_SELECTION);
     }
   };
@@ -75,28 +250,103 @@ const PalletApp: React.FC = () => {
     setStage(AppStage.COUNT_SELECTION);
   };
 
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      toast({
+        title: "Signed Out",
+        description: "Any sessions still uploading will resume when you sign back in.",
+        duration: 4000
+      });
+    } catch (error) {
+      secureError('Error signing out', error);
+      toast({
+        title: "Sign Out Failed",
+        description: "Please check your connection and try again.",
+        variant: "destructive",
+        duration: 4000
+      });
+    }
+  };
+
   const renderStage = () => {
+    // Capture is gated on sign-in whenever sync is configured
+    if (authStatus === 'loading') {
+      return (
+        <div className="flex items-center justify-center min-h-[80vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-pallet-primary" />
+        </div>
+      );
+    }
+    if (authStatus === 'signed-out') {
+      return <SignInView />;
+    }
+
     switch(stage) {
       case AppStage.COUNT_SELECTION:
-        return <PalletCountSelector onContinue={() => setStage(AppStage.CUSTOMER_INFO)} />;
+        return (
+          <PalletCountSelector 
+            onContinue={() => setStage(AppStage.CUSTOMER_INFO)} 
+            onResume={handleResume} 
+            onOpenHistory={() => setStage(AppStage.HISTORY)} 
+          />
+        );
       case AppStage.CUSTOMER_INFO:
         return <CustomerInfoForm onContinue={() => setStage(AppStage.PHOTO_CAPTURE)} />;
       case AppStage.PHOTO_CAPTURE:
-        return <CameraView onPhotoTaken={handlePhotoTaken} />;
+        return <CameraView onPhotoTaken={handlePhotoTaken} onSkip={handleSkip} />;
+      case AppStage.PALLET_DETAILS:
+        return <PalletDetailsForm key={currentPallet} onContinue={handlePalletDetailsSaved} />;
       case AppStage.GALLERY:
-        return <PhotoGallery onRestart={handleRestart} />;
+        return <PhotoGallery onRestart={handleRestart} onStartWrapped={handleStartWrapped} />;
       case AppStage.HISTORY:
-        return <HistoryView onBack={() => setStage(AppStage.COUNT_SELECTION)} />;
+        return <HistoryView onBack={() => setStage(AppStage.COUNT_SELECTION)} onEdit={handleEditSession} onStartWrapped={handleStartWrapped} />;
+      case AppStage.SETTINGS:
+        return <SettingsView />;
+      case AppStage.VERIFY:
+        return <VerifyView />;
+      case AppStage.EDIT_SESSION:
+        return (
+          <SessionEditView
+            onRetake={(palletIndex, sideIndex) => captureSlot(palletIndex, sideIndex, AppStage.EDIT_SESSION)}
+            onAddPallet={handleAddPallet}
+            onSave={() => setStage(AppStage.GALLERY)}
+            onCancel={handleDiscardEdit}
+          />
+        );
+      case AppStage.CAPTURE_OVERVIEW:
+        return (
+          <CaptureOverview
+            onSelectSlot={(palletIndex, sideIndex) => captureSlot(palletIndex, sideIndex, AppStage.CAPTURE_OVERVIEW)}
+            onEditDetails={handleEditDetails}
+            onContinue={handleContinueCapture}
+            onFinish={finishCapture}
+          />
+        );
       default:
-        return <PalletCountSelector onContinue={() => setStage(AppStage.CUSTOMER_INFO)} />;
+        return (
+          <PalletCountSelector 
+            onContinue={() => setStage(AppStage.CUSTOMER_INFO)} 
+            onResume={handleResume} 
+            onOpenHistory={() => setStage(AppStage.HISTORY)} 
+          />
+        );
     }
   };
 
   // Determine if we should show the back button
-  const showBackButton = stage === AppStage.CUSTOMER_INFO || 
+  const isAppVisible = authStatus === 'disabled' || authStatus === 'signed-in';
+  // Reopened sessions already list every slot on the edit screen
+  const showOverviewButton = isAppVisible && !editingSession && returnStage === null &&
+                        (stage === AppStage.PHOTO_CAPTURE || stage === AppStage.PALLET_DETAILS);
+  const showBackButton = isAppVisible && (stage === AppStage.CUSTOMER_INFO || 
                         (stage === AppStage.PHOTO_CAPTURE && 
-                        !(currentPallet === 1 && currentSide === 1)) ||
-                        stage === AppStage.HISTORY;
+                        (returnStage !== null || !!editingSession || !(currentPallet === 1 && currentSide === 1))) ||
+                        stage === AppStage.PALLET_DETAILS ||
+                        stage === AppStage.CAPTURE_OVERVIEW ||
+                        stage === AppStage.HISTORY ||
+                        stage === AppStage.SETTINGS ||
+                        stage === AppStage.VERIFY);
 
   return (
     <div className="min-h-screen p-4 relative">
@@ -107,7 +357,7 @@ const PalletApp: React.FC = () => {
         </div>
         
         <div className="flex gap-2">
-          {stage === AppStage.COUNT_SELECTION && (
+          {isAppVisible && stage === AppStage.COUNT_SELECTION && (
             <Button
               variant="outline"
               onClick={() => setStage(AppStage.HISTORY)}
@@ -117,7 +367,63 @@ const PalletApp: React.FC = () => {
               History
             </Button>
           )}
+
+          {isAppVisible && stage === AppStage.COUNT_SELECTION && (
+            <Button
+              variant="outline"
+              onClick={() => setStage(AppStage.VERIFY)}
+              className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+              title="Verify a photo"
+            >
+              <ShieldCheck className="h-5 w-5" />
+            </Button>
+          )}
+
+          {isAppVisible && stage === AppStage.COUNT_SELECTION && (
+            <Button
+              variant="outline"
+              onClick={() => setStage(AppStage.SETTINGS)}
+              className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+              title="Settings"
+            >
+              <Settings className="h-5 w-5" />
+            </Button>
+          )}
+
+          {lockEnabled && stage === AppStage.COUNT_SELECTION && (
+            <Button
+              variant="outline"
+              onClick={() => appLock.lock()}
+              className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+              title="Lock now"
+            >
+              <Lock className="h-5 w-5" />
+            </Button>
+          )}
+
+          {authStatus === 'signed-in' && stage === AppStage.COUNT_SELECTION && (
+            <Button
+              variant="outline"
+              onClick={handleSignOut}
+              className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+              title={authUser?.email ? `Signed in as ${authUser.email}` : 'Sign out'}
+            >
+              <LogOut className="mr-2 h-5 w-5" />
+              Sign Out
+            </Button>
+          )}
           
+          {showOverviewButton && (
+            <Button
+              variant="outline"
+              onClick={() => setStage(AppStage.CAPTURE_OVERVIEW)}
+              className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+            >
+              <LayoutGrid className="mr-2 h-5 w-5" />
+              Overview
+            </Button>
+          )}
+
           {showBackButton && (
             <Button 
               variant="outline" 
@@ -3,19 +3,37 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { usePallet } from '@/contexts/PalletContext';
-import { BoxesIcon, ArrowRightIcon } from 'lucide-react';
+import { BoxesIcon, ArrowRightIcon, RotateCcw, Trash2, Clock, ShieldAlert } from 'lucide-react';
+import { format } from 'date-fns';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { CAPTURE_TEMPLATES, describeTemplate, getCaptureTemplate } from '@/lib/captureTemplates';
+import { getExpiryState } from '@/lib/retention';
 
 interface PalletCountSelectorProps {
   onContinue: () => void;
+  onResume: () => void;
+  onOpenHistory: () => void;
 }
 
-const PalletCountSelector: React.FC<PalletCountSelectorProps> = ({ onContinue }) => {
-  const { totalPallets, setTotalPallets } = usePallet();
+const PalletCountSelector: React.FC<PalletCountSelectorProps> = ({ onContinue, onResume, onOpenHistory }) => {
+  const { 
+    totalPallets, 
+    setTotalPallets, 
+    captureTemplate, 
+    setCaptureTemplate, 
+    unfinishedDraft, 
+    resumeDraft, 
+    discardDraft, 
+    localSessions, 
+    settings,
+    unreadableRecords
+  } = usePallet();
   const [count, setCount] = useState<string>(totalPallets > 0 ? totalPallets.toString() : '');
   const [error, setError] = useState<string>('');
   const isMobile = useIsMobile();
+  const expiringCount = localSessions.filter(session => getExpiryState(session, settings) === 'expiring').length;
 
   const handleCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -43,10 +61,23 @@ const PalletCountSelector: React.FC<PalletCountSelectorProps> = ({ onContinue })
       return;
     }
 
+    // Starting fresh replaces any unfinished session that was not resumed
+    if (unfinishedDraft) {
+      discardDraft();
+    }
+
     setTotalPallets(palletCount);
     onContinue();
   };
 
+  const handleResume = async () => {
+    if (await resumeDraft()) {
+      onResume();
+    } else {
+      setError("The session being edited couldn't be loaded. Please try again.");
+    }
+  };
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen-safe p-4 pt-safe-top pb-safe-bottom">
       <div className={`w-full ${isMobile ? 'max-w-sm' : 'max-w-md'} ${isMobile ? 'p-6' : 'p-8'} bg-white rounded-lg shadow-lg border border-pallet-secondary`}>
@@ -60,6 +91,65 @@ const PalletCountSelector: React.FC<PalletCountSelectorProps> = ({ onContinue })
           Pallet Documentation
         </h1>
         
+        {unfinishedDraft && (
+          <div className="mb-4 sm:mb-6 p-4 rounded-lg border border-amber-300 bg-amber-50 space-y-3">
+            <div>
+              <p className="font-semibold text-gray-800">
+                {unfinishedDraft.editOf ? 'Resume editing saved session?' : 'Resume unfinished session?'}
+              </p>
+              <p className="text-sm text-gray-600">
+                {unfinishedDraft.customerName || 'Unnamed customer'}
+                {unfinishedDraft.poNumber && ` (PO: ${unfinishedDraft.poNumber})`}
+              </p>
+              <p className="text-sm text-gray-600">
+                Pallet {unfinishedDraft.currentPallet} of {unfinishedDraft.totalPallets}, {unfinishedDraft.photos.length} photo(s) saved
+              </p>
+              <p className="text-xs text-gray-400">
+                Last updated {format(new Date(unfinishedDraft.updatedAt), 'MMM d, yyyy h:mm a')}. Starting a new session discards it.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button 
+                onClick={handleResume}
+                className="flex-1 min-h-touch bg-pallet-primary hover:bg-pallet-accent"
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Resume
+              </Button>
+              <Button 
+                variant="outline"
+                onClick={() => discardDraft()}
+                className="min-h-touch text-red-500 border-red-200 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+        
+        {expiringCount > 0 && (
+          <button
+            type="button"
+            onClick={onOpenHistory}
+            className="w-full mb-4 sm:mb-6 p-3 flex items-start gap-2 rounded-lg border border-amber-300 bg-amber-50 text-left text-sm text-amber-800 hover:bg-amber-100"
+          >
+            <Clock className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              {expiringCount} saved session(s) will be deleted from this device within two days. Open history to pin or export them.
+            </span>
+          </button>
+        )}
+        
+        {unreadableRecords > 0 && (
+          <div className="mb-4 sm:mb-6 p-3 flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 text-sm text-red-800">
+            <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              {unreadableRecords} saved item(s) on this device couldn't be decrypted and are hidden. They may be damaged, or the browser's stored key was cleared.
+            </span>
+          </div>
+        )}
+        
         <div className="space-y-4 sm:space-y-6">
           <div className="space-y-2 sm:space-y-3">
             <Label htmlFor="palletCount" className={`${isMobile ? 'text-sm' : 'text-md'} font-medium`}>
@@ -78,6 +168,28 @@ const PalletCountSelector: React.FC<PalletCountSelectorProps> = ({ onContinue })
             />
             {error && <p className="text-sm text-red-500 mt-1">{error}</p>}
           </div>
+
+          <div className="space-y-2 sm:space-y-3">
+            <Label htmlFor="captureTemplate" className={`${isMobile ? 'text-sm' : 'text-md'} font-medium`}>
+              Photos per pallet
+            </Label>
+            <Select
+              value={captureTemplate.id}
+              onValueChange={(templateId) => setCaptureTemplate(getCaptureTemplate(templateId))}
+            >
+              <SelectTrigger id="captureTemplate" className="min-h-touch">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CAPTURE_TEMPLATES.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{describeTemplate(captureTemplate)}</p>
+          </div>
           
           <Button 
             onClick={handleContinue}
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePallet } from '@/contexts/PalletContext';
+import { ArrowRightIcon, Barcode, Boxes, ClipboardCheck, Scale, ScanBarcode, Tag } from 'lucide-react';
+import { hasAnnotation } from '@/lib/annotations';
+import { ScanResult, getScannedPalletId } from '@/lib/barcodeScanner';
+import BarcodeScanner from './BarcodeScanner';
+import {
+  PALLET_VERDICTS,
+  PalletDetails,
+  PalletDetailsErrors,
+  PalletVerdict,
+  WeightUnit,
+  emptyPalletDetails,
+  getPalletDetails,
+  sanitizePalletDetails,
+  validatePalletDetails
+} from '@/lib/palletDetails';
+
+interface PalletDetailsFormProps {
+  onContinue: () => void;
+}
+
+const VERDICT_STYLES: Record<PalletVerdict, string> = {
+  pass: 'border-green-500 bg-green-50',
+  damaged: 'border-amber-500 bg-amber-50',
+  rejected: 'border-red-500 bg-red-50'
+};
+
+const parseOptionalNumber = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Number(value);
+
+const PalletDetailsForm: React.FC<PalletDetailsFormProps> = ({ onContinue }) => {
+  const { currentPallet, totalPallets, photos, palletDetails, savePalletDetails } = usePallet();
+
+  // Suggest "damaged" when damage was already marked on this pallet's photos
+  const [details, setDetails] = useState<PalletDetails>(() => {
+    const existing = getPalletDetails(palletDetails, currentPallet);
+    if (existing) return existing;
+    const damageMarked = photos.some(photo => photo.palletIndex === currentPallet && hasAnnotation(photo.annotation));
+    return emptyPalletDetails(currentPallet, damageMarked ? 'damaged' : 'pass');
+  });
+  const [caseCountInput, setCaseCountInput] = useState<string>(details.caseCount?.toString() ?? '');
+  const [weightInput, setWeightInput] = useState<string>(details.weight?.toString() ?? '');
+  const [errors, setErrors] = useState<PalletDetailsErrors>({});
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+
+  const isLastPallet = currentPallet >= totalPallets;
+
+  const handleScan = (result: ScanResult) => {
+    setDetails(current => ({ ...current, palletId: getScannedPalletId(result) }));
+    setErrors(current => ({ ...current, palletId: undefined }));
+  };
+
+  const handleContinue = () => {
+    const candidate: PalletDetails = {
+      ...details,
+      palletIndex: currentPallet,
+      caseCount: parseOptionalNumber(caseCountInput),
+      weight: parseOptionalNumber(weightInput)
+    };
+
+    const validation = validatePalletDetails(candidate);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    savePalletDetails(sanitizePalletDetails(candidate));
+    onContinue();
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[80vh] p-4">
+      <div className="w-full max-w-md p-8 bg-white rounded-lg shadow-lg border border-pallet-secondary">
+        <h1 className="text-2xl font-bold text-center mb-2 text-gray-800">
+          Pallet {currentPallet} Details
+        </h1>
+        <p className="text-center text-gray-500 mb-6">
+          Record what's on this pallet and its condition.
+        </p>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="palletId" className="text-md flex items-center">
+              <Barcode className="h-4 w-4 mr-2" />
+              Pallet ID / License Plate
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="palletId"
+                value={details.palletId}
+                onChange={(e) => setDetails({ ...details, palletId: e.target.value })}
+                placeholder="Optional"
+                className={`text-lg py-5 ${errors.palletId ? 'border-red-500' : 'border-gray-300'}`}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsScanning(true)}
+                className="h-auto border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+                title="Scan pallet label"
+              >
+                <ScanBarcode className="h-5 w-5" />
+              </Button>
+            </div>
+            {errors.palletId && <p className="text-sm text-red-500">{errors.palletId}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sku" className="text-md flex items-center">
+              <Tag className="h-4 w-4 mr-2" />
+              SKU
+            </Label>
+            <Input
+              id="sku"
+              value={details.sku}
+              onChange={(e) => setDetails({ ...details, sku: e.target.value })}
+              placeholder="Optional"
+              className={`text-lg py-5 ${errors.sku ? 'border-red-500' : 'border-gray-300'}`}
+            />
+            {errors.sku && <p className="text-sm text-red-500">{errors.sku}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="caseCount" className="text-md flex items-center">
+                <Boxes className="h-4 w-4 mr-2" />
+                Cases
+              </Label>
+              <Input
+                id="caseCount"
+                type="number"
+                inputMode="numeric"
+                min={0}
+                value={caseCountInput}
+                onChange={(e) => setCaseCountInput(e.target.value)}
+                placeholder="0"
+                className={`text-lg py-5 ${errors.caseCount ? 'border-red-500' : 'border-gray-300'}`}
+              />
+              {errors.caseCount && <p className="text-sm text-red-500">{errors.caseCount}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="weight" className="text-md flex items-center">
+                <Scale className="h-4 w-4 mr-2" />
+                Weight
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="weight"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="any"
+                  value={weightInput}
+                  onChange={(e) => setWeightInput(e.target.value)}
+                  placeholder="0"
+                  className={`text-lg py-5 ${errors.weight ? 'border-red-500' : 'border-gray-300'}`}
+                />
+                <Select
+                  value={details.weightUnit}
+                  onValueChange={(value) => setDetails({ ...details, weightUnit: value as WeightUnit })}
+                >
+                  <SelectTrigger className="w-20 h-auto">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="kg">kg</SelectItem>
+                    <SelectItem value="lb">lb</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {errors.weight && <p className="text-sm text-red-500">{errors.weight}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-md flex items-center">
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Condition
+            </Label>
+            <RadioGroup
+              value={details.verdict}
+              onValueChange={(value) => setDetails({ ...details, verdict: value as PalletVerdict })}
+              className="grid-cols-3"
+            >
+              {PALLET_VERDICTS.map(verdict => (
+                <Label
+                  key={verdict.id}
+                  htmlFor={`verdict-${verdict.id}`}
+                  className={`flex items-center justify-center gap-2 rounded-md border-2 p-3 cursor-pointer ${
+                    details.verdict === verdict.id ? VERDICT_STYLES[verdict.id] : 'border-gray-200'
+                  }`}
+                >
+                  <RadioGroupItem id={`verdict-${verdict.id}`} value={verdict.id} />
+                  {verdict.label}
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <Button
+            onClick={handleContinue}
+            className="w-full py-6 text-lg bg-pallet-primary hover:bg-pallet-accent"
+            size="lg"
+          >
+            {isLastPallet ? 'Finish' : `Continue to Pallet ${currentPallet + 1}`}
+            <ArrowRightIcon className="ml-2 h-5 w-5" />
+          </Button>
+        </div>
+      </div>
+
+      <BarcodeScanner
+        open={isScanning}
+        title={`Scan Pallet ${currentPallet} Label`}
+        onDetected={handleScan}
+        onClose={() => setIsScanning(false)}
+      />
+    </div>
+  );
+};
+
+export default PalletDetailsForm;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, AlertTriangle, XCircle } from 'lucide-react';
+import { PalletVerdict, getVerdictLabel } from '@/lib/palletDetails';
+
+interface PalletVerdictBadgeProps {
+  verdict?: PalletVerdict;
+}
+
+const PalletVerdictBadge: React.FC<PalletVerdictBadgeProps> = ({ verdict }) => {
+  if (!verdict) {
+    return null;
+  }
+
+  if (verdict === 'pass') {
+    return (
+      <Badge variant="outline" className="text-green-700 border-green-200 bg-green-50">
+        <CheckCircle2 className="mr-1 h-3 w-3" />
+        {getVerdictLabel(verdict)}
+      </Badge>
+    );
+  }
+
+  if (verdict === 'damaged') {
+    return (
+      <Badge variant="outline" className="text-amber-700 border-amber-200 bg-amber-50">
+        <AlertTriangle className="mr-1 h-3 w-3" />
+        {getVerdictLabel(verdict)}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="text-red-700 border-red-200 bg-red-50">
+      <XCircle className="mr-1 h-3 w-3" />
+      {getVerdictLabel(verdict)}
+    </Badge>
+  );
+};
+
+export default PalletVerdictBadge;
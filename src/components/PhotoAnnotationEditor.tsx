@@ -0,0 +1,196 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Circle, MoveUpRight, Undo2, Eraser } from 'lucide-react';
+import {
+  DAMAGE_CATEGORIES,
+  DamageCategory,
+  MarkupShape,
+  MarkupTool,
+  PhotoAnnotation,
+  drawMarkup,
+  emptyAnnotation
+} from '@/lib/annotations';
+import { sanitizeInput } from '@/lib/security';
+
+interface PhotoAnnotationEditorProps {
+  open: boolean;
+  photoUri: string;
+  title: string;
+  annotation?: PhotoAnnotation;
+  onSave: (annotation: PhotoAnnotation) => void;
+  onClose: () => void;
+}
+
+// Ignore accidental taps that would create invisible shapes
+const MIN_SHAPE_SIZE = 0.01;
+
+const PhotoAnnotationEditor: React.FC<PhotoAnnotationEditorProps> = ({ open, photoUri, title, annotation, onSave, onClose }) => {
+  const [notes, setNotes] = useState<string>('');
+  const [damageCategories, setDamageCategories] = useState<DamageCategory[]>([]);
+  const [markup, setMarkup] = useState<MarkupShape[]>([]);
+  const [tool, setTool] = useState<MarkupTool>('circle');
+  const [draftShape, setDraftShape] = useState<MarkupShape | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Load the existing annotation each time the editor opens
+  useEffect(() => {
+    if (open) {
+      const initial = annotation || emptyAnnotation();
+      setNotes(initial.notes);
+      setDamageCategories(initial.damageCategories);
+      setMarkup(initial.markup);
+      setDraftShape(null);
+    }
+  }, [open, annotation]);
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = container.clientWidth * ratio;
+    canvas.height = container.clientHeight * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawMarkup(ctx, draftShape ? [...markup, draftShape] : markup, canvas.width, canvas.height);
+  };
+
+  useEffect(() => {
+    redraw();
+  });
+
+  const toNormalizedPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = toNormalizedPoint(event);
+    setDraftShape({ type: tool, x1: x, y1: y, x2: x, y2: y });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draftShape) return;
+    const { x, y } = toNormalizedPoint(event);
+    setDraftShape({ ...draftShape, x2: x, y2: y });
+  };
+
+  const handlePointerUp = () => {
+    if (!draftShape) return;
+    const size = Math.max(Math.abs(draftShape.x2 - draftShape.x1), Math.abs(draftShape.y2 - draftShape.y1));
+    if (size >= MIN_SHAPE_SIZE) {
+      setMarkup([...markup, draftShape]);
+    }
+    setDraftShape(null);
+  };
+
+  const toggleCategory = (category: DamageCategory) => {
+    setDamageCategories(current =>
+      current.includes(category) ? current.filter(item => item !== category) : [...current, category]
+    );
+  };
+
+  const handleSave = () => {
+    onSave({ notes: sanitizeInput(notes), damageCategories, markup });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Mark Damage - {title}</DialogTitle>
+          <DialogDescription>Draw circles or arrows on the photo, pick damage types and add notes.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup type="single" value={tool} onValueChange={(value) => value && setTool(value as MarkupTool)}>
+            <ToggleGroupItem value="circle" aria-label="Circle">
+              <Circle className="h-4 w-4 mr-1" />
+              Circle
+            </ToggleGroupItem>
+            <ToggleGroupItem value="arrow" aria-label="Arrow">
+              <MoveUpRight className="h-4 w-4 mr-1" />
+              Arrow
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Button variant="outline" size="sm" onClick={() => setMarkup(markup.slice(0, -1))} disabled={markup.length === 0}>
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setMarkup([])} disabled={markup.length === 0}>
+            <Eraser className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+
+        <div className="flex justify-center bg-black rounded-md">
+          <div ref={containerRef} className="relative inline-block">
+            <img
+              src={photoUri}
+              alt={title}
+              className="block max-w-full max-h-[50vh] select-none"
+              draggable={false}
+              onLoad={redraw}
+            />
+            <canvas
+              ref={canvasRef}
+              className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDraftShape(null)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Damage</Label>
+          <div className="flex flex-wrap gap-2">
+            {DAMAGE_CATEGORIES.map(category => (
+              <Button
+                key={category.id}
+                size="sm"
+                variant={damageCategories.includes(category.id) ? 'default' : 'outline'}
+                className={damageCategories.includes(category.id) ? 'bg-red-600 hover:bg-red-700' : ''}
+                onClick={() => toggleCategory(category.id)}
+              >
+                {category.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="annotationNotes">Notes</Label>
+          <Textarea
+            id="annotationNotes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Describe the damage"
+            maxLength={500}
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button className="bg-pallet-primary hover:bg-pallet-accent" onClick={handleSave}>Save Annotation</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoAnnotationEditor;
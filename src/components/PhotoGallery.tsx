@@ -1,42 +1,66 @@
 import React, { useState, useEffect } from 'react';
-import { usePallet } from '@/contexts/PalletContext';
+import { usePallet, PalletPhoto, PalletSession } from '@/contexts/PalletContext';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent } from '@/components/ui/card';
-import { Download, Home, CheckCircle, Share2 } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, FileArchive, FileText, Home, CheckCircle, Share2, PenLine, Package } from 'lucide-react';
+import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
-import { generateSecureFilename, secureError } from '@/lib/security';
+import { secureError } from '@/lib/security';
+import { getSlotLabel } from '@/lib/captureTemplates';
+import { buildSessionZip, downloadBlob, exportPhoto, shareFiles } from '@/lib/sessionExport';
+import { buildSessionReport } from '@/lib/pdfReport';
+import { PhotoAnnotation, hasAnnotation } from '@/lib/annotations';
+import { findLinkedSession, getWrapPhases } from '@/lib/wrapPhases';
+import SyncStatusBadge from './SyncStatusBadge';
+import SessionPhotoGrid from './SessionPhotoGrid';
+import PhotoAnnotationEditor from './PhotoAnnotationEditor';
+import WrapComparisonView from './WrapComparisonView';
 
 interface PhotoGalleryProps {
   onRestart: () => void;
+  onStartWrapped: (session: PalletSession) => void;
 }
 
-const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onRestart }) => {
-  const { photos, totalPallets, customerName, poNumber, wrapStatus, saveSessionToLocalStorage } = usePallet();
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onRestart, onStartWrapped }) => {
+  const { 
+    sessionId, 
+    photos, 
+    palletDetails, 
+    totalPallets, 
+    customerName, 
+    poNumber, 
+    wrapStatus, 
+    captureTemplate, 
+    updatePhotoAnnotation, 
+    getCurrentSession, 
+    saveSession, 
+    supabase, 
+    syncProgress, 
+    deviceId, 
+    settings, 
+    editingSession, 
+    localSessions 
+  } = usePallet();
   const { toast } = useToast();
   const [isSharing, setIsSharing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [burnAnnotations, setBurnAnnotations] = useState(true);
+  const [annotatingPhoto, setAnnotatingPhoto] = useState<PalletPhoto | null>(null);
+  // Leaving for a new session mid-save would discard the photos being saved
+  const [isSaving, setIsSaving] = useState(photos.length > 0 && !!customerName && !!poNumber);
+  // The unwrapped session these photos follow, or the wrapped one that followed them
+  const linkedSession = findLinkedSession(getCurrentSession(), localSessions);
+  const phases = linkedSession ? getWrapPhases(getCurrentSession(), linkedSession) : null;
 
-  // Group photos by pallet
-  const photosByPallet = photos.reduce((acc: Record<number, any[]>, photo) => {
-    const { palletIndex } = photo;
-    if (!acc[palletIndex]) {
-      acc[palletIndex] = [];
-    }
-    acc[palletIndex].push(photo);
-    return acc;
-  }, {});
+  const getPhotoExport = (photo: PalletPhoto) =>
+    exportPhoto({ customerName, poNumber, wrapStatus, captureTemplate }, photo, burnAnnotations, settings.watermark);
 
-  const handleDownload = (photo: any) => {
+  const handleDownload = async (photo: PalletPhoto) => {
     try {
-      const { palletIndex, sideIndex, photoUri } = photo;
-      const fileName = generateSecureFilename(customerName, poNumber, wrapStatus, palletIndex, sideIndex);
-      
-      // Create an anchor element and set the href to the photo URI
-      const link = document.createElement('a');
-      link.href = photoUri;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      const { blob, fileName } = await getPhotoExport(photo);
+      downloadBlob(blob, fileName);
       
       toast({
         title: "Photo Saved",
@@ -54,43 +78,48 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onRestart }) => {
     }
   };
 
-  const downloadAllPhotos = () => {
-    photos.forEach(photo => {
-      setTimeout(() => {
-        handleDownload(photo);
-      }, 300); // Add small delay between downloads
-    });
+  const downloadAllPhotos = async () => {
+    setIsExporting(true);
     
-    toast({
-      title: "All Photos Downloading",
-      description: `${photos.length} photos will be saved to your downloads folder.`,
-      duration: 5000
-    });
+    try {
+      const { blob, fileName } = await buildSessionZip(getCurrentSession(), {
+        deviceId, burnAnnotations, linkedSession, watermark: settings.watermark
+      });
+      downloadBlob(blob, fileName);
+      
+      toast({
+        title: "ZIP Ready",
+        description: `${photos.length + (linkedSession?.photos.length ?? 0)} photos and a manifest were saved as ${fileName}.`,
+        duration: 5000
+      });
+    } catch (error) {
+      secureError('Error exporting session ZIP', error);
+      toast({
+        title: "Export Failed",
+        description: "There was an error creating the ZIP file. Please try again.",
+        variant: "destructive",
+        duration: 5000
+      });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const sharePhotos = async () => {
     setIsSharing(true);
     
     try {
-      if (navigator.share) {
-        // Prepare files for sharing
-        const files: File[] = await Promise.all(
-          photos.map(async (photo) => {
-            const { palletIndex, sideIndex, photoUri } = photo;
-            const fileName = generateSecureFilename(customerName, poNumber, wrapStatus, palletIndex, sideIndex);
-            
-            // Convert data URI to Blob
-            const response = await fetch(photoUri);
-            const blob = await response.blob();
-            return new File([blob], fileName, { type: 'image/jpeg' });
-          })
-        );
-
-        await navigator.share({
-          title: `${customerName} - ${poNumber} Photos`,
-          files
-        });
-        
+      // Prepare files for sharing
+      const files: File[] = await Promise.all(
+        photos.map(async (photo) => {
+          const { blob, fileName } = await getPhotoExport(photo);
+          return new File([blob], fileName, { type: blob.type || 'image/jpeg' });
+        })
+      );
+
+      const shared = await shareFiles(files, `${customerName} - ${poNumber} Photos`);
+      
+      if (shared) {
         toast({
           title: "Share Complete",
           description: "Photos have been shared successfully.",
@@ -118,21 +147,80 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onRestart }) => {
     }
   };
 
+  const shareReport = async () => {
+    setIsExporting(true);
+    
+    try {
+      const { blob, fileName } = await buildSessionReport(getCurrentSession(), { deviceId, linkedSession });
+      const file = new File([blob], fileName, { type: 'application/pdf' });
+      const shared = await shareFiles([file], `${customerName} - ${poNumber} Report`);
+      
+      // Browsers without file sharing get a download instead
+      if (!shared) {
+        downloadBlob(blob, fileName);
+      }
+      
+      toast({
+        title: "Report Ready",
+        description: shared ? "The PDF report has been shared." : `${fileName} has been saved to your downloads folder.`,
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error generating PDF report', error);
+      toast({
+        title: "Report Failed",
+        description: "There was an error generating the PDF report. Please try again.",
+        variant: "destructive",
+        duration: 5000
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSaveAnnotation = async (annotation: PhotoAnnotation) => {
+    if (!annotatingPhoto) return;
+    try {
+      await updatePhotoAnnotation(annotatingPhoto.palletIndex, annotatingPhoto.sideIndex, annotation);
+    } catch (error) {
+      secureError('Error saving annotation', error);
+      toast({
+        title: "Annotation Not Saved",
+        description: "There was an error saving the annotation. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    }
+  };
+
   // Automatically save to history when gallery loads
   useEffect(() => {
     const autoSave = async () => {
+      // Read before saving, which ends the edit
+      const isEdit = !!editingSession;
       try {
-        const result = saveSessionToLocalStorage();
+        const result = await saveSession();
         
         if (result) {
           toast({
-            title: "Session Saved",
-            description: "This session has been automatically saved to your history for one week.",
+            title: isEdit ? "Changes Saved" : "Session Saved",
+            description: isEdit
+              ? "Your changes have been saved and recorded in the session's edit history."
+              : `This session has been automatically saved to your history for ${settings.retentionDays} days.`,
             duration: 3000
           });
+        } else {
+          toast({
+            title: "Save Failed",
+            description: "This session could not be saved to your history. Download or share the photos before leaving this screen.",
+            variant: "destructive",
+            duration: 6000
+          });
         }
       } catch (error) {
         secureError('Error auto-saving session', error);
+      } finally {
+        setIsSaving(false);
       }
     };
 
@@ -142,6 +230,34 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onRestart }) => {
     }
   }, []); // Run once when component mounts
 
+  const photoGrid = (
+    <SessionPhotoGrid
+      photos={photos}
+      totalPallets={totalPallets}
+      palletDetails={palletDetails}
+      captureTemplate={captureTemplate}
+      renderActions={(photo) => (
+        <>
+          <Button 
+            size="sm"
+            className="bg-white text-red-600 hover:bg-gray-100"
+            onClick={() => setAnnotatingPhoto(photo)}
+            title="Mark damage"
+          >
+            <PenLine className="h-4 w-4" />
+          </Button>
+          <Button 
+            size="sm"
+            className="bg-white text-pallet-primary hover:bg-gray-100"
+            onClick={() => handleDownload(photo)}
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    />
+  );
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex flex-col items-center mb-8">
@@ -152,13 +268,24 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onRestart }) => {
         <p className="text-gray-600 mb-4 text-center">
           All {photos.length} photos of {totalPallets} pallet(s) have been captured for {customerName} (PO: {poNumber}) - {wrapStatus.charAt(0).toUpperCase() + wrapStatus.slice(1)}
         </p>
+        {linkedSession && (
+          <p className="text-sm text-pallet-primary mb-4">
+            Paired with the {linkedSession.wrapStatus} photos taken {format(new Date(linkedSession.timestamp), 'MMM d, h:mm a')}
+          </p>
+        )}
+        {supabase && syncProgress[sessionId] && (
+          <div className="mb-4">
+            <SyncStatusBadge progress={syncProgress[sessionId]} />
+          </div>
+        )}
         <div className="flex flex-wrap gap-4 justify-center">
           <Button 
             onClick={downloadAllPhotos}
             className="bg-pallet-primary hover:bg-pallet-accent"
+            disabled={isExporting}
           >
-            <Download className="mr-2 h-5 w-5" />
-            Download All Photos
+            <FileArchive className="mr-2 h-5 w-5" />
+            {isExporting ? "Preparing ZIP..." : "Download All (ZIP)"}
           </Button>
           <Button 
             onClick={sharePhotos}
@@ -168,49 +295,67 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onRestart }) => {
             <Share2 className="mr-2 h-5 w-5" />
             {isSharing ? "Sharing..." : "Share Photos"}
           </Button>
+          <Button 
+            onClick={shareReport}
+            variant="outline"
+            className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+            disabled={isExporting}
+          >
+            <FileText className="mr-2 h-5 w-5" />
+            PDF Report
+          </Button>
           <Button 
             onClick={onRestart} 
             variant="outline"
             className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+            disabled={isSaving}
           >
             <Home className="mr-2 h-5 w-5" />
             Start New Session
           </Button>
+          {wrapStatus === 'unwrapped' && !linkedSession && (
+            <Button 
+              onClick={() => onStartWrapped(getCurrentSession())} 
+              variant="outline"
+              className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+              disabled={isSaving}
+            >
+              <Package className="mr-2 h-5 w-5" />
+              Photograph After Wrapping
+            </Button>
+          )}
         </div>
-      </div>
-
-      <div className="space-y-8">
-        {Array.from({ length: totalPallets }, (_, i) => i + 1).map((palletIndex) => (
-          <div key={palletIndex} className="bg-white rounded-lg shadow p-6">
-            <h2 className="text-xl font-semibold mb-4">
-              Pallet {palletIndex} Photos
-            </h2>
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
-              {photosByPallet[palletIndex]?.sort((a, b) => a.sideIndex - b.sideIndex).map((photo) => (
-                <Card key={`${photo.palletIndex}-${photo.sideIndex}`} className="overflow-hidden">
-                  <CardContent className="p-0 relative">
-                    <img 
-                      src={photo.photoUri} 
-                      alt={`Pallet ${photo.palletIndex}, Side ${photo.sideIndex}`}
-                      className="w-full aspect-square object-cover"
-                    />
-                    <div className="absolute top-0 left-0 right-0 bg-black/70 text-white p-2 text-sm">
-                      Side {photo.sideIndex}
-                    </div>
-                    <Button 
-                      size="sm"
-                      className="absolute bottom-2 right-2 bg-white text-pallet-primary hover:bg-gray-100"
-                      onClick={() => handleDownload(photo)}
-                    >
-                      <Download className="h-4 w-4" />
-                    </Button>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+        {photos.some(photo => hasAnnotation(photo.annotation)) && (
+          <div className="flex items-center gap-2 mt-4">
+            <Switch id="burnAnnotations" checked={burnAnnotations} onCheckedChange={setBurnAnnotations} />
+            <Label htmlFor="burnAnnotations">Burn damage markup into exported photos</Label>
           </div>
-        ))}
+        )}
       </div>
+
+      {phases ? (
+        <Tabs defaultValue="photos">
+          <TabsList className="mb-6">
+            <TabsTrigger value="photos">{wrapStatus === 'wrapped' ? 'Wrapped Photos' : 'Unwrapped Photos'}</TabsTrigger>
+            <TabsTrigger value="compare">Before / After</TabsTrigger>
+          </TabsList>
+          <TabsContent value="photos">
+            {photoGrid}
+          </TabsContent>
+          <TabsContent value="compare">
+            <WrapComparisonView phases={phases} />
+          </TabsContent>
+        </Tabs>
+      ) : photoGrid}
+
+      <PhotoAnnotationEditor
+        open={!!annotatingPhoto}
+        photoUri={annotatingPhoto?.photoUri || ''}
+        title={annotatingPhoto ? `Pallet ${annotatingPhoto.palletIndex} - ${getSlotLabel(captureTemplate, annotatingPhoto.sideIndex)}` : ''}
+        annotation={annotatingPhoto?.annotation}
+        onSave={handleSaveAnnotation}
+        onClose={() => setAnnotatingPhoto(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PalletSession, usePallet } from '@/contexts/PalletContext';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Carousel, CarouselApi, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { Download, Info, Share2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { secureError } from '@/lib/security';
+import { getSlotLabel } from '@/lib/captureTemplates';
+import { describeAnnotation, hasAnnotation } from '@/lib/annotations';
+import { downloadBlob, exportPhoto, shareFiles, sortPhotos } from '@/lib/sessionExport';
+import { getThumbnailUri } from '@/lib/thumbnails';
+import { describeCaptureMetadata } from '@/lib/captureMetadata';
+import ZoomableImage from './ZoomableImage';
+
+interface PhotoViewerProps {
+  session: PalletSession;
+  // Index into the session's photos in pallet and slot order; null when closed
+  startIndex: number | null;
+  burnAnnotations: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen viewer that swipes through every photo in a session
+ */
+const PhotoViewer: React.FC<PhotoViewerProps> = ({ session, startIndex, burnAnnotations, onClose }) => {
+  const { settings } = usePallet();
+  const { toast } = useToast();
+  const [api, setApi] = useState<CarouselApi>();
+  const [selectedIndex, setSelectedIndex] = useState<number>(startIndex ?? 0);
+  const [isZoomed, setIsZoomed] = useState<boolean>(false);
+  const [isSharing, setIsSharing] = useState<boolean>(false);
+  const [showInfo, setShowInfo] = useState<boolean>(false);
+  // Read by the carousel's drag check so zooming doesn't rebuild the carousel
+  const isZoomedRef = useRef<boolean>(false);
+  const photos = useMemo(() => sortPhotos(session.photos), [session.photos]);
+  const photo = photos[selectedIndex];
+
+  const carouselOptions = useMemo(() => ({
+    startIndex: startIndex ?? 0,
+    // A zoomed photo pans instead of swiping, and two fingers are a pinch
+    watchDrag: (_: unknown, evt: MouseEvent | TouchEvent) =>
+      !isZoomedRef.current && !('touches' in evt && evt.touches.length > 1)
+  }), [startIndex]);
+
+  const handleZoomChange = (zoomed: boolean) => {
+    isZoomedRef.current = zoomed;
+    setIsZoomed(zoomed);
+  };
+
+  useEffect(() => {
+    if (startIndex !== null) setSelectedIndex(startIndex);
+  }, [startIndex]);
+
+  useEffect(() => {
+    if (!api) return;
+    // The photo swiped away resets its zoom
+    const onSelect = () => {
+      setSelectedIndex(api.selectedScrollSnap());
+      handleZoomChange(false);
+    };
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  const handleDownload = async () => {
+    if (!photo) return;
+    try {
+      const { blob, fileName } = await exportPhoto(session, photo, burnAnnotations, settings.watermark);
+      downloadBlob(blob, fileName);
+
+      toast({
+        title: "Photo Saved",
+        description: `${fileName} has been saved to your downloads folder.`,
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error downloading photo from viewer', error);
+      toast({
+        title: "Download Failed",
+        description: "There was an error downloading the photo. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    }
+  };
+
+  const handleShare = async () => {
+    if (!photo) return;
+    setIsSharing(true);
+
+    try {
+      const { blob, fileName } = await exportPhoto(session, photo, burnAnnotations, settings.watermark);
+      const file = new File([blob], fileName, { type: blob.type || 'image/jpeg' });
+      const shared = await shareFiles([file], `${session.customerName} - ${session.poNumber}`);
+
+      // Browsers without file sharing get a download instead
+      if (!shared) {
+        downloadBlob(blob, fileName);
+        toast({
+          title: "Photo Saved",
+          description: `Sharing isn't available here, so ${fileName} was saved to your downloads folder.`,
+          duration: 3000
+        });
+      }
+    } catch (error) {
+      secureError('Error sharing photo from viewer', error);
+      toast({
+        title: "Sharing Failed",
+        description: "There was an error sharing the photo. Please try again or use the download option.",
+        variant: "destructive",
+        duration: 3000
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <Dialog open={startIndex !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex h-[100dvh] max-w-none flex-col gap-0 border-0 bg-black p-0 text-white sm:rounded-none">
+        <div className="flex items-start justify-between gap-4 px-4 py-3 pr-12">
+          <div className="min-w-0">
+            <DialogTitle className="text-base">
+              {photo ? `Pallet ${photo.palletIndex} - ${getSlotLabel(session.captureTemplate, photo.sideIndex)}` : session.customerName}
+            </DialogTitle>
+            <DialogDescription className="truncate text-xs text-gray-300">
+              {photo && hasAnnotation(photo.annotation)
+                ? describeAnnotation(photo.annotation) || photo.annotation.notes
+                : `${session.customerName} · PO ${session.poNumber}`}
+            </DialogDescription>
+          </div>
+          <span className="shrink-0 text-sm text-gray-300">{selectedIndex + 1} / {photos.length}</span>
+        </div>
+
+        <Carousel setApi={setApi} opts={carouselOptions} className="flex-1">
+          <CarouselContent>
+            {photos.map((item, index) => (
+              <CarouselItem key={`${item.palletIndex}-${item.sideIndex}`} className="h-[calc(100dvh-8rem)]">
+                <ZoomableImage
+                  // Only the photo on screen and its neighbours load at full size
+                  src={Math.abs(index - selectedIndex) <= 1 ? item.photoUri : getThumbnailUri(item)}
+                  placeholderSrc={item.thumbnailUri}
+                  alt={`Pallet ${item.palletIndex}, ${getSlotLabel(session.captureTemplate, item.sideIndex)}`}
+                  active={index === selectedIndex}
+                  onZoomChange={index === selectedIndex ? handleZoomChange : () => undefined}
+                />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {!isZoomed && (
+            <>
+              <CarouselPrevious className="left-4 hidden border-0 bg-white/20 text-white hover:bg-white/30 sm:flex" />
+              <CarouselNext className="right-4 hidden border-0 bg-white/20 text-white hover:bg-white/30 sm:flex" />
+            </>
+          )}
+        </Carousel>
+
+        {showInfo && photo && (
+          <div className="max-h-48 overflow-y-auto border-t border-white/10 px-4 py-3 text-xs">
+            {photo.metadata ? (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                {describeCaptureMetadata(photo.metadata).map(row => (
+                  <React.Fragment key={row.label}>
+                    <dt className="text-gray-400">{row.label}</dt>
+                    <dd className="break-words">{row.value}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            ) : (
+              <p className="text-gray-400">No capture details were recorded for this photo.</p>
+            )}
+            {photo.sha256 && (
+              <p className="mt-2 break-all font-mono text-gray-300" title="SHA-256 recorded when the photo was taken">
+                SHA-256 {photo.sha256}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-center gap-4 px-4 py-3">
+          <Button
+            variant="outline"
+            onClick={() => setShowInfo(!showInfo)}
+            className={`border-white/30 bg-transparent text-white hover:bg-white/20 hover:text-white ${showInfo ? 'bg-white/20' : ''}`}
+          >
+            <Info className="mr-2 h-5 w-5" />
+            Info
+          </Button>
+          <Button onClick={handleDownload} className="bg-white text-pallet-primary hover:bg-gray-100">
+            <Download className="mr-2 h-5 w-5" />
+            Download
+          </Button>
+          <Button onClick={handleShare} disabled={isSharing} className="bg-blue-600 hover:bg-blue-700">
+            <Share2 className="mr-2 h-5 w-5" />
+            {isSharing ? "Sharing..." : "Share"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoViewer;
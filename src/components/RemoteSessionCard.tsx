@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { usePallet, PalletPhoto } from '@/contexts/PalletContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Cloud, Images, Loader2, Maximize2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { hasAnnotation } from '@/lib/annotations';
+import { getSlotLabel } from '@/lib/captureTemplates';
+import { getThumbnailUri } from '@/lib/thumbnails';
+import { HistoryEntry, fromRemotePhoto } from '@/lib/teamHistory';
+
+interface RemoteSessionCardProps {
+  entry: HistoryEntry;
+  capturedBy: string;
+}
+
+/**
+ * A session uploaded from another device. Its photos aren't stored here,
+ * so they are fetched from the cloud when opened.
+ */
+const RemoteSessionCard: React.FC<RemoteSessionCardProps> = ({ entry, capturedBy }) => {
+  const { fetchSessionPhotos } = usePallet();
+  const { session } = entry;
+  const [photos, setPhotos] = useState<PalletPhoto[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const handleShowPhotos = async () => {
+    setIsLoading(true);
+    const rows = await fetchSessionPhotos(session.id);
+    setPhotos(rows.map(fromRemotePhoto));
+    setIsLoading(false);
+  };
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-semibold">{session.customerName}</h2>
+            <p className="text-sm text-gray-500">PO: {session.poNumber}</p>
+            <p className="text-sm text-gray-500">Status: {session.wrapStatus.charAt(0).toUpperCase() + session.wrapStatus.slice(1)}</p>
+            <p className="text-xs text-gray-400">{format(new Date(session.timestamp), 'MMM d, yyyy h:mm a')}</p>
+            <p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+              <Cloud className="h-3.5 w-3.5" />
+              {capturedBy}
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              asChild
+              variant="ghost"
+              className="text-pallet-primary hover:bg-pallet-secondary"
+              title="Open session"
+            >
+              <Link to={`/sessions/${session.id}`}>
+                <Maximize2 className="h-5 w-5" />
+              </Link>
+            </Button>
+            {photos === null && (
+              <Button
+                variant="ghost"
+                onClick={handleShowPhotos}
+                disabled={isLoading}
+                className="text-pallet-primary hover:bg-pallet-secondary"
+                title="Show photos"
+              >
+                {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Images className="h-5 w-5" />}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <p className="text-sm mb-3">
+          {session.totalPallets} pallet(s), {entry.photoCount} photos
+        </p>
+
+        {photos && (
+          photos.length === 0 ? (
+            <p className="text-sm text-gray-500">No photos have been uploaded for this session yet.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {photos.map(photo => (
+                <Link
+                  key={`${photo.palletIndex}-${photo.sideIndex}`}
+                  to={`/sessions/${session.id}`}
+                  className="relative aspect-square block"
+                >
+                  <img
+                    src={getThumbnailUri(photo)}
+                    alt={`Pallet ${photo.palletIndex}, ${getSlotLabel(session.captureTemplate, photo.sideIndex)}`}
+                    className="w-full h-full object-cover rounded-md"
+                    loading="lazy"
+                    decoding="async"
+                  />
+                  <div className="absolute top-1 left-1 bg-black/70 text-white px-1.5 py-0.5 text-xs rounded">
+                    P{photo.palletIndex} {getSlotLabel(session.captureTemplate, photo.sideIndex)}
+                  </div>
+                  {hasAnnotation(photo.annotation) && (
+                    <div className="absolute bottom-1 left-1 bg-red-600 text-white px-1.5 py-0.5 text-xs rounded">
+                      Damage
+                    </div>
+                  )}
+                </Link>
+              ))}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RemoteSessionCard;
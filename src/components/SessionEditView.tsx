@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { usePallet } from '@/contexts/PalletContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, Check, Plus, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { sanitizeInput, validateCustomerName, validatePoNumber } from '@/lib/security';
+import { getMissingRequiredSlots } from '@/lib/captureProgress';
+import SessionPhotoGrid from './SessionPhotoGrid';
+
+interface SessionEditViewProps {
+  onRetake: (palletIndex: number, sideIndex: number) => void;
+  onAddPallet: () => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+// Same limit as a new session
+const MAX_PALLETS = 50;
+
+/**
+ * A saved session reopened for retakes, late pallets and corrections to its details
+ */
+const SessionEditView: React.FC<SessionEditViewProps> = ({ onRetake, onAddPallet, onSave, onCancel }) => {
+  const {
+    editingSession,
+    photos,
+    palletDetails,
+    totalPallets,
+    captureTemplate,
+    customerName,
+    setCustomerName,
+    poNumber,
+    setPoNumber,
+    wrapStatus,
+    setWrapStatus
+  } = usePallet();
+  const [errors, setErrors] = useState({ name: '', poNumber: '' });
+  const missingRequired = getMissingRequiredSlots(captureTemplate, totalPallets, photos);
+
+  const handleSave = () => {
+    const nameValidation = validateCustomerName(customerName);
+    const poValidation = validatePoNumber(poNumber);
+    setErrors({
+      name: nameValidation.isValid ? '' : nameValidation.error || 'Invalid customer name',
+      poNumber: poValidation.isValid ? '' : poValidation.error || 'Invalid PO number'
+    });
+    if (!nameValidation.isValid || !poValidation.isValid) return;
+
+    setCustomerName(sanitizeInput(customerName));
+    setPoNumber(sanitizeInput(poNumber));
+    onSave();
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-col items-center mb-6">
+        <h1 className="text-2xl font-bold mb-1">Edit Session</h1>
+        {editingSession && (
+          <p className="text-sm text-gray-500">
+            Captured {format(new Date(editingSession.timestamp), 'MMM d, yyyy h:mm a')}
+          </p>
+        )}
+      </div>
+
+      <div className="max-w-xl mx-auto mb-8 p-6 bg-white rounded-lg shadow border border-pallet-secondary space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="editCustomerName">Customer Name</Label>
+          <Input
+            id="editCustomerName"
+            value={customerName}
+            onChange={(e) => setCustomerName(e.target.value)}
+            className={errors.name ? 'border-red-500' : ''}
+          />
+          {errors.name && <p className="text-sm text-red-500">{errors.name}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="editPoNumber">PO Number</Label>
+          <Input
+            id="editPoNumber"
+            value={poNumber}
+            onChange={(e) => setPoNumber(e.target.value)}
+            className={errors.poNumber ? 'border-red-500' : ''}
+          />
+          {errors.poNumber && <p className="text-sm text-red-500">{errors.poNumber}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="editWrapStatus">Wrap Status</Label>
+          <Select value={wrapStatus} onValueChange={(value) => setWrapStatus(value as 'unwrapped' | 'wrapped')}>
+            <SelectTrigger id="editWrapStatus">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unwrapped">Unwrapped</SelectItem>
+              <SelectItem value="wrapped">Wrapped</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <SessionPhotoGrid
+        photos={photos}
+        totalPallets={totalPallets}
+        palletDetails={palletDetails}
+        captureTemplate={captureTemplate}
+        renderActions={(photo) => (
+          <Button
+            size="sm"
+            className="bg-white text-pallet-primary hover:bg-gray-100"
+            onClick={() => onRetake(photo.palletIndex, photo.sideIndex)}
+            title="Retake"
+          >
+            <Camera className="h-4 w-4" />
+          </Button>
+        )}
+        renderMissingSlot={(palletIndex, sideIndex) => (
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+            onClick={() => onRetake(palletIndex, sideIndex)}
+          >
+            <Camera className="mr-2 h-4 w-4" />
+            Take photo
+          </Button>
+        )}
+      />
+
+      <div className="flex flex-wrap gap-4 justify-center mt-8">
+        <Button
+          variant="outline"
+          onClick={onAddPallet}
+          disabled={totalPallets >= MAX_PALLETS}
+          className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+        >
+          <Plus className="mr-2 h-5 w-5" />
+          Add Pallet
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={missingRequired.length > 0}
+          className="bg-pallet-primary hover:bg-pallet-accent"
+        >
+          <Check className="mr-2 h-5 w-5" />
+          Save Changes
+        </Button>
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          className="text-red-500 border-red-200 hover:text-red-700 hover:bg-red-50"
+        >
+          <X className="mr-2 h-5 w-5" />
+          Discard Changes
+        </Button>
+      </div>
+      {missingRequired.length > 0 && (
+        <p className="text-sm text-red-500 text-center mt-2">
+          {missingRequired.length} required photo(s) still missing
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SessionEditView;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { usePallet, PalletSession } from '@/contexts/PalletContext';
+import { Clock, CloudOff, Pin } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { getExpiresAt, getExpiryState } from '@/lib/retention';
+
+interface SessionExpiryLabelProps {
+  session: PalletSession;
+}
+
+/**
+ * How long a saved session stays on this device under the current retention settings
+ */
+const SessionExpiryLabel: React.FC<SessionExpiryLabelProps> = ({ session }) => {
+  const { settings } = usePallet();
+  const expiresAt = getExpiresAt(session, settings);
+
+  switch (getExpiryState(session, settings)) {
+    case 'pinned':
+      return (
+        <p className="flex items-center gap-1 text-xs text-pallet-primary">
+          <Pin className="h-3.5 w-3.5" />
+          Pinned, kept until you delete it
+        </p>
+      );
+    case 'awaiting-sync':
+      return (
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <CloudOff className="h-3.5 w-3.5" />
+          Kept until uploaded
+        </p>
+      );
+    case 'expiring':
+      return (
+        <p className="flex items-center gap-1 text-xs font-medium text-amber-700">
+          <Clock className="h-3.5 w-3.5" />
+          Deleted from this device in {formatDistanceToNow(expiresAt)}
+        </p>
+      );
+    default:
+      return (
+        <p className="flex items-center gap-1 text-xs text-gray-400">
+          <Clock className="h-3.5 w-3.5" />
+          Kept until {format(expiresAt, 'MMM d, yyyy')}
+        </p>
+      );
+  }
+};
+
+export default SessionExpiryLabel;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { PalletPhoto } from '@/contexts/PalletContext';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertTriangle } from 'lucide-react';
+import { CaptureTemplate, getSlotLabel } from '@/lib/captureTemplates';
+import { describeAnnotation, hasAnnotation } from '@/lib/annotations';
+import { getThumbnailUri } from '@/lib/thumbnails';
+import { PalletDetails, describePalletDetails, getPalletDetails } from '@/lib/palletDetails';
+import PalletVerdictBadge from './PalletVerdictBadge';
+
+interface SessionPhotoGridProps {
+  photos: PalletPhoto[];
+  totalPallets: number;
+  palletDetails: PalletDetails[];
+  captureTemplate: CaptureTemplate;
+  // Buttons shown in the corner of each photo
+  renderActions: (photo: PalletPhoto) => React.ReactNode;
+  onPhotoClick?: (photo: PalletPhoto) => void;
+  // When given, template slots without a photo are shown with this content
+  renderMissingSlot?: (palletIndex: number, sideIndex: number) => React.ReactNode;
+}
+
+/**
+ * A session's photos, one card per pallet with its details and verdict
+ */
+const SessionPhotoGrid: React.FC<SessionPhotoGridProps> = ({
+  photos,
+  totalPallets,
+  palletDetails,
+  captureTemplate,
+  renderActions,
+  onPhotoClick,
+  renderMissingSlot
+}) => {
+  // Slots of a pallet that have no photo, in template order
+  const getMissingSlots = (palletIndex: number): number[] =>
+    captureTemplate.slots
+      .map((_, index) => index + 1)
+      .filter(sideIndex => !photos.some(photo => photo.palletIndex === palletIndex && photo.sideIndex === sideIndex));
+
+  return (
+    <div className="space-y-8">
+      {Array.from({ length: totalPallets }, (_, i) => i + 1).map((palletIndex) => (
+        <div key={palletIndex} className="bg-white rounded-lg shadow p-6">
+          <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+            <div>
+              <h2 className="text-xl font-semibold">
+                Pallet {palletIndex} Photos
+              </h2>
+              {describePalletDetails(getPalletDetails(palletDetails, palletIndex)) && (
+                <p className="text-sm text-gray-500">{describePalletDetails(getPalletDetails(palletDetails, palletIndex))}</p>
+              )}
+            </div>
+            <PalletVerdictBadge verdict={getPalletDetails(palletDetails, palletIndex)?.verdict} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+            {photos.filter(photo => photo.palletIndex === palletIndex).sort((a, b) => a.sideIndex - b.sideIndex).map((photo) => (
+              <Card key={`${photo.palletIndex}-${photo.sideIndex}`} className="overflow-hidden">
+                <CardContent className="p-0 relative">
+                  <img
+                    src={getThumbnailUri(photo)}
+                    alt={`Pallet ${photo.palletIndex}, ${getSlotLabel(captureTemplate, photo.sideIndex)}`}
+                    className={`w-full aspect-square object-cover ${onPhotoClick ? 'cursor-zoom-in' : ''}`}
+                    onClick={onPhotoClick ? () => onPhotoClick(photo) : undefined}
+                    loading="lazy"
+                    decoding="async"
+                  />
+                  <div className="absolute top-0 left-0 right-0 bg-black/70 text-white p-2 text-sm pointer-events-none">
+                    {getSlotLabel(captureTemplate, photo.sideIndex)}
+                  </div>
+                  {hasAnnotation(photo.annotation) && (
+                    <div className="absolute bottom-2 left-2 flex items-center gap-1 bg-red-600/90 text-white px-2 py-1 text-xs rounded max-w-[60%]" title={photo.annotation.notes}>
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      <span className="truncate">{describeAnnotation(photo.annotation) || 'Note'}</span>
+                    </div>
+                  )}
+                  <div className="absolute bottom-2 right-2 flex gap-1">
+                    {renderActions(photo)}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            {renderMissingSlot && getMissingSlots(palletIndex).map(sideIndex => (
+              <Card key={`${palletIndex}-${sideIndex}`} className="overflow-hidden border-dashed">
+                <CardContent className="p-0 relative aspect-square flex flex-col items-center justify-center gap-2 bg-gray-50">
+                  <span className="text-sm text-gray-500">{getSlotLabel(captureTemplate, sideIndex)}</span>
+                  {renderMissingSlot(palletIndex, sideIndex)}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SessionPhotoGrid;
@@ -0,0 +1,377 @@
+import React, { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Settings } from 'lucide-react';
+import { usePallet } from '@/contexts/PalletContext';
+import { useToast } from '@/hooks/use-toast';
+import { useAppLock } from '@/hooks/use-app-lock';
+import { AppSettings, RETENTION_DAY_OPTIONS } from '@/lib/appSettings';
+import { IMAGE_FORMATS, IMAGE_MAX_EDGE_OPTIONS, IMAGE_QUALITY_OPTIONS, ImageOutputSettings } from '@/lib/imageOutput';
+import { WATERMARK_OPACITY_OPTIONS, WATERMARK_POSITIONS, WATERMARK_SIZES, WatermarkSettings } from '@/lib/watermark';
+import { AppLockSettings, IDLE_LOCK_OPTIONS } from '@/lib/appLock';
+import { isExpired } from '@/lib/retention';
+import { secureError } from '@/lib/security';
+import AppPinDialog, { AppPinDialogMode } from './AppPinDialog';
+
+const SettingsView: React.FC = () => {
+  const { settings, updateSettings, localSessions, authStatus } = usePallet();
+  const { toast } = useToast();
+  // Changes that would delete saved sessions straight away wait for confirmation
+  const [pendingChanges, setPendingChanges] = useState<Partial<AppSettings> | null>(null);
+  const [pinDialogMode, setPinDialogMode] = useState<AppPinDialogMode | null>(null);
+  const { enabled: lockEnabled } = useAppLock();
+  const pinnedCount = localSessions.filter(session => session.pinned).length;
+
+  const countExpired = (changes: Partial<AppSettings>) =>
+    localSessions.filter(session => isExpired(session, { ...settings, ...changes })).length;
+
+  const applyChanges = async (changes: Partial<AppSettings>) => {
+    try {
+      await updateSettings(changes);
+    } catch (error) {
+      secureError('Error saving settings', error);
+      toast({
+        title: "Settings Not Saved",
+        description: "There was an error saving your settings. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    }
+  };
+
+  const handleChange = (changes: Partial<AppSettings>) => {
+    if (countExpired(changes) > 0) {
+      setPendingChanges(changes);
+    } else {
+      applyChanges(changes);
+    }
+  };
+
+  const handleImageOutputChange = (changes: Partial<ImageOutputSettings>) => {
+    applyChanges({ imageOutput: { ...settings.imageOutput, ...changes } });
+  };
+
+  const handleWatermarkChange = (changes: Partial<WatermarkSettings>) => {
+    applyChanges({ watermark: { ...settings.watermark, ...changes } });
+  };
+
+  const handleAppLockChange = (changes: Partial<AppLockSettings>) => {
+    applyChanges({ appLock: { ...settings.appLock, ...changes } });
+  };
+
+  const handleConfirm = () => {
+    if (pendingChanges) {
+      applyChanges(pendingChanges);
+    }
+    setPendingChanges(null);
+  };
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white rounded-lg shadow-lg border border-pallet-secondary space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="bg-pallet-secondary p-2 rounded-full">
+          <Settings className="h-6 w-6 text-pallet-primary" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-800">Settings</h1>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold">Saved sessions</h2>
+
+        <div className="space-y-2">
+          <Label htmlFor="retentionDays">Keep sessions on this device for</Label>
+          <Select
+            value={settings.retentionDays.toString()}
+            onValueChange={(value) => handleChange({ retentionDays: parseInt(value) })}
+          >
+            <SelectTrigger id="retentionDays">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETENTION_DAY_OPTIONS.map(days => (
+                <SelectItem key={days} value={days.toString()}>{days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {pinnedCount > 0
+              ? `${pinnedCount} pinned session(s) are kept until you delete them.`
+              : 'Pin a session in history to keep it until you delete it.'}
+          </p>
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="expireOnlyWhenSynced">Only delete after upload</Label>
+            <p className="text-xs text-muted-foreground">
+              {authStatus === 'disabled'
+                ? 'Cloud sync is not set up on this device, so sessions would be kept until you delete them.'
+                : 'Sessions past their retention period are kept until every photo is confirmed uploaded.'}
+            </p>
+          </div>
+          <Switch
+            id="expireOnlyWhenSynced"
+            checked={settings.expireOnlyWhenSynced}
+            onCheckedChange={(checked) => handleChange({ expireOnlyWhenSynced: checked })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold">Photos</h2>
+        <p className="text-xs text-muted-foreground">
+          Applies to new photos. Smaller files save storage and upload faster.
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="imageFormat">Format</Label>
+          <Select
+            value={settings.imageOutput.format}
+            onValueChange={(value) => handleImageOutputChange({ format: value as ImageOutputSettings['format'] })}
+          >
+            <SelectTrigger id="imageFormat">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IMAGE_FORMATS.map(format => (
+                <SelectItem key={format.id} value={format.id}>{format.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {settings.imageOutput.format === 'webp' && (
+            <p className="text-xs text-muted-foreground">Browsers that can't save WebP use JPEG instead.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="imageQuality">Quality</Label>
+          <Select
+            value={settings.imageOutput.quality.toString()}
+            onValueChange={(value) => handleImageOutputChange({ quality: parseFloat(value) })}
+            disabled={settings.imageOutput.format === 'png'}
+          >
+            <SelectTrigger id="imageQuality">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IMAGE_QUALITY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value.toString()}>
+                  {option.label} ({Math.round(option.value * 100)}%)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {settings.imageOutput.format === 'png' && (
+            <p className="text-xs text-muted-foreground">PNG is lossless, so quality doesn't apply.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="imageMaxEdge">Maximum size</Label>
+          <Select
+            value={settings.imageOutput.maxEdge.toString()}
+            onValueChange={(value) => handleImageOutputChange({ maxEdge: parseInt(value) })}
+          >
+            <SelectTrigger id="imageMaxEdge">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IMAGE_MAX_EDGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value.toString()}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Longest side of the photo.</p>
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="recordLocation">Record location</Label>
+            <p className="text-xs text-muted-foreground">
+              Save where each photo was taken, with its accuracy, as evidence for carrier claims.
+              Your browser will ask for permission.
+            </p>
+          </div>
+          <Switch
+            id="recordLocation"
+            checked={settings.recordLocation}
+            onCheckedChange={(checked) => handleChange({ recordLocation: checked })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <h2 className="text-lg font-semibold">Watermark</h2>
+            <p className="text-xs text-muted-foreground">
+              Stamp customer, PO, pallet, slot, wrap status and capture time on photos you share or download.
+              Saved photos and ZIP exports stay unmarked so they can still be verified.
+            </p>
+          </div>
+          <Switch
+            id="watermarkEnabled"
+            aria-label="Watermark exported photos"
+            checked={settings.watermark.enabled}
+            onCheckedChange={(checked) => handleWatermarkChange({ enabled: checked })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="watermarkPosition">Position</Label>
+          <Select
+            value={settings.watermark.position}
+            onValueChange={(value) => handleWatermarkChange({ position: value as WatermarkSettings['position'] })}
+            disabled={!settings.watermark.enabled}
+          >
+            <SelectTrigger id="watermarkPosition">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WATERMARK_POSITIONS.map(position => (
+                <SelectItem key={position.id} value={position.id}>{position.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="watermarkSize">Text size</Label>
+          <Select
+            value={settings.watermark.size}
+            onValueChange={(value) => handleWatermarkChange({ size: value as WatermarkSettings['size'] })}
+            disabled={!settings.watermark.enabled}
+          >
+            <SelectTrigger id="watermarkSize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WATERMARK_SIZES.map(size => (
+                <SelectItem key={size.id} value={size.id}>{size.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="watermarkOpacity">Background</Label>
+          <Select
+            value={settings.watermark.opacity.toString()}
+            onValueChange={(value) => handleWatermarkChange({ opacity: parseFloat(value) })}
+            disabled={!settings.watermark.enabled}
+          >
+            <SelectTrigger id="watermarkOpacity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WATERMARK_OPACITY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value.toString()}>
+                  {option.label} ({Math.round(option.value * 100)}%)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold">App lock</h2>
+          <p className="text-xs text-muted-foreground">
+            {lockEnabled
+              ? "The app asks for this PIN when it locks. A forgotten PIN can only be cleared by clearing this site's data in the browser, which deletes every session saved on this device."
+              : 'Ask for a PIN before anyone can see saved sessions on this device.'}
+          </p>
+        </div>
+
+        {lockEnabled ? (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setPinDialogMode('change')} className="flex-1">
+              Change PIN
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setPinDialogMode('remove')}
+              className="flex-1 text-red-500 border-red-200 hover:text-red-700 hover:bg-red-50"
+            >
+              Remove PIN
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={() => setPinDialogMode('set')} className="w-full bg-pallet-primary hover:bg-pallet-accent">
+            Set PIN
+          </Button>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="idleMinutes">Lock after inactivity</Label>
+          <Select
+            value={settings.appLock.idleMinutes.toString()}
+            onValueChange={(value) => handleAppLockChange({ idleMinutes: parseInt(value) })}
+            disabled={!lockEnabled}
+          >
+            <SelectTrigger id="idleMinutes">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IDLE_LOCK_OPTIONS.map(minutes => (
+                <SelectItem key={minutes} value={minutes.toString()}>
+                  {minutes} minute{minutes === 1 ? '' : 's'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="lockWhenHidden">Lock when leaving the app</Label>
+            <p className="text-xs text-muted-foreground">
+              Lock as soon as you switch apps or the screen turns off.
+            </p>
+          </div>
+          <Switch
+            id="lockWhenHidden"
+            checked={settings.appLock.lockWhenHidden}
+            onCheckedChange={(checked) => handleAppLockChange({ lockWhenHidden: checked })}
+            disabled={!lockEnabled}
+          />
+        </div>
+      </div>
+
+      <AppPinDialog mode={pinDialogMode} onClose={() => setPinDialogMode(null)} />
+
+      <AlertDialog open={!!pendingChanges} onOpenChange={(open) => !open && setPendingChanges(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete older sessions now?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingChanges && countExpired(pendingChanges)} saved session(s) are past the new retention period
+              and will be deleted from this device straight away. Pin any you want to keep first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} className="bg-red-600 hover:bg-red-700">
+              Delete and save
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SettingsView;
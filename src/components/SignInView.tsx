@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { usePallet } from '@/contexts/PalletContext';
+import { KeyRound, Loader2, Mail, MailCheck } from 'lucide-react';
+import { getUserFriendlyError, secureError, validateEmail, validatePin } from '@/lib/security';
+
+type SignInMethod = 'link' | 'pin';
+
+// Supabase auth error codes worth explaining to a driver
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  invalid_credentials: 'Email or PIN is incorrect.',
+  otp_disabled: 'No driver account exists for this email. Ask your administrator for an invite.',
+  signup_disabled: 'No driver account exists for this email. Ask your administrator for an invite.',
+  over_email_send_rate_limit: 'Too many sign-in emails. Please wait a minute and try again.',
+  over_request_rate_limit: 'Too many attempts. Please wait a minute and try again.'
+};
+
+const describeAuthError = (error: unknown): string => {
+  const code = (error as { code?: string })?.code;
+  return (code && AUTH_ERROR_MESSAGES[code]) || getUserFriendlyError(error);
+};
+
+const SignInView: React.FC = () => {
+  const { signInWithEmailLink, signInWithPin } = usePallet();
+  const [method, setMethod] = useState<SignInMethod>('link');
+  const [email, setEmail] = useState<string>('');
+  const [pin, setPin] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.isValid) {
+      setError(emailValidation.error || 'Invalid email');
+      return;
+    }
+    if (method === 'pin') {
+      const pinValidation = validatePin(pin);
+      if (!pinValidation.isValid) {
+        setError(pinValidation.error || 'Invalid PIN');
+        return;
+      }
+    }
+
+    setError('');
+    setIsSubmitting(true);
+    try {
+      if (method === 'link') {
+        await signInWithEmailLink(email);
+        setLinkSentTo(email.trim());
+      } else {
+        // On success the auth listener swaps this screen for the app
+        await signInWithPin(email, pin);
+      }
+    } catch (error) {
+      secureError('Error signing in', error);
+      setError(describeAuthError(error));
+      setPin('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMethod = (next: SignInMethod) => {
+    setMethod(next);
+    setError('');
+    setPin('');
+  };
+
+  if (linkSentTo) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[80vh] p-4">
+        <div className="w-full max-w-md p-8 bg-white rounded-lg shadow-lg border border-pallet-secondary text-center">
+          <MailCheck className="h-12 w-12 mx-auto mb-4 text-pallet-primary" />
+          <h1 className="text-2xl font-bold mb-2 text-gray-800">Check your email</h1>
+          <p className="text-gray-600 mb-6">
+            We sent a sign-in link to <span className="font-medium">{linkSentTo}</span>. Open it on this device to continue.
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => setLinkSentTo(null)}
+            className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+          >
+            Use a different email
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[80vh] p-4">
+      <div className="w-full max-w-md p-8 bg-white rounded-lg shadow-lg border border-pallet-secondary">
+        <h1 className="text-2xl font-bold text-center mb-2 text-gray-800">
+          Driver Sign In
+        </h1>
+        <p className="text-center text-gray-500 mb-6">
+          Sign in so your sessions sync to your account.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          <Button
+            type="button"
+            variant={method === 'link' ? 'default' : 'outline'}
+            onClick={() => switchMethod('link')}
+            className={method === 'link' ? 'bg-pallet-primary hover:bg-pallet-accent' : ''}
+          >
+            <Mail className="mr-2 h-4 w-4" />
+            Email link
+          </Button>
+          <Button
+            type="button"
+            variant={method === 'pin' ? 'default' : 'outline'}
+            onClick={() => switchMethod('pin')}
+            className={method === 'pin' ? 'bg-pallet-primary hover:bg-pallet-accent' : ''}
+          >
+            <KeyRound className="mr-2 h-4 w-4" />
+            PIN
+          </Button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="signInEmail" className="text-md">Email</Label>
+            <Input
+              id="signInEmail"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="driver@example.com"
+              className="text-lg py-5"
+              autoFocus
+            />
+          </div>
+
+          {method === 'pin' && (
+            <div className="space-y-2">
+              <Label htmlFor="signInPin" className="text-md">PIN</Label>
+              <Input
+                id="signInPin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="current-password"
+                value={pin}
+                onChange={(e) => /^\d*$/.test(e.target.value) && setPin(e.target.value)}
+                placeholder="••••••"
+                className="text-lg py-5 tracking-widest"
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full py-6 text-lg bg-pallet-primary hover:bg-pallet-accent"
+            size="lg"
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+            {method === 'link' ? 'Email Me a Sign-In Link' : 'Sign In'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SignInView;
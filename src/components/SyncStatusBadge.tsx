@@ -0,0 +1,66 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, UploadCloud } from 'lucide-react';
+import type { SyncProgress, SyncStatus } from '@/lib/uploadQueue';
+
+interface SyncStatusBadgeProps {
+  status?: SyncStatus;
+  progress?: SyncProgress;
+  // Stored reason for a failed upload, shown when there is no live progress
+  error?: string;
+}
+
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, progress, error }) => {
+  // Live queue progress wins over the status stored on the session
+  const currentStatus = progress?.status || status;
+
+  if (!currentStatus) {
+    return (
+      <Badge variant="outline" className="text-gray-500">
+        <CloudOff className="mr-1 h-3 w-3" />
+        Local only
+      </Badge>
+    );
+  }
+
+  if (currentStatus === 'synced') {
+    return (
+      <Badge variant="outline" className="text-green-700 border-green-200 bg-green-50">
+        <CheckCircle2 className="mr-1 h-3 w-3" />
+        Synced
+      </Badge>
+    );
+  }
+
+  const total = progress?.total || 0;
+  const completed = progress?.completed || 0;
+
+  return (
+    <div className="space-y-1 min-w-[140px]">
+      {currentStatus === 'error' ? (
+        <Badge variant="outline" className="text-red-700 border-red-200 bg-red-50" title={progress?.lastError || error}>
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          Upload failed {total > 0 && `(${completed}/${total})`}
+        </Badge>
+      ) : currentStatus === 'pending' && progress?.lastError ? (
+        <Badge variant="outline" className="text-amber-700 border-amber-200 bg-amber-50" title={progress.lastError}>
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          Upload retrying {total > 0 && `(${completed}/${total})`}
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="text-blue-700 border-blue-200 bg-blue-50">
+          {currentStatus === 'syncing' ? (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          ) : (
+            <UploadCloud className="mr-1 h-3 w-3" />
+          )}
+          {currentStatus === 'syncing' ? 'Uploading' : 'Waiting to upload'} {total > 0 && `(${completed}/${total})`}
+        </Badge>
+      )}
+      {total > 0 && <Progress value={(completed / total) * 100} className="h-1.5" />}
+    </div>
+  );
+};
+
+export default SyncStatusBadge;
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { usePallet } from '@/contexts/PalletContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle2, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { secureError } from '@/lib/security';
+import { getSlotLabel } from '@/lib/captureTemplates';
+import { findPhotosByHash, hashBlob, hashPhotoUri, isSha256, normalizeHash } from '@/lib/photoIntegrity';
+import { findRemotePhotosByHash } from '@/lib/teamHistory';
+
+// A photo on record with the same hash, local or uploaded
+interface MatchEntry {
+  key: string;
+  sessionId: string;
+  title: string;
+  detail: string;
+  source: 'This device' | 'Cloud';
+}
+
+interface VerifyResult {
+  hash: string;
+  // Set when a hash to compare against was entered
+  expectedMatches?: boolean;
+  matches: MatchEntry[];
+  // False when cloud records couldn't be searched, so "no match" only covers this device
+  searchedCloud: boolean;
+}
+
+/**
+ * Re-hash a downloaded or uploaded photo and check it against the hashes recorded at capture
+ */
+const VerifyView: React.FC = () => {
+  const { localSessions, supabase } = usePallet();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [url, setUrl] = useState<string>('');
+  const [expectedHash, setExpectedHash] = useState<string>('');
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const expectedInvalid = expectedHash.trim() !== '' && !isSha256(expectedHash);
+
+  const findMatches = async (hash: string): Promise<{ matches: MatchEntry[]; searchedCloud: boolean }> => {
+    const matches: MatchEntry[] = findPhotosByHash(localSessions, hash).map(({ session, photo }) => ({
+      key: `local-${session.id}-${photo.palletIndex}-${photo.sideIndex}`,
+      sessionId: session.id,
+      title: `${session.customerName} · PO ${session.poNumber}`,
+      detail: `Pallet ${photo.palletIndex} - ${getSlotLabel(session.captureTemplate, photo.sideIndex)}`,
+      source: 'This device'
+    }));
+    if (!supabase) return { matches, searchedCloud: false };
+
+    try {
+      const localKeys = new Set(matches.map(match => match.sessionId));
+      const remote = await findRemotePhotosByHash(supabase, hash);
+      remote
+        .filter(match => !localKeys.has(match.sessionId))
+        .forEach(match => matches.push({
+          key: `remote-${match.sessionId}-${match.photo.palletIndex}-${match.photo.sideIndex}`,
+          sessionId: match.sessionId,
+          title: `${match.customerName} · PO ${match.poNumber}`,
+          detail: `Pallet ${match.photo.palletIndex} - ${getSlotLabel(match.captureTemplate, match.photo.sideIndex)}`,
+          source: 'Cloud'
+        }));
+      return { matches, searchedCloud: true };
+    } catch (error) {
+      secureError('Error searching uploaded photo hashes', error);
+      return { matches, searchedCloud: false };
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    setResult(null);
+    try {
+      const hash = file ? await hashBlob(file) : await hashPhotoUri(url.trim());
+      const { matches, searchedCloud } = await findMatches(hash);
+      setResult({
+        hash,
+        expectedMatches: expectedHash.trim() ? normalizeHash(expectedHash) === hash : undefined,
+        matches,
+        searchedCloud
+      });
+    } catch (error) {
+      secureError('Error verifying photo', error);
+      toast({
+        title: "Verification Failed",
+        description: file
+          ? "The file couldn't be read. Please try again."
+          : "The image couldn't be downloaded. Check the link and your connection.",
+        variant: "destructive",
+        duration: 4000
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const verified = result && (result.expectedMatches ?? result.matches.length > 0);
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white rounded-lg shadow-lg border border-pallet-secondary space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="bg-pallet-secondary p-2 rounded-full">
+          <ShieldCheck className="h-6 w-6 text-pallet-primary" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-800">Verify Photo</h1>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Check that a photo is byte-for-byte the one taken on the dock. Use an original, not a copy with damage markup.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="verifyFile">Photo file</Label>
+        <Input
+          id="verifyFile"
+          type="file"
+          accept="image/*"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null);
+            setResult(null);
+          }}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="verifyUrl">Or photo link</Label>
+        <Input
+          id="verifyUrl"
+          type="url"
+          placeholder="https://..."
+          value={url}
+          disabled={!!file}
+          onChange={(e) => {
+            setUrl(e.target.value);
+            setResult(null);
+          }}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="expectedHash">Expected SHA-256 (optional)</Label>
+        <Input
+          id="expectedHash"
+          placeholder="From manifest.json or checksums.sha256"
+          value={expectedHash}
+          onChange={(e) => {
+            setExpectedHash(e.target.value);
+            setResult(null);
+          }}
+          className="font-mono text-xs"
+        />
+        {expectedInvalid && (
+          <p className="text-xs text-red-500">A SHA-256 hash is 64 hexadecimal characters.</p>
+        )}
+      </div>
+
+      <Button
+        onClick={handleVerify}
+        disabled={isVerifying || expectedInvalid || (!file && !url.trim())}
+        className="w-full bg-pallet-primary hover:bg-pallet-accent"
+      >
+        {isVerifying ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <ShieldCheck className="mr-2 h-5 w-5" />}
+        Verify
+      </Button>
+
+      {result && (
+        <div className={`rounded-md border p-4 space-y-3 ${verified ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+          <div className="flex items-center gap-2">
+            {verified
+              ? <CheckCircle2 className="h-6 w-6 text-green-600" />
+              : <XCircle className="h-6 w-6 text-red-600" />}
+            <p className={`font-semibold ${verified ? 'text-green-700' : 'text-red-700'}`}>
+              {verified ? 'Match' : 'Mismatch'}
+            </p>
+          </div>
+          <p className="text-sm">
+            {result.expectedMatches !== undefined
+              ? result.expectedMatches
+                ? 'The photo hashes to the expected value.'
+                : 'The photo does not hash to the expected value. It has been altered or is a different photo.'
+              : result.matches.length > 0
+                ? 'The photo is unaltered since it was taken.'
+                : `No photo on record has this hash${result.searchedCloud ? '' : ' on this device'}. It has been altered, re-saved, or was not taken with this app.`}
+          </p>
+          <div>
+            <p className="text-xs text-gray-500">SHA-256</p>
+            <p className="font-mono text-xs break-all">{result.hash}</p>
+          </div>
+          {result.matches.length > 0 && (
+            <ul className="space-y-2">
+              {result.matches.map(match => (
+                <li key={match.key} className="text-sm">
+                  <Link to={`/sessions/${match.sessionId}`} className="font-medium text-pallet-primary hover:underline">
+                    {match.title}
+                  </Link>
+                  <p className="text-xs text-gray-500">{match.detail} · {match.source}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {!result.searchedCloud && (
+            <p className="text-xs text-gray-500">
+              {supabase
+                ? "Uploaded photos couldn't be searched right now."
+                : 'Sign in to also check photos uploaded from other devices.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerifyView;
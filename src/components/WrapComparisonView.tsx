@@ -0,0 +1,83 @@
+import React from 'react';
+import { PalletPhoto } from '@/contexts/PalletContext';
+import { AlertTriangle, ImageOff } from 'lucide-react';
+import { format } from 'date-fns';
+import { getSlotLabel } from '@/lib/captureTemplates';
+import { describeAnnotation, hasAnnotation } from '@/lib/annotations';
+import { describePalletDetails, getPalletDetails } from '@/lib/palletDetails';
+import { getThumbnailUri } from '@/lib/thumbnails';
+import { WrapPhases, getPairedPalletCount, getPalletPhotoPairs } from '@/lib/wrapPhases';
+import PalletVerdictBadge from './PalletVerdictBadge';
+
+interface WrapComparisonViewProps {
+  phases: WrapPhases;
+}
+
+const ComparisonPhoto: React.FC<{ photo?: PalletPhoto; label: string; fallbackTime: number }> = ({ photo, label, fallbackTime }) => (
+  <div className="flex-1 min-w-0">
+    <div className="relative aspect-[4/3] rounded-md overflow-hidden bg-gray-100">
+      {photo ? (
+        <img src={getThumbnailUri(photo)} alt={label} className="absolute inset-0 w-full h-full object-cover" />
+      ) : (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 text-gray-400">
+          <ImageOff className="h-6 w-6" />
+          <span className="text-xs">Not photographed</span>
+        </div>
+      )}
+      {photo && hasAnnotation(photo.annotation) && (
+        <div className="absolute top-2 left-2 flex items-center gap-1 bg-red-600/90 text-white text-xs rounded px-2 py-0.5 max-w-[90%]">
+          <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+          <span className="truncate">{describeAnnotation(photo.annotation) || 'Damage marked'}</span>
+        </div>
+      )}
+    </div>
+    <p className="text-sm font-medium mt-1">{label}</p>
+    {photo && (
+      <p className="text-xs text-gray-500">{format(new Date(photo.capturedAt || fallbackTime), 'MMM d, h:mm a')}</p>
+    )}
+  </div>
+);
+
+/**
+ * Each pallet's unwrapped and wrapped photos side by side, slot by slot
+ */
+const WrapComparisonView: React.FC<WrapComparisonViewProps> = ({ phases }) => {
+  const { unwrapped, wrapped } = phases;
+
+  return (
+    <div className="space-y-8">
+      {Array.from({ length: getPairedPalletCount(phases) }, (_, i) => i + 1).map((palletIndex) => {
+        const details = getPalletDetails(wrapped.palletDetails, palletIndex) || getPalletDetails(unwrapped.palletDetails, palletIndex);
+        return (
+          <div key={palletIndex} className="bg-white rounded-lg shadow p-6">
+            <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+              <div>
+                <h2 className="text-xl font-semibold">Pallet {palletIndex}</h2>
+                {describePalletDetails(details) && (
+                  <p className="text-sm text-gray-500">{describePalletDetails(details)}</p>
+                )}
+              </div>
+              <PalletVerdictBadge verdict={details?.verdict} />
+            </div>
+            <div className="space-y-6">
+              {getPalletPhotoPairs(phases, palletIndex).map(pair => {
+                const slot = getSlotLabel(wrapped.captureTemplate, pair.sideIndex);
+                return (
+                  <div key={pair.sideIndex}>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-2">{slot}</h3>
+                    <div className="flex gap-3">
+                      <ComparisonPhoto photo={pair.unwrapped} label="Unwrapped" fallbackTime={unwrapped.timestamp} />
+                      <ComparisonPhoto photo={pair.wrapped} label="Wrapped" fallbackTime={wrapped.timestamp} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WrapComparisonView;
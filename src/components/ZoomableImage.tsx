@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface ZoomableImageProps {
+  src: string;
+  // Shown while the full image loads, such as its thumbnail
+  placeholderSrc?: string;
+  alt: string;
+  // Zoom resets when the image is swiped away
+  active: boolean;
+  onZoomChange: (zoomed: boolean) => void;
+}
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+// Pointer travel that still counts as a tap rather than a pan
+const TAP_SLOP = 10;
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * An image that can be pinched, double-tapped or scrolled to zoom, and dragged to pan once zoomed
+ */
+const ZoomableImage: React.FC<ZoomableImageProps> = ({ src, placeholderSrc, alt, active, onZoomChange }) => {
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const [isGesturing, setIsGesturing] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const pointersRef = useRef<Map<number, Point>>(new Map());
+  const pinchRef = useRef<{ distance: number; midpoint: Point; transform: Transform } | null>(null);
+  const tapRef = useRef<{ start: Point; moved: boolean }>({ start: { x: 0, y: 0 }, moved: false });
+  const lastTapRef = useRef<number>(0);
+  // Latest callback, so a new one from the parent doesn't count as a zoom change
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+  const isZoomed = transform.scale > 1;
+
+  useEffect(() => {
+    if (!active) setTransform(IDENTITY);
+  }, [active]);
+
+  useEffect(() => {
+    setIsLoaded(false);
+  }, [src]);
+
+  useEffect(() => {
+    onZoomChangeRef.current(isZoomed);
+  }, [isZoomed]);
+
+  // Point relative to the centre of the container, where the transform origin sits
+  const toLocal = (clientX: number, clientY: number): Point => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+  };
+
+  // Keep the scale in range and the image covering the container
+  const clamp = ({ scale, x, y }: Transform): Transform => {
+    const nextScale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+    const width = containerRef.current?.clientWidth ?? 0;
+    const height = containerRef.current?.clientHeight ?? 0;
+    const maxX = ((nextScale - 1) * width) / 2;
+    const maxY = ((nextScale - 1) * height) / 2;
+    return {
+      scale: nextScale,
+      x: Math.min(maxX, Math.max(-maxX, x)),
+      y: Math.min(maxY, Math.max(-maxY, y))
+    };
+  };
+
+  // Scale about a point so the spot under the finger stays put
+  const zoomAbout = (from: Transform, point: Point, scale: number): Transform => {
+    const ratio = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale)) / from.scale;
+    return clamp({
+      scale: from.scale * ratio,
+      x: point.x - (point.x - from.x) * ratio,
+      y: point.y - (point.y - from.y) * ratio
+    });
+  };
+
+  const startPinch = () => {
+    const [a, b] = [...pointersRef.current.values()];
+    pinchRef.current = {
+      distance: distance(a, b),
+      midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      transform
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toLocal(e.clientX, e.clientY);
+    pointersRef.current.set(e.pointerId, point);
+    setIsGesturing(true);
+
+    if (pointersRef.current.size === 1) {
+      tapRef.current = { start: point, moved: false };
+    } else if (pointersRef.current.size === 2) {
+      tapRef.current.moved = true;
+      startPinch();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointersRef.current.get(e.pointerId);
+    if (!previous) return;
+    const point = toLocal(e.clientX, e.clientY);
+    pointersRef.current.set(e.pointerId, point);
+
+    if (distance(point, tapRef.current.start) > TAP_SLOP) {
+      tapRef.current.moved = true;
+    }
+
+    const pinch = pinchRef.current;
+    if (pointersRef.current.size === 2 && pinch) {
+      const [a, b] = [...pointersRef.current.values()];
+      setTransform(zoomAbout(pinch.transform, pinch.midpoint, pinch.transform.scale * (distance(a, b) / pinch.distance)));
+    } else if (pointersRef.current.size === 1 && isZoomed) {
+      setTransform(current => clamp({ ...current, x: current.x + point.x - previous.x, y: current.y + point.y - previous.y }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = pointersRef.current.get(e.pointerId);
+    pointersRef.current.delete(e.pointerId);
+    pinchRef.current = null;
+
+    if (pointersRef.current.size === 0) {
+      setIsGesturing(false);
+    }
+
+    if (e.type !== 'pointerup' || !point || tapRef.current.moved || pointersRef.current.size > 0) {
+      return;
+    }
+
+    // Double tap zooms in on the tapped spot, or back out
+    const now = Date.now();
+    if (now - lastTapRef.current < DOUBLE_TAP_MS) {
+      setTransform(isZoomed ? IDENTITY : zoomAbout(IDENTITY, point, DOUBLE_TAP_SCALE));
+      lastTapRef.current = 0;
+    } else {
+      lastTapRef.current = now;
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    setTransform(current => zoomAbout(current, toLocal(e.clientX, e.clientY), current.scale * (e.deltaY < 0 ? 1.2 : 1 / 1.2)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative h-full w-full overflow-hidden select-none ${isZoomed ? 'cursor-grab' : 'cursor-zoom-in'}`}
+      // The browser would otherwise scroll or zoom the page instead
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={handleWheel}
+    >
+      {placeholderSrc && !isLoaded && (
+        <img
+          src={placeholderSrc}
+          alt=""
+          aria-hidden
+          draggable={false}
+          className="absolute inset-0 h-full w-full object-contain blur-sm"
+        />
+      )}
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        onLoad={() => setIsLoaded(true)}
+        className={`relative h-full w-full object-contain ${placeholderSrc && !isLoaded ? 'opacity-0' : ''}`}
+        style={{
+          transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+          transition: isGesturing ? 'none' : 'transform 150ms ease-out'
+        }}
+      />
+    </div>
+  );
+};
+
+export default ZoomableImage;
@@ -1,30 +1,72 @@
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { secureSetItem, secureGetItem, secureError, getUserFriendlyError } from '@/lib/security';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { secureError, getUserFriendlyError } from '@/lib/security';
 import { photoMemoryManager } from '@/lib/photoMemoryManager';
+import { sessionStore, SessionDraft } from '@/lib/sessionStore';
+import { uploadQueue, SyncProgress, SyncStatus } from '@/lib/uploadQueue';
+import { CaptureTemplate, getCaptureTemplate } from '@/lib/captureTemplates';
+import { PhotoAnnotation } from '@/lib/annotations';
+import { CaptureMetadata } from '@/lib/captureMetadata';
+import { PalletDetails } from '@/lib/palletDetails';
+import { customerDirectory, CustomerDefaults, CustomerRecord } from '@/lib/customerDirectory';
+import { fetchRemoteSession, fetchTeam, RemotePhotoRow, RemoteSessionRow, signPhotoRows, Team } from '@/lib/teamHistory';
+import { AppSettings, DEFAULT_SETTINGS, loadSettings, saveSettings } from '@/lib/appSettings';
+import { DecryptionError } from '@/lib/encryption';
+import { isExpired } from '@/lib/retention';
+import { SessionEdit, describeSessionChanges, getChangedPhotos, getRemovedPallets, getRemovedPhotos } from '@/lib/sessionEdits';
 
-interface PalletPhoto {
+export interface PalletPhoto {
   palletIndex: number;
   sideIndex: number;
   photoUri: string;
+  // Small preview for grids; absent for remote photos uploaded before thumbnails
+  thumbnailUri?: string;
+  capturedAt?: number;
+  annotation?: PhotoAnnotation;
+  // Location, device and camera at capture; absent for photos taken before it was recorded
+  metadata?: CaptureMetadata;
+  // Hex SHA-256 of the image bytes when the photo was confirmed
+  sha256?: string;
 }
 
-interface PalletSession {
+export interface PalletSession {
   id: string;
   customerName: string;
   poNumber: string;
   wrapStatus: 'unwrapped' | 'wrapped';
   totalPallets: number;
+  captureTemplate: CaptureTemplate;
   photos: PalletPhoto[];
+  palletDetails: PalletDetails[];
   timestamp: number;
+  // Driver signed in when the session was captured
+  userId?: string;
+  // Pinned sessions never expire from this device
+  pinned?: boolean;
+  // Corrections made after the session was first saved, oldest first
+  edits?: SessionEdit[];
+  // On a wrapped session, the unwrapped session of the same pallets it follows
+  linkedSessionId?: string;
+  syncStatus?: SyncStatus;
+  syncedAt?: number;
+  // Why the upload gave up, while syncStatus is 'error'
+  syncError?: string;
 }
 
+// 'disabled' means no Supabase project is configured and the app runs local-only
+export type AuthStatus = 'disabled' | 'loading' | 'signed-out' | 'signed-in';
+
 interface PalletContextType {
+  sessionId: string;
   totalPallets: number;
   setTotalPallets: (count: number) => void;
   photos: PalletPhoto[];
-  addPhoto: (palletIndex: number, sideIndex: number, photoUri: string) => void;
+  addPhoto: (palletIndex: number, sideIndex: number, photoUri: string, annotation?: PhotoAnnotation, metadata?: CaptureMetadata, sha256?: string) => void;
+  updatePhotoAnnotation: (palletIndex: number, sideIndex: number, annotation: PhotoAnnotation) => Promise<void>;
+  palletDetails: PalletDetails[];
+  savePalletDetails: (details: PalletDetails) => void;
   customerName: string;
   setCustomerName: (name: string) => void;
   poNumber: string;
@@ -35,16 +77,46 @@ interface PalletContextType {
   setCurrentPallet: (index: number) => void;
   currentSide: number;
   setCurrentSide: (side: number) => void;
+  captureTemplate: CaptureTemplate;
+  setCaptureTemplate: (template: CaptureTemplate) => void;
   resetData: () => void;
-  supabase: any;
+  supabase: SupabaseClient | null;
+  authStatus: AuthStatus;
+  authUser: User | null;
+  signInWithEmailLink: (email: string) => Promise<void>;
+  signInWithPin: (email: string, pin: string) => Promise<void>;
+  signOut: () => Promise<void>;
   isUploading: boolean;
-  uploadPhotosToSupabase: () => Promise<boolean>;
-  fetchHistorySessions: () => Promise<any[]>;
-  fetchSessionPhotos: (sessionId: string) => Promise<any[]>;
+  syncProgress: Record<string, SyncProgress>;
+  queueSessionUpload: (sessionId: string) => Promise<boolean>;
+  team: Team | null;
+  fetchHistorySessions: () => Promise<RemoteSessionRow[]>;
+  fetchSessionPhotos: (sessionId: string) => Promise<RemotePhotoRow[]>;
+  fetchHistorySession: (sessionId: string) => Promise<PalletSession | null>;
   deviceId: string;
-  saveSessionToLocalStorage: () => boolean;
+  getCurrentSession: () => PalletSession;
+  saveSession: () => Promise<boolean>;
   localSessions: PalletSession[];
-  deleteLocalSession: (sessionId: string) => void;
+  // False until saved sessions have been read from storage
+  localSessionsLoaded: boolean;
+  // Stored sessions, photos or drafts left out because they couldn't be decrypted
+  unreadableRecords: number;
+  deleteLocalSession: (sessionId: string) => Promise<void>;
+  setSessionPinned: (sessionId: string, pinned: boolean) => Promise<void>;
+  settings: AppSettings;
+  updateSettings: (changes: Partial<AppSettings>) => Promise<void>;
+  // The saved session as it was before being reopened; null unless editing
+  editingSession: PalletSession | null;
+  reopenSession: (sessionId: string) => Promise<boolean>;
+  // The unwrapped session the wrapped photos being captured will be paired with
+  linkedSessionId: string | null;
+  startWrappedPhase: (unwrapped: PalletSession) => boolean;
+  unfinishedDraft: SessionDraft | null;
+  resumeDraft: () => Promise<boolean>;
+  discardDraft: () => Promise<void>;
+  customers: CustomerRecord[];
+  saveCustomer: (name: string, defaults: CustomerDefaults, previousKey?: string) => Promise<void>;
+  removeCustomer: (key: string) => Promise<void>;
 }
 
 const PalletContext = createContext<PalletContextType | undefined>(undefined);
@@ -59,96 +131,255 @@ const getDeviceId = (): string => {
   return deviceId;
 };
 
-// Local storage key for sessions
-const LOCAL_SESSIONS_KEY = 'pallet_local_sessions';
-
-// One week in milliseconds
-const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 export function PalletProvider({ children }: { children: React.ReactNode }) {
+  const [sessionId, setSessionId] = useState<string>(() => uuidv4());
   const [totalPallets, setTotalPallets] = useState<number>(0);
   const [photos, setPhotos] = useState<PalletPhoto[]>([]);
+  const [palletDetails, setPalletDetails] = useState<PalletDetails[]>([]);
   const [customerName, setCustomerName] = useState<string>('');
   const [poNumber, setPoNumber] = useState<string>('');
   const [wrapStatus, setWrapStatus] = useState<'unwrapped' | 'wrapped'>('unwrapped');
   const [currentPallet, setCurrentPallet] = useState<number>(1);
   const [currentSide, setCurrentSide] = useState<number>(1);
-  const [supabase, setSupabase] = useState<any>(null);
-  const [isUploading, setIsUploading] = useState<boolean>(false);
+  const [captureTemplate, setCaptureTemplate] = useState<CaptureTemplate>(getCaptureTemplate());
+  const [client, setClient] = useState<SupabaseClient | null>(null);
+  const [authStatus, setAuthStatus] = useState<AuthStatus>(SUPABASE_URL && SUPABASE_ANON_KEY ? 'loading' : 'disabled');
+  const [authUser, setAuthUser] = useState<User | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [syncProgress, setSyncProgress] = useState<Record<string, SyncProgress>>({});
   const [deviceId] = useState<string>(getDeviceId());
   const [localSessions, setLocalSessions] = useState<PalletSession[]>([]);
+  const [localSessionsLoaded, setLocalSessionsLoaded] = useState<boolean>(false);
+  const [unreadableSessions, setUnreadableSessions] = useState<number>(0);
+  const [draftUnreadable, setDraftUnreadable] = useState<boolean>(false);
+  const [unfinishedDraft, setUnfinishedDraft] = useState<SessionDraft | null>(null);
+  const [editingSession, setEditingSession] = useState<PalletSession | null>(null);
+  const [linkedSessionId, setLinkedSessionId] = useState<string | null>(null);
+  const [customers, setCustomers] = useState<CustomerRecord[]>([]);
+  // Replaced with the stored settings once they're decrypted, before sessions load
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  // Read by the daily cleanup, which outlives any one render
+  const settingsRef = useRef<AppSettings>(settings);
+  // ID of the session saved, or being saved, so it stops being checkpointed as a draft.
+  // Set before the save starts, since encrypting a large session takes a while.
+  const savedSessionIdRef = useRef<string | null>(null);
+
+  // Only a signed-in client is handed out, so every request runs as the driver under RLS
+  const supabase = authStatus === 'signed-in' ? client : null;
+  const userId = authUser?.id ?? null;
 
-  // Initialize Supabase client
+  // Initialize Supabase client and follow the driver's auth session
   useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
     const initSupabase = async () => {
       try {
         const { createClient } = await import('@supabase/supabase-js');
-        const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-        const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
         
-        if (supabaseUrl && supabaseKey) {
-          const client = createClient(supabaseUrl, supabaseKey);
-          setSupabase(client);
+        if (SUPABASE_URL && SUPABASE_ANON_KEY && !cancelled) {
+          // Keep drivers signed in between visits and complete magic-link redirects
+          const supabaseClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+            auth: { persistSession: true, autoRefreshToken: true, detectSessionInUrl: true }
+          });
+          // Fires straight away with the stored session, then on every sign-in, refresh and sign-out
+          const { data } = supabaseClient.auth.onAuthStateChange((_event, session) => {
+            setAuthUser(session?.user ?? null);
+            setAuthStatus(session ? 'signed-in' : 'signed-out');
+          });
+          unsubscribe = () => data.subscription.unsubscribe();
+          setClient(supabaseClient);
         }
       } catch (error) {
         console.error('Error initializing Supabase:', error);
+        setAuthStatus('disabled');
       }
     };
     
     initSupabase();
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
   }, []);
-  
-  // Load local sessions from storage
+
+  // Hand the signed-in client to the upload queue so the driver's queued sessions resume syncing
+  useEffect(() => {
+    uploadQueue.setClient(supabase, userId, team?.id ?? null);
+  }, [supabase, userId, team?.id]);
+
+  // Load the driver's team and customer directory once signed in
   useEffect(() => {
-    loadLocalSessions();
+    if (!supabase || !userId) {
+      setTeam(null);
+      return;
+    }
+
+    fetchTeam(supabase, userId)
+      .then(setTeam)
+      .catch(error => secureError('Error loading team', error));
+    customerDirectory.trySync(supabase, deviceId, userId).then(synced => synced && loadCustomers());
+  }, [supabase, deviceId, userId]);
+
+  // Track per-session upload progress
+  useEffect(() => {
+    uploadQueue.getProgress()
+      .then(progress => setSyncProgress(
+        Object.fromEntries(progress.map(entry => [entry.sessionId, entry]))
+      ))
+      .catch(error => secureError('Error loading upload progress', error));
+
+    return uploadQueue.subscribe(progress => {
+      setSyncProgress(current => ({ ...current, [progress.sessionId]: progress }));
+      setLocalSessions(sessions => sessions.map(session =>
+        session.id === progress.sessionId
+          ? { ...session, syncStatus: progress.status, syncError: progress.status === 'error' ? progress.lastError : undefined }
+          : session
+      ));
+    });
   }, []);
   
-  // Clean up expired sessions (older than one week)
+  // Load local sessions from storage, migrating any legacy localStorage data first
   useEffect(() => {
-    const cleanupExpiredSessions = () => {
-      const now = Date.now();
-      const filteredSessions = localSessions.filter(
-        session => now - session.timestamp < ONE_WEEK_MS
-      );
-      
-      if (filteredSessions.length !== localSessions.length) {
-        setLocalSessions(filteredSessions);
-        localStorage.setItem(LOCAL_SESSIONS_KEY, JSON.stringify(filteredSessions));
+    const initLocalSessions = async () => {
+      // Retention cleanup needs the real settings, not the defaults
+      const stored = await loadSettings();
+      settingsRef.current = stored;
+      setSettings(stored);
+
+      try {
+        await sessionStore.migrateLegacySessions();
+      } catch (error) {
+        secureError('Error migrating legacy sessions', error);
       }
+      await loadLocalSessions();
+
+      // Sessions saved before encryption at rest are sealed in the background
+      await sessionStore.sealPlaintextRecords()
+        .catch(error => secureError('Error encrypting stored sessions', error));
+
+      // Sessions saved before thumbnails existed get them in the background
+      const created = await sessionStore.createMissingThumbnails()
+        .catch(error => {
+          secureError('Error creating missing thumbnails', error);
+          return 0;
+        });
+      if (created > 0) await loadLocalSessions();
     };
-    
-    cleanupExpiredSessions();
-    // Run cleanup daily - only set interval once, not dependent on localSessions
-    const intervalId = setInterval(cleanupExpiredSessions, 24 * 60 * 60 * 1000);
+
+    initLocalSessions();
+    // Re-run cleanup daily
+    const intervalId = setInterval(loadLocalSessions, 24 * 60 * 60 * 1000);
     
     return () => clearInterval(intervalId);
-  }, []); // Remove localSessions dependency to prevent multiple intervals
+  }, []);
+
+  // Look for a session that was interrupted before it was saved
+  useEffect(() => {
+    sessionStore.loadDraft()
+      .then(draft => {
+        if (draft && draft.photos.length > 0) {
+          setUnfinishedDraft(draft);
+        }
+      })
+      .catch(error => {
+        secureError('Error loading unfinished session', error);
+        if (error instanceof DecryptionError) setDraftUnreadable(true);
+      });
+  }, []);
+
+  // Checkpoint the in-progress session whenever its position or fields change
+  useEffect(() => {
+    if (photos.length === 0 || savedSessionIdRef.current === sessionId) {
+      return;
+    }
 
-  const loadLocalSessions = () => {
+    sessionStore.saveDraft({
+      id: sessionId,
+      customerName,
+      poNumber,
+      wrapStatus,
+      totalPallets,
+      captureTemplate,
+      photos,
+      palletDetails,
+      currentPallet,
+      currentSide,
+      linkedSessionId: linkedSessionId || undefined,
+      updatedAt: Date.now(),
+      editOf: editingSession?.id
+    })
+      // A new checkpoint replaces one that couldn't be read
+      .then(() => setDraftUnreadable(false))
+      .catch(error => secureError('Error checkpointing session', error));
+  }, [sessionId, customerName, poNumber, wrapStatus, totalPallets, captureTemplate, photos, palletDetails, currentPallet, currentSide, editingSession, linkedSessionId]);
+
+  const loadLocalSessions = async () => {
     try {
-      const sessions = secureGetItem(LOCAL_SESSIONS_KEY);
-      if (Array.isArray(sessions)) {
-        // Validate session data structure
-        const validSessions = sessions.filter(session => 
-          session && 
-          typeof session.id === 'string' && 
-          typeof session.customerName === 'string' &&
-          typeof session.poNumber === 'string' &&
-          typeof session.totalPallets === 'number' &&
-          Array.isArray(session.photos) &&
-          typeof session.timestamp === 'number'
-        ).map(session => ({
-          ...session,
-          wrapStatus: session.wrapStatus || 'unwrapped'
-        }));
-        setLocalSessions(validSessions);
-      }
+      const { sessions, unreadable } = await sessionStore.loadSessions();
+      setUnreadableSessions(unreadable);
+      const now = Date.now();
+      
+      // Clean up sessions past the retention period, unless pinned, or not yet uploaded when
+      // the "Only delete after upload" setting is on
+      const expiredSessions = sessions.filter(session => isExpired(session, settingsRef.current, now));
+      await Promise.all(expiredSessions.map(session => sessionStore.deleteSession(session.id)));
+      
+      // Validate session data structure
+      const validSessions = sessions.filter(session => 
+        session && 
+        !expiredSessions.includes(session) &&
+        typeof session.id === 'string' && 
+        typeof session.customerName === 'string' &&
+        typeof session.poNumber === 'string' &&
+        typeof session.totalPallets === 'number' &&
+        Array.isArray(session.photos) &&
+        typeof session.timestamp === 'number'
+      ).map(session => ({
+        ...session,
+        wrapStatus: session.wrapStatus || 'unwrapped',
+        // Sessions saved before templates existed were always four sides
+        captureTemplate: session.captureTemplate || getCaptureTemplate(),
+        palletDetails: session.palletDetails || []
+      }));
+      setLocalSessions(validSessions);
+
+      // Keep the customer directory up to date with everyone seen in history
+      await customerDirectory.recordSessions(validSessions);
+      setCustomers(await customerDirectory.listVisible());
     } catch (error) {
       secureError('Error loading local sessions', error);
+    } finally {
+      setLocalSessionsLoaded(true);
     }
   };
 
-  const addPhoto = (palletIndex: number, sideIndex: number, photoUri: string) => {
+  const loadCustomers = async () => {
+    try {
+      setCustomers(await customerDirectory.listVisible());
+    } catch (error) {
+      secureError('Error loading customer directory', error);
+    }
+  };
+
+  // Add or edit a directory entry by hand
+  const saveCustomer = async (name: string, defaults: CustomerDefaults, previousKey?: string) => {
+    await customerDirectory.save(name, defaults, previousKey);
+    await loadCustomers();
+    customerDirectory.trySync(supabase, deviceId, userId);
+  };
+
+  const removeCustomer = async (key: string) => {
+    await customerDirectory.remove(key);
+    await loadCustomers();
+    customerDirectory.trySync(supabase, deviceId, userId);
+  };
+
+  const addPhoto = (palletIndex: number, sideIndex: number, photoUri: string, annotation?: PhotoAnnotation, metadata?: CaptureMetadata, sha256?: string) => {
     // Remove any existing photo with same pallet and side
     const filteredPhotos = photos.filter(
       photo => !(photo.palletIndex === palletIndex && photo.sideIndex === sideIndex)
@@ -165,57 +396,322 @@ export function PalletProvider({ children }: { children: React.ReactNode }) {
     // Add the new photo
     setPhotos([
       ...filteredPhotos,
-      { palletIndex, sideIndex, photoUri }
+      { palletIndex, sideIndex, photoUri, capturedAt: metadata?.capturedAt ?? Date.now(), annotation, metadata, sha256 }
     ]);
+
+    // Persist the photo right away so it survives the tab being killed
+    sessionStore.putPhoto(sessionId, palletIndex, sideIndex, photoUri)
+      .then(thumbnailUri => {
+        if (!thumbnailUri) return;
+        // Skip if the slot was retaken while the thumbnail was being made
+        setPhotos(current => current.map(photo =>
+          photo.palletIndex === palletIndex && photo.sideIndex === sideIndex && photo.photoUri === photoUri
+            ? { ...photo, thumbnailUri }
+            : photo
+        ));
+      })
+      .catch(error => secureError('Error checkpointing photo', error));
+  };
+
+  // Attach damage notes and markup to a photo in the current session
+  const updatePhotoAnnotation = async (palletIndex: number, sideIndex: number, annotation: PhotoAnnotation) => {
+    const updatedPhotos = photos.map(photo =>
+      photo.palletIndex === palletIndex && photo.sideIndex === sideIndex ? { ...photo, annotation } : photo
+    );
+    setPhotos(updatedPhotos);
+
+    // Unsaved sessions are picked up by the draft checkpoint; saved ones are updated in place
+    if (savedSessionIdRef.current !== sessionId) return;
+
+    try {
+      await sessionStore.updatePhotoAnnotation(sessionId, palletIndex, sideIndex, annotation);
+      setLocalSessions(sessions => sessions.map(session =>
+        session.id === sessionId ? { ...session, photos: updatedPhotos } : session
+      ));
+      if (supabase) {
+        await uploadQueue.enqueue({ ...getCurrentSession(), photos: updatedPhotos }, deviceId, [{ palletIndex, sideIndex }]);
+      }
+    } catch (error) {
+      secureError('Error saving photo annotation', error);
+    }
+  };
+
+  // Record the details for one pallet, replacing anything entered for it before
+  const savePalletDetails = (details: PalletDetails) => {
+    setPalletDetails(current => [
+      ...current.filter(entry => entry.palletIndex !== details.palletIndex),
+      details
+    ].sort((a, b) => a.palletIndex - b.palletIndex));
+  };
+
+  // Restore the interrupted session into the current capture state. Returns false if the
+  // session it was editing couldn't be read, rather than resuming it as a new session.
+  const resumeDraft = async (): Promise<boolean> => {
+    if (!unfinishedDraft) return false;
+
+    // An interrupted edit saves back over its original, if that is still on this device.
+    // Read from storage, since saved sessions may not have finished loading yet.
+    let original: PalletSession | null = null;
+    if (unfinishedDraft.editOf) {
+      try {
+        original = await sessionStore.loadSession(unfinishedDraft.editOf);
+      } catch (error) {
+        secureError('Error loading session being edited', error);
+        return false;
+      }
+    }
+
+    photoMemoryManager.clearAll();
+    unfinishedDraft.photos.forEach(photo => {
+      photoMemoryManager.storePhoto(`p${photo.palletIndex}_s${photo.sideIndex}`, photo.photoUri);
+    });
+
+    savedSessionIdRef.current = null;
+    setSessionId(unfinishedDraft.id);
+    setTotalPallets(unfinishedDraft.totalPallets);
+    setPhotos(unfinishedDraft.photos);
+    setPalletDetails(unfinishedDraft.palletDetails || []);
+    setCustomerName(unfinishedDraft.customerName);
+    setPoNumber(unfinishedDraft.poNumber);
+    setWrapStatus(unfinishedDraft.wrapStatus);
+    setCaptureTemplate(unfinishedDraft.captureTemplate || getCaptureTemplate());
+    setCurrentPallet(unfinishedDraft.currentPallet);
+    setCurrentSide(unfinishedDraft.currentSide);
+    setLinkedSessionId(unfinishedDraft.linkedSessionId || null);
+    setEditingSession(original);
+    setUnfinishedDraft(null);
+    return true;
+  };
+
+  // Load a saved session back into the capture state for retakes, extra pallets and corrections.
+  // Its photos are copied to a working session so nothing changes until it is saved again.
+  const reopenSession = async (savedSessionId: string): Promise<boolean> => {
+    const session = localSessions.find(item => item.id === savedSessionId);
+    // Only one session can be checkpointed at a time
+    if (!session || unfinishedDraft) {
+      return false;
+    }
+
+    try {
+      resetData();
+      const workingId = uuidv4();
+      const workingPhotos = await sessionStore.copyPhotos(session.id, workingId, session.photos);
+      workingPhotos.forEach(photo => {
+        photoMemoryManager.storePhoto(`p${photo.palletIndex}_s${photo.sideIndex}`, photo.photoUri);
+      });
+
+      setSessionId(workingId);
+      setTotalPallets(session.totalPallets);
+      setPhotos(workingPhotos);
+      setPalletDetails(session.palletDetails);
+      setCustomerName(session.customerName);
+      setPoNumber(session.poNumber);
+      setWrapStatus(session.wrapStatus);
+      setCaptureTemplate(session.captureTemplate);
+      setCurrentPallet(1);
+      setCurrentSide(1);
+      setLinkedSessionId(session.linkedSessionId || null);
+      setEditingSession(session);
+      return true;
+    } catch (error) {
+      secureError('Error reopening session', error);
+      return false;
+    }
+  };
+
+  // Start photographing the same pallets after wrapping, as a new session paired with the unwrapped one.
+  // Pallet details carry over as the starting point for each pallet's details form.
+  const startWrappedPhase = (unwrapped: PalletSession): boolean => {
+    // Only one session can be checkpointed at a time
+    if (unfinishedDraft || unwrapped.wrapStatus !== 'unwrapped') {
+      return false;
+    }
+
+    resetData();
+    setTotalPallets(unwrapped.totalPallets);
+    setPalletDetails(unwrapped.palletDetails);
+    setCustomerName(unwrapped.customerName);
+    setPoNumber(unwrapped.poNumber);
+    setWrapStatus('wrapped');
+    setCaptureTemplate(unwrapped.captureTemplate);
+    setLinkedSessionId(unwrapped.id);
+    return true;
+  };
+
+  // Throw away the interrupted session and its photos
+  const discardDraft = async () => {
+    setUnfinishedDraft(null);
+    setDraftUnreadable(false);
+    try {
+      await sessionStore.clearDraft({ discardPhotos: true });
+    } catch (error) {
+      secureError('Error discarding unfinished session', error);
+    }
   };
 
   const resetData = () => {
     // Clean up memory before resetting
     photoMemoryManager.clearAll();
     
+    // An unsaved session being reset is abandoned, so drop its checkpoint too
+    if (savedSessionIdRef.current !== sessionId && photos.length > 0) {
+      sessionStore.clearDraft({ discardPhotos: true, sessionId })
+        .catch(error => secureError('Error discarding session checkpoint', error));
+    }
+    savedSessionIdRef.current = null;
+    setSessionId(uuidv4());
     setTotalPallets(0);
     setPhotos([]);
+    setPalletDetails([]);
     setCustomerName('');
     setPoNumber('');
     setWrapStatus('unwrapped');
     setCurrentPallet(1);
     setCurrentSide(1);
+    setCaptureTemplate(getCaptureTemplate());
+    setEditingSession(null);
+    setLinkedSessionId(null);
   };
   
-  // Save current session to local storage
-  const saveSessionToLocalStorage = () => {
+  // Snapshot of the session currently being captured
+  const getCurrentSession = (): PalletSession => ({
+    id: sessionId,
+    customerName,
+    poNumber,
+    wrapStatus,
+    totalPallets,
+    captureTemplate,
+    photos: [...photos],
+    palletDetails: [...palletDetails],
+    timestamp: Date.now(),
+    userId: userId || undefined,
+    linkedSessionId: linkedSessionId || undefined
+  });
+
+  // Save current session to the local session store
+  const saveSession = async (): Promise<boolean> => {
     if (photos.length === 0 || !customerName || !poNumber) {
       return false;
     }
     
-    const newSession: PalletSession = {
-      id: uuidv4(),
-      customerName,
-      poNumber,
-      wrapStatus,
-      totalPallets,
-      photos: [...photos],
-      timestamp: Date.now()
-    };
+    if (editingSession) {
+      return saveEditedSession(editingSession);
+    }
     
-    const updatedSessions = [newSession, ...localSessions];
-    setLocalSessions(updatedSessions);
+    const newSession = getCurrentSession();
+    savedSessionIdRef.current = newSession.id;
     
     try {
-      secureSetItem(LOCAL_SESSIONS_KEY, updatedSessions);
+      await sessionStore.saveSession(newSession);
+      // The photos now belong to the saved session; only the checkpoint record goes
+      await sessionStore.clearDraft({ discardPhotos: false, sessionId: newSession.id });
+      
+      // Start syncing right away when Supabase is configured
+      if (supabase) {
+        try {
+          await uploadQueue.enqueue(newSession, deviceId);
+          newSession.syncStatus = 'pending';
+        } catch (error) {
+          secureError('Error queueing session upload', error);
+        }
+      }
+      
+      setLocalSessions(sessions => [newSession, ...sessions.filter(session => session.id !== newSession.id)]);
+
+      try {
+        await customerDirectory.recordSessions([newSession]);
+        await loadCustomers();
+        customerDirectory.trySync(supabase, deviceId, userId);
+      } catch (error) {
+        secureError('Error updating customer directory', error);
+      }
+      return true;
+    } catch (error) {
+      secureError('Error saving session', error);
+      // Keep checkpointing it, unless the app has already moved on
+      if (savedSessionIdRef.current === newSession.id) savedSessionIdRef.current = null;
+      return false;
+    }
+  };
+  
+  // Write a reopened session back over the original, recording what changed
+  const saveEditedSession = async (original: PalletSession): Promise<boolean> => {
+    const current = getCurrentSession();
+    const edited: PalletSession = {
+      ...original,
+      ...current,
+      id: original.id,
+      timestamp: original.timestamp,
+      userId: original.userId,
+      // Photos and details of pallets dropped from the end go with them
+      photos: current.photos.filter(photo => photo.palletIndex <= current.totalPallets),
+      palletDetails: current.palletDetails.filter(details => details.palletIndex <= current.totalPallets)
+    };
+    const changes = describeSessionChanges(original, edited);
+    if (changes.length > 0) {
+      edited.edits = [...(original.edits || []), { editedAt: Date.now(), userId: userId || undefined, changes }];
+    }
+
+    // The working copy stops being checkpointed; once written back, the original takes its place
+    savedSessionIdRef.current = current.id;
+    try {
+      // Photos of slots the edit removed are deleted with the save, locally and, below, in the cloud
+      await sessionStore.saveSession(edited, getRemovedPhotos(original, edited));
+      // The working copies of the photos are no longer needed once written back
+      await sessionStore.clearDraft({ discardPhotos: true, sessionId: current.id });
+
+      const saved = (await sessionStore.loadSession(original.id)) || edited;
+      // Unless the app was reset while saving and has moved on to a new session
+      if (savedSessionIdRef.current === current.id) {
+        savedSessionIdRef.current = original.id;
+        photoMemoryManager.clearAll();
+        setSessionId(original.id);
+        setPhotos(saved.photos);
+        setEditingSession(null);
+      }
+
+      // Re-send what changed, along with the session row, if it has been uploaded before.
+      // Anything removed is deleted from the cloud too, since even an unfinished upload may have sent it.
+      if (supabase && changes.length > 0) {
+        try {
+          const removed = {
+            removedPhotos: getRemovedPhotos(original, edited),
+            removedPallets: getRemovedPallets(original, edited)
+          };
+          if (original.syncStatus === 'synced') {
+            await uploadQueue.enqueue(saved, deviceId, getChangedPhotos(original, edited), { resendSession: true, ...removed });
+          } else {
+            await uploadQueue.enqueue(saved, deviceId, undefined, removed);
+          }
+          saved.syncStatus = 'pending';
+        } catch (error) {
+          secureError('Error queueing edited session upload', error);
+        }
+      }
+
+      setLocalSessions(sessions => sessions.map(session => session.id === saved.id ? saved : session));
+
+      try {
+        await customerDirectory.recordSessions([saved]);
+        await loadCustomers();
+        customerDirectory.trySync(supabase, deviceId, userId);
+      } catch (error) {
+        secureError('Error updating customer directory', error);
+      }
       return true;
     } catch (error) {
-      secureError('Error saving to local storage', error);
+      secureError('Error saving edited session', error);
+      if (savedSessionIdRef.current === current.id) savedSessionIdRef.current = null;
       return false;
     }
   };
   
   // Delete a local session by ID
-  const deleteLocalSession = (sessionId: string) => {
+  const deleteLocalSession = async (sessionId: string) => {
     try {
-      const updatedSessions = localSessions.filter(session => session.id !== sessionId);
-      setLocalSessions(updatedSessions);
-      secureSetItem(LOCAL_SESSIONS_KEY, updatedSessions);
+      await uploadQueue.remove(sessionId);
+      await sessionStore.deleteSession(sessionId);
+      setLocalSessions(sessions => sessions.filter(session => session.id !== sessionId));
       
       // Trigger memory cleanup after deletion
       photoMemoryManager.forceCleanup();
@@ -224,102 +720,82 @@ export function PalletProvider({ children }: { children: React.ReactNode }) {
     }
   };
   
-  // Upload photos to Supabase
-  const uploadPhotosToSupabase = async (): Promise<boolean> => {
-    if (!supabase || photos.length === 0 || !customerName || !poNumber) {
+  const setSessionPinned = async (sessionId: string, pinned: boolean) => {
+    await sessionStore.updateSession(sessionId, { pinned });
+    setLocalSessions(sessions => sessions.map(session =>
+      session.id === sessionId ? { ...session, pinned } : session
+    ));
+  };
+
+  // Apply new settings right away, so a shorter retention period cleans up immediately
+  const updateSettings = async (changes: Partial<AppSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+    try {
+      await saveSettings(next);
+    } catch (error) {
+      secureError('Error saving settings', error);
+    }
+    await loadLocalSessions();
+  };
+
+  // Queue a saved session for background upload to Supabase. Returns false when cloud
+  // sync isn't configured, and throws if the session couldn't be queued.
+  const queueSessionUpload = async (sessionId: string): Promise<boolean> => {
+    if (!supabase) {
       return false;
     }
-    
-    setIsUploading(true);
+    const session = localSessions.find(item => item.id === sessionId);
+    if (!session) {
+      throw new Error('This session is no longer saved on this device.');
+    }
     
     try {
-      // 1. Create a new session
-      const { data: sessionData, error: sessionError } = await supabase
-        .from('pallet_sessions')
-        .insert({
-          customer_name: customerName,
-          po_number: poNumber,
-          total_pallets: totalPallets,
-          device_id: deviceId
-        })
-        .select('id')
-        .single();
-      
-      if (sessionError || !sessionData) {
-        secureError('Error creating session', sessionError);
-        return false;
-      }
-      
-      const sessionId = sessionData.id;
-      
-      // 2. Upload each photo to storage and create records
-      for (const photo of photos) {
-        const { palletIndex, sideIndex, photoUri } = photo;
-        
-        // Detect format from data URL or use PNG as default
-        const isPNG = photoUri.includes('data:image/png');
-        const extension = isPNG ? 'png' : 'jpg';
-        const contentType = isPNG ? 'image/png' : 'image/jpeg';
-        
-        const fileName = `${sessionId}/${palletIndex}_${sideIndex}.${extension}`;
-        
-        // Convert data URI to Blob
-        const response = await fetch(photoUri);
-        const blob = await response.blob();
-        
-        // Upload to storage bucket
-        const { error: uploadError } = await supabase.storage
-          .from('pallet_photos')
-          .upload(fileName, blob, {
-            contentType: contentType
-          });
-        
-        if (uploadError) {
-          secureError('Error uploading photo', uploadError);
-          continue;
-        }
-        
-        // Get the public URL
-        const { data: publicUrl } = supabase.storage
-          .from('pallet_photos')
-          .getPublicUrl(fileName);
-        
-        // Create photo record
-        const { error: photoError } = await supabase
-          .from('pallet_photos')
-          .insert({
-            session_id: sessionId,
-            pallet_index: palletIndex,
-            side_index: sideIndex,
-            photo_url: publicUrl.publicUrl
-          });
-        
-        if (photoError) {
-          secureError('Error creating photo record', photoError);
-        }
-      }
-      
-      // Clean up memory after successful upload
-      photoMemoryManager.forceCleanup();
-      
+      await uploadQueue.enqueue(session, deviceId);
+      setLocalSessions(sessions => sessions.map(item =>
+        item.id === sessionId ? { ...item, syncStatus: 'pending', syncError: undefined } : item
+      ));
       return true;
     } catch (error) {
-      secureError('Error in upload process', error);
-      return false;
-    } finally {
-      setIsUploading(false);
+      secureError('Error queueing session upload', error);
+      throw error;
     }
   };
 
-  // Fetch session history
-  const fetchHistorySessions = async (): Promise<any[]> => {
+  // Email a one-time sign-in link; drivers are invited by an admin, so unknown addresses are refused
+  const signInWithEmailLink = async (email: string) => {
+    if (!client) throw new Error('Sign-in is not configured');
+    const { error } = await client.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: window.location.origin, shouldCreateUser: false }
+    });
+    if (error) throw error;
+  };
+
+  // A driver's PIN is their Supabase password
+  const signInWithPin = async (email: string, pin: string) => {
+    if (!client) throw new Error('Sign-in is not configured');
+    const { error } = await client.auth.signInWithPassword({ email: email.trim(), password: pin });
+    if (error) throw error;
+  };
+
+  // Queued uploads stay on the device and resume when the same driver signs back in
+  const signOut = async () => {
+    if (!client) return;
+    const { error } = await client.auth.signOut();
+    if (error) throw error;
+  };
+
+  // Fetch uploaded sessions from every device in the driver's team; RLS limits the rows
+  // to the driver's own sessions and their teammates'
+  const fetchHistorySessions = useCallback(async (): Promise<RemoteSessionRow[]> => {
     if (!supabase) return [];
     
     try {
       const { data, error } = await supabase
         .from('pallet_sessions')
-        .select('*')
-        .eq('device_id', deviceId)
+        .select('*, pallet_photos(count)')
         .order('created_at', { ascending: false });
       
       if (error) {
@@ -332,10 +808,10 @@ export function PalletProvider({ children }: { children: React.ReactNode }) {
       console.error('Error in fetch process:', error);
       return [];
     }
-  };
+  }, [supabase]);
 
   // Fetch photos for a specific session
-  const fetchSessionPhotos = async (sessionId: string): Promise<any[]> => {
+  const fetchSessionPhotos = async (sessionId: string): Promise<RemotePhotoRow[]> => {
     if (!supabase) return [];
     
     try {
@@ -351,20 +827,38 @@ export function PalletProvider({ children }: { children: React.ReactNode }) {
         return [];
       }
       
-      return data || [];
+      return await signPhotoRows(supabase, data || []);
     } catch (error) {
       console.error('Error in fetch process:', error);
       return [];
     }
   };
 
+  // Fetch one uploaded session in full, for viewing a teammate's session on this device
+  const fetchHistorySession = useCallback(async (sessionId: string): Promise<PalletSession | null> => {
+    if (!supabase) return null;
+    
+    try {
+      return await fetchRemoteSession(supabase, sessionId);
+    } catch (error) {
+      secureError('Error fetching session', error);
+      return null;
+    }
+  }, [supabase]);
+
+  const isUploading = Object.values(syncProgress).some(progress => progress.status === 'syncing');
+
   return (
     <PalletContext.Provider
       value={{
+        sessionId,
         totalPallets,
         setTotalPallets,
         photos,
         addPhoto,
+        updatePhotoAnnotation,
+        palletDetails,
+        savePalletDetails,
         customerName,
         setCustomerName,
         poNumber,
@@ -375,16 +869,42 @@ export function PalletProvider({ children }: { children: React.ReactNode }) {
         setCurrentPallet,
         currentSide,
         setCurrentSide,
+        captureTemplate,
+        setCaptureTemplate,
         resetData,
         supabase,
+        authStatus,
+        authUser,
+        signInWithEmailLink,
+        signInWithPin,
+        signOut,
         isUploading,
-        uploadPhotosToSupabase,
+        syncProgress,
+        queueSessionUpload,
+        team,
         fetchHistorySessions,
         fetchSessionPhotos,
+        fetchHistorySession,
         deviceId,
-        saveSessionToLocalStorage,
+        getCurrentSession,
+        saveSession,
         localSessions,
-        deleteLocalSession
+        localSessionsLoaded,
+        unreadableRecords: unreadableSessions + (draftUnreadable ? 1 : 0),
+        deleteLocalSession,
+        setSessionPinned,
+        settings,
+        updateSettings,
+        editingSession,
+        reopenSession,
+        linkedSessionId,
+        startWrappedPhase,
+        unfinishedDraft,
+        resumeDraft,
+        discardDraft,
+        customers,
+        saveCustomer,
+        removeCustomer
       }}
     >
       {children}
@@ -0,0 +1,17 @@
+import * as React from "react"
+import { appLock, AppLockState } from "@/lib/appLock"
+
+/**
+ * Whether a PIN is set and whether the app is currently locked, kept in step with appLock
+ */
+export function useAppLock(): AppLockState {
+  const [state, setState] = React.useState<AppLockState>(appLock.getState())
+
+  React.useEffect(() => {
+    // The state may have changed between the first render and subscribing
+    setState(appLock.getState())
+    return appLock.subscribe(setState)
+  }, [])
+
+  return state
+}
@@ -0,0 +1,43 @@
+import * as React from "react"
+import { appLock, AppLockSettings } from "@/lib/appLock"
+
+// Anything that shows someone is still using the app
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000
+
+/**
+ * Lock the app after the configured idle time, or when it's hidden if that's enabled.
+ * Does nothing while `active` is false, e.g. when no PIN is set or the app is already locked.
+ */
+export function useAutoLock(active: boolean, { idleMinutes, lockWhenHidden }: AppLockSettings) {
+  React.useEffect(() => {
+    if (!active) return
+
+    let lastActivity = Date.now()
+    const idleMs = idleMinutes * 60 * 1000
+    const markActive = () => {
+      lastActivity = Date.now()
+    }
+    // Timers are throttled in the background, so idle time is also checked on return
+    const checkIdle = () => {
+      if (Date.now() - lastActivity >= idleMs) appLock.lock()
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        if (lockWhenHidden) appLock.lock()
+      } else {
+        checkIdle()
+      }
+    }
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true, capture: true }))
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    const intervalId = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive, { capture: true }))
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      clearInterval(intervalId)
+    }
+  }, [active, idleMinutes, lockWhenHidden])
+}
@@ -0,0 +1,70 @@
+import * as React from "react"
+
+/**
+ * Attach a getUserMedia stream to a video element, stopping it on unmount.
+ * Shared by photo capture and barcode scanning.
+ */
+export function useCameraStream(
+  videoRef: React.RefObject<HTMLVideoElement>,
+  constraints: MediaStreamConstraints,
+  onError?: (error: unknown) => void
+) {
+  const [isLoading, setIsLoading] = React.useState<boolean>(true)
+  const streamRef = React.useRef<MediaStream | null>(null)
+  // Read when the camera starts, so startCamera stays the same function across renders
+  const constraintsRef = React.useRef(constraints)
+  constraintsRef.current = constraints
+  const onErrorRef = React.useRef(onError)
+  onErrorRef.current = onError
+
+  const stopCamera = React.useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+  }, [])
+
+  const startCamera = React.useCallback(async () => {
+    const constraints = constraintsRef.current
+    try {
+      setIsLoading(true)
+      // Never leave a previous stream running; the camera can only be opened once on many phones
+      stopCamera()
+      console.log('📱 Requesting camera with constraints:', constraints)
+      const stream = await navigator.mediaDevices.getUserMedia(constraints)
+
+      const settings = stream.getVideoTracks()[0]?.getSettings()
+      console.log('✅ Camera started with settings:', {
+        width: settings?.width,
+        height: settings?.height,
+        frameRate: settings?.frameRate,
+        facingMode: settings?.facingMode,
+        aspectRatio: settings?.aspectRatio
+      })
+
+      if (!videoRef.current) {
+        // The view went away while permission was pending
+        stream.getTracks().forEach(track => track.stop())
+        return
+      }
+
+      videoRef.current.srcObject = stream
+      streamRef.current = stream
+
+      // Wait for video to load metadata before hiding loading
+      videoRef.current.onloadedmetadata = () => {
+        console.log('📺 Video metadata loaded:', {
+          videoWidth: videoRef.current?.videoWidth,
+          videoHeight: videoRef.current?.videoHeight
+        })
+        setIsLoading(false)
+      }
+    } catch (error) {
+      setIsLoading(false)
+      console.error("❌ Error accessing camera:", error)
+      onErrorRef.current?.(error)
+    }
+  }, [videoRef, stopCamera])
+
+  React.useEffect(() => stopCamera, [stopCamera])
+
+  return { streamRef, isLoading, startCamera, stopCamera }
+}
@@ -0,0 +1,28 @@
+import * as React from "react"
+import { CaptureLocation, LOCATION_OPTIONS, toCaptureLocation } from "@/lib/captureMetadata"
+
+/**
+ * Keep the latest position while enabled, so a photo can be tagged without waiting for GPS.
+ * The ref stays empty when location is denied or unavailable.
+ */
+export function useLocationFix(enabled: boolean) {
+  const locationRef = React.useRef<CaptureLocation | undefined>(undefined)
+
+  React.useEffect(() => {
+    if (!enabled || !("geolocation" in navigator)) {
+      locationRef.current = undefined
+      return
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      position => {
+        locationRef.current = toCaptureLocation(position)
+      },
+      error => console.log("📍 Location unavailable:", error.message),
+      LOCATION_OPTIONS
+    )
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [enabled])
+
+  return locationRef
+}
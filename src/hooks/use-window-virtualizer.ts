@@ -0,0 +1,125 @@
+import * as React from "react"
+
+interface WindowVirtualizerOptions {
+  // One stable key per item, in display order
+  keys: string[]
+  // Height guess for items that haven't been rendered yet
+  estimateSize: number
+  // Extra pixels rendered above and below the viewport
+  overscan?: number
+}
+
+export interface VirtualItem {
+  index: number
+  key: string
+  start: number
+}
+
+/**
+ * Render only the items of a long list that are near the viewport, for lists
+ * that scroll with the page. Item heights may vary: each rendered item is
+ * measured and remembered by key, so filtering and re-sorting keep their sizes.
+ */
+export function useWindowVirtualizer<T extends HTMLElement>({
+  keys,
+  estimateSize,
+  overscan = 800
+}: WindowVirtualizerOptions) {
+  const containerRef = React.useRef<T>(null)
+  const observerRef = React.useRef<ResizeObserver | null>(null)
+  const [sizes, setSizes] = React.useState<Map<string, number>>(() => new Map())
+  const [viewport, setViewport] = React.useState({ top: 0, height: window.innerHeight })
+
+  // Track where the viewport sits relative to the top of the list
+  React.useEffect(() => {
+    let frame: number | null = null
+    const update = () => {
+      frame = null
+      const containerTop = containerRef.current?.getBoundingClientRect().top ?? 0
+      setViewport({ top: -containerTop, height: window.innerHeight })
+    }
+    const onScroll = () => {
+      if (frame === null) frame = requestAnimationFrame(update)
+    }
+
+    update()
+    window.addEventListener("scroll", onScroll, { passive: true })
+    window.addEventListener("resize", onScroll)
+    return () => {
+      window.removeEventListener("scroll", onScroll)
+      window.removeEventListener("resize", onScroll)
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [])
+
+  // Created on first use, since item refs attach before effects run
+  const getObserver = React.useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        const measured: [string, number][] = []
+        entries.forEach(entry => {
+          const element = entry.target as HTMLElement
+          // Items scrolled out of range report a zero size as they are removed
+          if (!element.isConnected) {
+            observerRef.current?.unobserve(element)
+            return
+          }
+          const key = element.dataset.virtualKey
+          if (key) measured.push([key, entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height])
+        })
+
+        setSizes(current => {
+          const changed = measured.filter(([key, height]) => current.get(key) !== height)
+          if (changed.length === 0) return current
+          const next = new Map(current)
+          changed.forEach(([key, height]) => next.set(key, height))
+          return next
+        })
+      })
+    }
+    return observerRef.current
+  }, [])
+
+  React.useEffect(() => () => {
+    observerRef.current?.disconnect()
+    observerRef.current = null
+  }, [])
+
+  const { starts, totalSize } = React.useMemo(() => {
+    const starts: number[] = []
+    let offset = 0
+    keys.forEach(key => {
+      starts.push(offset)
+      offset += sizes.get(key) ?? estimateSize
+    })
+    return { starts, totalSize: offset }
+  }, [keys, sizes, estimateSize])
+
+  const items = React.useMemo<VirtualItem[]>(() => {
+    const from = viewport.top - overscan
+    const to = viewport.top + viewport.height + overscan
+
+    // Binary search for the first item that ends below the top of the window
+    let low = 0
+    let high = keys.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      const end = starts[mid] + (sizes.get(keys[mid]) ?? estimateSize)
+      if (end < from) low = mid + 1
+      else high = mid
+    }
+
+    const visible: VirtualItem[] = []
+    for (let index = low; index < keys.length && starts[index] <= to; index++) {
+      visible.push({ index, key: keys[index], start: starts[index] })
+    }
+    return visible
+  }, [keys, starts, sizes, viewport, overscan, estimateSize])
+
+  // Attach to each rendered item (with a data-virtual-key) so its real height replaces the estimate
+  const measureElement = React.useCallback((element: HTMLElement | null) => {
+    if (element) getObserver().observe(element)
+  }, [getObserver])
+
+  return { containerRef, items, totalSize, measureElement }
+}
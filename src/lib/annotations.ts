@@ -0,0 +1,130 @@
+/**
+ * Photo Annotations
+ * Damage notes, categories and drawn markup layered over a photo.
+ * Markup coordinates are normalized (0-1) so they apply at any image resolution.
+ */
+
+export type DamageCategory = 'crushed-corner' | 'torn-wrap' | 'leaning' | 'wet' | 'missing-label';
+
+export const DAMAGE_CATEGORIES: { id: DamageCategory; label: string }[] = [
+  { id: 'crushed-corner', label: 'Crushed corner' },
+  { id: 'torn-wrap', label: 'Torn wrap' },
+  { id: 'leaning', label: 'Leaning' },
+  { id: 'wet', label: 'Wet' },
+  { id: 'missing-label', label: 'Missing label' }
+];
+
+export type MarkupTool = 'circle' | 'arrow';
+
+export interface MarkupShape {
+  type: MarkupTool;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PhotoAnnotation {
+  notes: string;
+  damageCategories: DamageCategory[];
+  markup: MarkupShape[];
+}
+
+const MARKUP_COLOR = '#ef4444';
+
+export const emptyAnnotation = (): PhotoAnnotation => ({ notes: '', damageCategories: [], markup: [] });
+
+export const hasAnnotation = (annotation?: PhotoAnnotation): annotation is PhotoAnnotation =>
+  !!annotation && (annotation.notes.trim().length > 0 || annotation.damageCategories.length > 0 || annotation.markup.length > 0);
+
+export const getDamageLabel = (category: DamageCategory): string =>
+  DAMAGE_CATEGORIES.find(entry => entry.id === category)?.label || category;
+
+/**
+ * One-line summary such as "Crushed corner, Wet"
+ */
+export const describeAnnotation = (annotation?: PhotoAnnotation): string =>
+  annotation ? annotation.damageCategories.map(getDamageLabel).join(', ') : '';
+
+/**
+ * Draw markup shapes onto a canvas of the given pixel size
+ */
+export const drawMarkup = (ctx: CanvasRenderingContext2D, markup: MarkupShape[], width: number, height: number): void => {
+  const lineWidth = Math.max(2, Math.min(width, height) * 0.008);
+  ctx.save();
+  ctx.strokeStyle = MARKUP_COLOR;
+  ctx.fillStyle = MARKUP_COLOR;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  markup.forEach(shape => {
+    const x1 = shape.x1 * width;
+    const y1 = shape.y1 * height;
+    const x2 = shape.x2 * width;
+    const y2 = shape.y2 * height;
+
+    if (shape.type === 'circle') {
+      ctx.beginPath();
+      ctx.ellipse((x1 + x2) / 2, (y1 + y2) / 2, Math.abs(x2 - x1) / 2, Math.abs(y2 - y1) / 2, 0, 0, Math.PI * 2);
+      ctx.stroke();
+    } else {
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const headLength = lineWidth * 5;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(x2, y2);
+      ctx.lineTo(x2 - headLength * Math.cos(angle - Math.PI / 6), y2 - headLength * Math.sin(angle - Math.PI / 6));
+      ctx.lineTo(x2 - headLength * Math.cos(angle + Math.PI / 6), y2 - headLength * Math.sin(angle + Math.PI / 6));
+      ctx.closePath();
+      ctx.fill();
+    }
+  });
+
+  ctx.restore();
+};
+
+/**
+ * Render a copy of the photo with markup burned in and a caption bar listing damage and notes.
+ * The stored original is never modified.
+ */
+export const renderAnnotatedImage = async (source: string | Blob, annotation: PhotoAnnotation): Promise<Blob> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+
+  const caption = [describeAnnotation(annotation), annotation.notes.trim()].filter(Boolean).join(' - ');
+  const fontSize = Math.max(16, Math.round(width * 0.022));
+  const captionHeight = caption ? Math.round(fontSize * 2.2) : 0;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height + captionHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas context not available');
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  drawMarkup(ctx, annotation.markup, width, height);
+
+  if (caption) {
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, height, width, captionHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(caption, fontSize * 0.6, height + captionHeight / 2, width - fontSize * 1.2);
+  }
+
+  // The copy keeps the original's format so exports and uploads name both the same way
+  const mimeType = ['image/png', 'image/webp'].includes(blob.type) ? blob.type : 'image/jpeg';
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Image encoding failed'))), mimeType, 0.92);
+  });
+};
@@ -0,0 +1,258 @@
+/**
+ * App Lock
+ * Optional PIN that hides the app on shared devices until it is entered. Only a salted
+ * PBKDF2 hash of the PIN is kept, and wrong guesses are rate-limited across reloads.
+ */
+
+import { secureError, secureGetItem, secureSetItem, validateAppPin } from '@/lib/security';
+import { DecryptionError, fromBase64, toBase64 } from '@/lib/encryption';
+import { clearDatabase } from '@/lib/db';
+
+export interface AppLockSettings {
+  // Minutes without a tap or key press before the app locks
+  idleMinutes: number;
+  // Lock as soon as the app is switched away from or the screen turns off
+  lockWhenHidden: boolean;
+}
+
+export const IDLE_LOCK_OPTIONS = [1, 2, 5, 10, 15, 30];
+
+export const DEFAULT_APP_LOCK: AppLockSettings = {
+  idleMinutes: 5,
+  lockWhenHidden: true
+};
+
+export interface AppLockState {
+  // A PIN is set on this device
+  enabled: boolean;
+  locked: boolean;
+  // The stored PIN can't be read, so no PIN opens the app until its data is erased
+  unreadable: boolean;
+}
+
+/**
+ * Outcome of checking a PIN. `blockedUntil` is set while further guesses are refused.
+ */
+export interface PinCheckResult {
+  ok: boolean;
+  attemptsLeft?: number;
+  blockedUntil?: number;
+  unreadable?: boolean;
+}
+
+interface StoredLock {
+  salt: string;
+  hash: string;
+  iterations: number;
+  failedAttempts: number;
+  blockedUntil: number;
+}
+
+const LOCK_KEY = 'pallet_app_lock';
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+// Wrong guesses allowed before each further one has to wait, doubling up to the maximum
+const FREE_ATTEMPTS = 5;
+const BASE_BLOCK_MS = 30 * 1000;
+const MAX_BLOCK_MS = 15 * 60 * 1000;
+
+const derivePinHash = async (pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  return new Uint8Array(bits);
+};
+
+// Compare every byte so the time taken doesn't hint at how much of the hash matched
+const isSameHash = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  a.forEach((byte, index) => {
+    difference |= byte ^ b[index];
+  });
+  return difference === 0;
+};
+
+const blockDuration = (failedAttempts: number): number =>
+  failedAttempts < FREE_ATTEMPTS ? 0 : Math.min(BASE_BLOCK_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_BLOCK_MS);
+
+class AppLock {
+  // A stored PIN means the app starts locked, before the record has even been decrypted
+  private state: AppLockState = {
+    enabled: localStorage.getItem(LOCK_KEY) !== null,
+    locked: localStorage.getItem(LOCK_KEY) !== null,
+    unreadable: false
+  };
+  private listeners: Set<(state: AppLockState) => void> = new Set();
+  private initPromise: Promise<void> | null = null;
+
+  getState(): AppLockState {
+    return this.state;
+  }
+
+  /**
+   * Listen for the app being locked, unlocked, or the PIN being set or removed. Returns an unsubscribe function.
+   */
+  subscribe(listener: (state: AppLockState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Confirm the stored PIN can be read. One that can't keeps the app locked, and only
+   * erasing this device's data opens it again.
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.readLock()
+        .then(stored => {
+          if (!stored && this.state.enabled) {
+            this.setState({ enabled: false, locked: false, unreadable: false });
+          }
+        })
+        .catch(error => {
+          if (error instanceof DecryptionError) {
+            this.markUnreadable();
+            return;
+          }
+          // Anything else keeps the app locked; the PIN is checked again on each attempt
+          secureError('Error reading app lock', error);
+        });
+    }
+    return this.initPromise;
+  }
+
+  lock(): void {
+    if (this.state.enabled && !this.state.locked) {
+      this.setState({ ...this.state, locked: true });
+    }
+  }
+
+  async unlock(pin: string): Promise<PinCheckResult> {
+    const result = await this.checkPin(pin);
+    if (result.ok) {
+      this.setState({ ...this.state, locked: false });
+    }
+    return result;
+  }
+
+  /**
+   * Set a new PIN. Changing an existing one needs the current PIN, which counts as a guess.
+   */
+  async setPin(pin: string, currentPin?: string): Promise<PinCheckResult> {
+    const validation = validateAppPin(pin);
+    if (!validation.isValid) {
+      throw new Error(validation.error);
+    }
+    if (this.state.enabled) {
+      const result = await this.checkPin(currentPin ?? '');
+      if (!result.ok) return result;
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await derivePinHash(pin, salt, PBKDF2_ITERATIONS);
+    await this.writeLock({
+      salt: toBase64(salt),
+      hash: toBase64(hash),
+      iterations: PBKDF2_ITERATIONS,
+      failedAttempts: 0,
+      blockedUntil: 0
+    });
+    this.setState({ enabled: true, locked: false, unreadable: false });
+    return { ok: true };
+  }
+
+  async removePin(currentPin: string): Promise<PinCheckResult> {
+    const result = await this.checkPin(currentPin);
+    if (result.ok) {
+      localStorage.removeItem(LOCK_KEY);
+      this.setState({ enabled: false, locked: false, unreadable: false });
+    }
+    return result;
+  }
+
+  /**
+   * The only way past a PIN that can't be read: erase everything the app keeps on this
+   * device, including unsent sessions and the signed-in account, along with the lock
+   */
+  async eraseDevice(): Promise<void> {
+    await clearDatabase();
+    localStorage.clear();
+    this.setState({ enabled: false, locked: false, unreadable: false });
+  }
+
+  private async checkPin(pin: string): Promise<PinCheckResult> {
+    let stored: StoredLock | null;
+    try {
+      stored = await this.readLock();
+    } catch (error) {
+      if (!(error instanceof DecryptionError)) throw error;
+      this.markUnreadable();
+      return { ok: false, unreadable: true };
+    }
+    if (!stored) return { ok: true };
+
+    const now = Date.now();
+    // Clamped so a clock turned back can't stretch a block beyond the longest one
+    const blockedUntil = Math.min(stored.blockedUntil, now + MAX_BLOCK_MS);
+    if (blockedUntil > now) {
+      return { ok: false, blockedUntil };
+    }
+
+    const hash = await derivePinHash(pin, fromBase64(stored.salt), stored.iterations);
+    if (isSameHash(hash, fromBase64(stored.hash))) {
+      if (stored.failedAttempts > 0) {
+        await this.writeLock({ ...stored, failedAttempts: 0, blockedUntil: 0 });
+      }
+      return { ok: true };
+    }
+
+    const failedAttempts = stored.failedAttempts + 1;
+    const block = blockDuration(failedAttempts);
+    const nextBlockedUntil = block > 0 ? Date.now() + block : 0;
+    await this.writeLock({ ...stored, failedAttempts, blockedUntil: nextBlockedUntil });
+    return {
+      ok: false,
+      attemptsLeft: Math.max(FREE_ATTEMPTS - failedAttempts, 0),
+      blockedUntil: nextBlockedUntil || undefined
+    };
+  }
+
+  /**
+   * The stored lock, or null only when no PIN is set. Throws DecryptionError for a record
+   * that is there but can't be read, so it never counts as no PIN.
+   */
+  private async readLock(): Promise<StoredLock | null> {
+    if (localStorage.getItem(LOCK_KEY) === null) return null;
+
+    const stored = await secureGetItem(LOCK_KEY, { upgradeLegacy: false });
+    if (!stored || typeof stored.salt !== 'string' || typeof stored.hash !== 'string') {
+      throw new DecryptionError('Stored app lock is not valid');
+    }
+    return {
+      salt: stored.salt,
+      hash: stored.hash,
+      iterations: typeof stored.iterations === 'number' ? stored.iterations : PBKDF2_ITERATIONS,
+      failedAttempts: typeof stored.failedAttempts === 'number' ? stored.failedAttempts : 0,
+      blockedUntil: typeof stored.blockedUntil === 'number' ? stored.blockedUntil : 0
+    };
+  }
+
+  private markUnreadable(): void {
+    secureError('Stored app lock could not be read');
+    this.setState({ enabled: true, locked: true, unreadable: true });
+  }
+
+  private writeLock(lock: StoredLock): Promise<void> {
+    return secureSetItem(LOCK_KEY, lock);
+  }
+
+  private setState(state: AppLockState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Singleton instance
+export const appLock = new AppLock();
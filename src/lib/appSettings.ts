@@ -0,0 +1,80 @@
+/**
+ * App Settings
+ * Per-device preferences, kept in local storage
+ */
+
+import { secureError, secureGetItem, secureSetItem } from '@/lib/security';
+import { DEFAULT_IMAGE_OUTPUT, IMAGE_FORMATS, IMAGE_MAX_EDGE_OPTIONS, IMAGE_QUALITY_OPTIONS, ImageOutputSettings } from '@/lib/imageOutput';
+import { DEFAULT_WATERMARK, WATERMARK_OPACITY_OPTIONS, WATERMARK_POSITIONS, WATERMARK_SIZES, WatermarkSettings } from '@/lib/watermark';
+import { AppLockSettings, DEFAULT_APP_LOCK, IDLE_LOCK_OPTIONS } from '@/lib/appLock';
+
+export interface AppSettings {
+  // Days a saved session stays on this device before it is deleted
+  retentionDays: number;
+  // Keep expired sessions until every photo is confirmed uploaded
+  expireOnlyWhenSynced: boolean;
+  // How new photos are encoded
+  imageOutput: ImageOutputSettings;
+  // Tag new photos with the device's GPS position
+  recordLocation: boolean;
+  // Stamp shared and downloaded copies with the session and slot
+  watermark: WatermarkSettings;
+  // When the app locks itself, if a PIN is set
+  appLock: AppLockSettings;
+}
+
+export const RETENTION_DAY_OPTIONS = [7, 14, 30, 60, 90];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  retentionDays: 7,
+  expireOnlyWhenSynced: false,
+  imageOutput: DEFAULT_IMAGE_OUTPUT,
+  recordLocation: true,
+  watermark: DEFAULT_WATERMARK,
+  appLock: DEFAULT_APP_LOCK
+};
+
+const SETTINGS_KEY = 'pallet_settings';
+
+const loadImageOutput = (stored?: Partial<ImageOutputSettings> | null): ImageOutputSettings => ({
+  format: IMAGE_FORMATS.find(entry => entry.id === stored?.format)?.id ?? DEFAULT_IMAGE_OUTPUT.format,
+  quality: IMAGE_QUALITY_OPTIONS.find(entry => entry.value === stored?.quality)?.value ?? DEFAULT_IMAGE_OUTPUT.quality,
+  maxEdge: IMAGE_MAX_EDGE_OPTIONS.find(entry => entry.value === stored?.maxEdge)?.value ?? DEFAULT_IMAGE_OUTPUT.maxEdge
+});
+
+const loadWatermark = (stored?: Partial<WatermarkSettings> | null): WatermarkSettings => ({
+  enabled: typeof stored?.enabled === 'boolean' ? stored.enabled : DEFAULT_WATERMARK.enabled,
+  position: WATERMARK_POSITIONS.find(entry => entry.id === stored?.position)?.id ?? DEFAULT_WATERMARK.position,
+  size: WATERMARK_SIZES.find(entry => entry.id === stored?.size)?.id ?? DEFAULT_WATERMARK.size,
+  opacity: WATERMARK_OPACITY_OPTIONS.find(entry => entry.value === stored?.opacity)?.value ?? DEFAULT_WATERMARK.opacity
+});
+
+const loadAppLock = (stored?: Partial<AppLockSettings> | null): AppLockSettings => ({
+  idleMinutes: IDLE_LOCK_OPTIONS.find(minutes => minutes === stored?.idleMinutes) ?? DEFAULT_APP_LOCK.idleMinutes,
+  lockWhenHidden: typeof stored?.lockWhenHidden === 'boolean' ? stored.lockWhenHidden : DEFAULT_APP_LOCK.lockWhenHidden
+});
+
+/**
+ * Saved settings over the defaults, ignoring anything that doesn't validate
+ */
+export const loadSettings = async (): Promise<AppSettings> => {
+  // Settings that can't be decrypted fall back to the defaults rather than blocking the app
+  const stored = await secureGetItem(SETTINGS_KEY).catch(error => {
+    secureError('Error reading settings', error);
+    return null;
+  });
+  if (!stored || typeof stored !== 'object') {
+    return DEFAULT_SETTINGS;
+  }
+
+  return {
+    retentionDays: RETENTION_DAY_OPTIONS.includes(stored.retentionDays) ? stored.retentionDays : DEFAULT_SETTINGS.retentionDays,
+    expireOnlyWhenSynced: typeof stored.expireOnlyWhenSynced === 'boolean' ? stored.expireOnlyWhenSynced : DEFAULT_SETTINGS.expireOnlyWhenSynced,
+    imageOutput: loadImageOutput(stored.imageOutput),
+    recordLocation: typeof stored.recordLocation === 'boolean' ? stored.recordLocation : DEFAULT_SETTINGS.recordLocation,
+    watermark: loadWatermark(stored.watermark),
+    appLock: loadAppLock(stored.appLock)
+  };
+};
+
+export const saveSettings = (settings: AppSettings): Promise<void> => secureSetItem(SETTINGS_KEY, settings);
@@ -0,0 +1,215 @@
+/**
+ * Barcode Scanner
+ * Decodes Code 128 (including GS1-128) and QR codes from a live video element, entirely in the browser.
+ * Uses the native BarcodeDetector where available and falls back to ZXing, loaded on first use.
+ */
+
+// Group separator (FNC1) that terminates variable-length GS1 fields
+const GS = '\u001d';
+
+// AIM symbology identifiers some decoders prefix to GS1 data (GS1-128, GS1 QR, GS1 DataMatrix)
+const SYMBOLOGY_ID = /^\](C1|Q3|d2)/;
+
+// Native detector format names
+const NATIVE_FORMATS = ['code_128', 'qr_code'];
+
+// Frames are downscaled before software decoding to keep each pass fast on phones
+const MAX_DECODE_WIDTH = 1280;
+
+export interface ScanResult {
+  raw: string;
+  // GS1 application identifiers found in the code, keyed by AI, e.g. { '00': '...', '400': '...' }
+  gs1: Record<string, string>;
+}
+
+export interface BarcodeDecoder {
+  // Resolves to the decoded text, or null when no code is in the frame
+  decode(video: HTMLVideoElement): Promise<string | null>;
+}
+
+// Not yet in the DOM typings
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string; format: string }[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+// Fixed-length GS1 application identifiers (data length, excluding the AI)
+const GS1_FIXED_LENGTHS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14,
+  '11': 6, '12': 6, '13': 6, '15': 6, '16': 6, '17': 6,
+  '20': 2
+};
+
+// Variable-length identifiers this app understands
+const GS1_VARIABLE = ['10', '21', '37', '400', '401', '420'];
+
+// Weights and dimensions (31nn-36nn) are a 4-digit AI followed by 6 digits
+const isMeasureAi = (code: string): boolean => /^3[1-6]\d\d$/.test(code);
+
+const parseElementString = (data: string): { fields: Record<string, string>; complete: boolean } => {
+  const fields: Record<string, string> = {};
+  let position = 0;
+
+  while (position < data.length) {
+    const twoDigit = data.slice(position, position + 2);
+    const threeDigit = data.slice(position, position + 3);
+    const fourDigit = data.slice(position, position + 4);
+
+    let ai: string;
+    let length: number | null;
+    if (GS1_FIXED_LENGTHS[twoDigit] !== undefined) {
+      ai = twoDigit;
+      length = GS1_FIXED_LENGTHS[twoDigit];
+    } else if (isMeasureAi(fourDigit)) {
+      ai = fourDigit;
+      length = 6;
+    } else if (GS1_VARIABLE.includes(threeDigit)) {
+      ai = threeDigit;
+      length = null;
+    } else if (GS1_VARIABLE.includes(twoDigit)) {
+      ai = twoDigit;
+      length = null;
+    } else {
+      // Unknown identifier; we can't tell where it ends, so stop here
+      return { fields, complete: false };
+    }
+
+    position += ai.length;
+    if (length !== null) {
+      const value = data.slice(position, position + length);
+      if (value.length !== length || !/^\d+$/.test(value)) {
+        return { fields, complete: false };
+      }
+      fields[ai] = value;
+      position += length;
+      if (data[position] === GS) position++;
+    } else {
+      const end = data.indexOf(GS, position);
+      fields[ai] = data.slice(position, end === -1 ? undefined : end);
+      position = end === -1 ? data.length : end + 1;
+    }
+  }
+
+  return { fields, complete: true };
+};
+
+/**
+ * Parse GS1 element strings in either raw form ("]C1" + FNC1 separators) or
+ * human-readable form ("(00)123...(400)PO-1"). Returns an empty object for non-GS1 codes.
+ */
+export const parseGs1 = (text: string): Record<string, string> => {
+  // Human-readable form
+  if (text.startsWith('(')) {
+    const fields: Record<string, string> = {};
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      fields[match[1]] = match[2].trim();
+    }
+    return fields;
+  }
+
+  const withoutSymbologyId = text.replace(SYMBOLOGY_ID, '');
+  const startsWithFnc1 = withoutSymbologyId.startsWith(GS);
+  const isMarkedGs1 = withoutSymbologyId !== text || startsWithFnc1;
+  const { fields: parsed, complete } = parseElementString(startsWithFnc1 ? withoutSymbologyId.slice(1) : withoutSymbologyId);
+
+  // Some detectors drop the GS1 marker; only trust unmarked codes that parse cleanly into a pallet field
+  return isMarkedGs1 || (complete && (parsed['00'] || parsed['400'])) ? parsed : {};
+};
+
+export const toScanResult = (raw: string): ScanResult => ({ raw, gs1: parseGs1(raw) });
+
+// Scanned text with the symbology prefix and FNC1 separators removed, for use as a plain value
+const toPlainText = (raw: string): string => raw.replace(SYMBOLOGY_ID, '').split(GS).join('').trim();
+
+/**
+ * Value to use for the PO field: GS1 AI 400 (customer's purchase order) when present
+ */
+export const getScannedPoNumber = (result: ScanResult): string =>
+  result.gs1['400'] || toPlainText(result.raw);
+
+/**
+ * Value to use for a pallet ID: the SSCC (AI 00) when present
+ */
+export const getScannedPalletId = (result: ScanResult): string =>
+  result.gs1['00'] || toPlainText(result.raw);
+
+const getNativeDetector = async (): Promise<NativeBarcodeDetector | null> => {
+  const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+
+  try {
+    const supported = await Detector.getSupportedFormats();
+    const formats = NATIVE_FORMATS.filter(format => supported.includes(format));
+    // Only use the native detector when it covers every format we need
+    return formats.length === NATIVE_FORMATS.length ? new Detector({ formats }) : null;
+  } catch {
+    return null;
+  }
+};
+
+const createZxingDecoder = async (): Promise<BarcodeDecoder> => {
+  const {
+    BarcodeFormat,
+    BinaryBitmap,
+    DecodeHintType,
+    HTMLCanvasElementLuminanceSource,
+    HybridBinarizer,
+    MultiFormatReader
+  } = await import('@zxing/library');
+
+  const reader = new MultiFormatReader();
+  const hints = new Map<number, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.CODE_128, BarcodeFormat.QR_CODE]],
+    [DecodeHintType.TRY_HARDER, true],
+    // Prefix GS1-128 codes with "]C1" so they can be told apart from plain Code 128
+    [DecodeHintType.ASSUME_GS1, true]
+  ]);
+  reader.setHints(hints);
+
+  const canvas = document.createElement('canvas');
+
+  return {
+    async decode(video: HTMLVideoElement) {
+      if (!video.videoWidth || !video.videoHeight) return null;
+
+      const scale = Math.min(1, MAX_DECODE_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return null;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      try {
+        const bitmap = new BinaryBitmap(new HybridBinarizer(new HTMLCanvasElementLuminanceSource(canvas)));
+        return reader.decodeWithState(bitmap).getText();
+      } catch {
+        // ZXing throws when the frame has no readable code
+        return null;
+      }
+    }
+  };
+};
+
+/**
+ * Pick the best available decoder for this browser
+ */
+export const createBarcodeDecoder = async (): Promise<BarcodeDecoder> => {
+  const detector = await getNativeDetector();
+  if (detector) {
+    return {
+      async decode(video: HTMLVideoElement) {
+        if (!video.videoWidth) return null;
+        const codes = await detector.detect(video);
+        return codes[0]?.rawValue || null;
+      }
+    };
+  }
+
+  return createZxingDecoder();
+};
@@ -0,0 +1,156 @@
+/**
+ * Capture Metadata
+ * When, where and with what each photo was taken, kept as evidence for carrier disputes
+ */
+
+export interface CaptureLocation {
+  latitude: number;
+  longitude: number;
+  // Radius in metres the position is accurate to, as reported by the browser
+  accuracy: number;
+  altitude?: number;
+  recordedAt: number;
+}
+
+export interface CaptureDevice {
+  // Empty when the browser doesn't report a model
+  model: string;
+  platform: string;
+  userAgent: string;
+}
+
+// Values from MediaStreamTrack.getSettings(); only those the browser reports are kept
+export interface CameraSettings {
+  deviceLabel?: string;
+  facingMode?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  focusMode?: string;
+  whiteBalanceMode?: string;
+  exposureMode?: string;
+  iso?: number;
+  zoom?: number;
+  torch?: boolean;
+  // Largest still the camera offers, from getPhotoCapabilities()
+  maxImageWidth?: number;
+  maxImageHeight?: number;
+}
+
+export interface CaptureMetadata {
+  capturedAt: number;
+  location?: CaptureLocation;
+  device: CaptureDevice;
+  camera: CameraSettings;
+  // As shown in the Photo Info overlay
+  resolution: string;
+  method: string;
+  format: string;
+  fileSize: number;
+}
+
+export const LOCATION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  // A fix this recent is as good as a new one for a pallet that isn't moving
+  maximumAge: 30000
+};
+
+export const toCaptureLocation = ({ coords, timestamp }: GeolocationPosition): CaptureLocation => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+  accuracy: coords.accuracy,
+  altitude: coords.altitude ?? undefined,
+  recordedAt: timestamp
+});
+
+interface UserAgentData {
+  platform?: string;
+  getHighEntropyValues?: (hints: string[]) => Promise<{ model?: string; platform?: string; platformVersion?: string }>;
+}
+
+// Android user agents name the model before the build ID, e.g. "Android 14; Pixel 8 Build/..."
+const modelFromUserAgent = (userAgent: string): string => {
+  const android = userAgent.match(/Android [^;)]+;\s*([^;)]+?)(?:\s+Build\/|\))/);
+  if (android) return android[1].trim();
+  const apple = userAgent.match(/\((iPhone|iPad|iPod)/);
+  return apple ? apple[1] : '';
+};
+
+/**
+ * Model and platform of this device, using client hints where the browser offers them
+ */
+export const getDeviceInfo = async (): Promise<CaptureDevice> => {
+  const userAgent = navigator.userAgent;
+  const userAgentData = (navigator as Navigator & { userAgentData?: UserAgentData }).userAgentData;
+  let model = modelFromUserAgent(userAgent);
+  let platform = userAgentData?.platform || navigator.platform || '';
+
+  if (userAgentData?.getHighEntropyValues) {
+    try {
+      const hints = await userAgentData.getHighEntropyValues(['model', 'platform', 'platformVersion']);
+      model = hints.model || model;
+      platform = [hints.platform || platform, hints.platformVersion].filter(Boolean).join(' ');
+    } catch {
+      // Hints are optional; the user agent is enough
+    }
+  }
+
+  return { model, platform, userAgent };
+};
+
+/**
+ * What the camera track reports about itself, plus the still capabilities when known
+ */
+export const readCameraSettings = (
+  track: MediaStreamTrack | undefined,
+  capabilities?: { imageWidth?: { max?: number }; imageHeight?: { max?: number } }
+): CameraSettings => {
+  if (!track) return {};
+  // Focus, exposure and the rest are newer fields not yet in the DOM typings
+  const settings = track.getSettings() as MediaTrackSettings & Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+  const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+  return {
+    deviceLabel: text(track.label),
+    facingMode: text(settings.facingMode),
+    width: number(settings.width),
+    height: number(settings.height),
+    frameRate: number(settings.frameRate),
+    focusMode: text(settings.focusMode),
+    whiteBalanceMode: text(settings.whiteBalanceMode),
+    exposureMode: text(settings.exposureMode),
+    iso: number(settings.iso),
+    zoom: number(settings.zoom),
+    torch: typeof settings.torch === 'boolean' ? settings.torch : undefined,
+    maxImageWidth: capabilities?.imageWidth?.max,
+    maxImageHeight: capabilities?.imageHeight?.max
+  };
+};
+
+export const formatLocation = (location: CaptureLocation): string =>
+  `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)} (±${Math.round(location.accuracy)} m)`;
+
+/**
+ * Label/value rows for showing a photo's metadata
+ */
+export const describeCaptureMetadata = (metadata: CaptureMetadata): { label: string; value: string }[] => {
+  const { camera } = metadata;
+  const rows = [
+    { label: 'Captured', value: new Date(metadata.capturedAt).toLocaleString() },
+    { label: 'Location', value: metadata.location ? formatLocation(metadata.location) : 'Not recorded' },
+    { label: 'Device', value: [metadata.device.model, metadata.device.platform].filter(Boolean).join(' · ') || 'Unknown' },
+    { label: 'Camera', value: camera.deviceLabel || camera.facingMode || '' },
+    { label: 'Resolution', value: metadata.resolution },
+    { label: 'Format', value: `${metadata.format}, ${(metadata.fileSize / 1024 / 1024).toFixed(2)}MB` },
+    { label: 'Method', value: metadata.method },
+    { label: 'Stream', value: camera.width && camera.height ? `${camera.width}x${camera.height}${camera.frameRate ? ` @ ${Math.round(camera.frameRate)}fps` : ''}` : '' },
+    { label: 'Focus', value: camera.focusMode || '' },
+    { label: 'Exposure', value: camera.exposureMode || '' },
+    { label: 'White balance', value: camera.whiteBalanceMode || '' },
+    { label: 'ISO', value: camera.iso?.toString() || '' },
+    { label: 'Zoom', value: camera.zoom ? `${camera.zoom}x` : '' }
+  ];
+  return rows.filter(row => row.value);
+};
@@ -0,0 +1,42 @@
+/**
+ * Capture Progress
+ * Which pallet and slot combinations of a session still need a photo
+ */
+
+import type { PalletPhoto } from '@/contexts/PalletContext';
+import { CaptureTemplate } from '@/lib/captureTemplates';
+
+export interface SlotPosition {
+  palletIndex: number;
+  sideIndex: number;
+}
+
+export const findSlotPhoto = (photos: PalletPhoto[], palletIndex: number, sideIndex: number): PalletPhoto | undefined =>
+  photos.find(photo => photo.palletIndex === palletIndex && photo.sideIndex === sideIndex);
+
+/**
+ * Slots without a photo, pallet by pallet in template order
+ */
+export const getEmptySlots = (
+  template: CaptureTemplate,
+  totalPallets: number,
+  photos: PalletPhoto[],
+  requiredOnly: boolean = false
+): SlotPosition[] => {
+  const empty: SlotPosition[] = [];
+  for (let palletIndex = 1; palletIndex <= totalPallets; palletIndex++) {
+    template.slots.forEach((slot, index) => {
+      if (requiredOnly && !slot.required) return;
+      if (!findSlotPhoto(photos, palletIndex, index + 1)) {
+        empty.push({ palletIndex, sideIndex: index + 1 });
+      }
+    });
+  }
+  return empty;
+};
+
+/**
+ * Required slots that still need a photo before the session can be completed
+ */
+export const getMissingRequiredSlots = (template: CaptureTemplate, totalPallets: number, photos: PalletPhoto[]): SlotPosition[] =>
+  getEmptySlots(template, totalPallets, photos, true);
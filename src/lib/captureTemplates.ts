@@ -0,0 +1,78 @@
+/**
+ * Capture Templates
+ * Named, ordered shot slots that drive what gets photographed for each pallet
+ */
+
+export interface CaptureSlot {
+  id: string;
+  name: string;
+  required: boolean;
+}
+
+export interface CaptureTemplate {
+  id: string;
+  name: string;
+  slots: CaptureSlot[];
+}
+
+export const DEFAULT_TEMPLATE_ID = 'four-sides';
+
+const sideSlots = (): CaptureSlot[] =>
+  [1, 2, 3, 4].map(side => ({ id: `side-${side}`, name: `Side ${side}`, required: true }));
+
+export const CAPTURE_TEMPLATES: CaptureTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: '4 sides',
+    slots: sideSlots()
+  },
+  {
+    id: 'four-sides-top',
+    name: '4 sides + top',
+    slots: [
+      ...sideSlots(),
+      { id: 'top', name: 'Top', required: true }
+    ]
+  },
+  {
+    id: 'receiving-dock',
+    name: 'Receiving dock',
+    slots: [
+      ...sideSlots(),
+      { id: 'top', name: 'Top', required: true },
+      { id: 'label', name: 'Label close-up', required: true },
+      { id: 'damage', name: 'Damage', required: false }
+    ]
+  }
+];
+
+/**
+ * Look up a template by ID, falling back to the default four-side template
+ */
+export const getCaptureTemplate = (templateId?: string): CaptureTemplate => {
+  return CAPTURE_TEMPLATES.find(template => template.id === templateId) || CAPTURE_TEMPLATES[0];
+};
+
+/**
+ * Get the slot for a 1-based side index
+ */
+export const getSlot = (template: CaptureTemplate, sideIndex: number): CaptureSlot | undefined => {
+  return template.slots[sideIndex - 1];
+};
+
+/**
+ * Human-readable label for a 1-based side index
+ */
+export const getSlotLabel = (template: CaptureTemplate | undefined, sideIndex: number): string => {
+  const slot = template ? getSlot(template, sideIndex) : undefined;
+  return slot ? slot.name : `Side ${sideIndex}`;
+};
+
+/**
+ * Short summary of a template's slots for pickers
+ */
+export const describeTemplate = (template: CaptureTemplate): string => {
+  return template.slots
+    .map(slot => (slot.required ? slot.name : `${slot.name} (optional)`))
+    .join(', ');
+};
@@ -0,0 +1,262 @@
+/**
+ * Customer Directory
+ * Customers seen in past sessions or entered by hand, with per-customer defaults.
+ * Stored in IndexedDB and optionally mirrored to a Supabase table for the signed-in driver.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PalletSession } from '@/contexts/PalletContext';
+import { getCaptureTemplate } from '@/lib/captureTemplates';
+import { openDatabase, requestToPromise, transactionDone, CUSTOMERS_STORE } from '@/lib/db';
+import { sanitizeInput, secureError } from '@/lib/security';
+
+export interface CustomerDefaults {
+  wrapStatus?: 'unwrapped' | 'wrapped';
+  palletCount?: number;
+  templateId?: string;
+}
+
+export interface CustomerRecord {
+  // Normalized name, so "ACME Foods " and "acme foods" are one customer
+  key: string;
+  name: string;
+  defaults: CustomerDefaults;
+  // Learned defaults follow the latest session; manual ones are only changed by hand
+  defaultsSource: 'learned' | 'manual';
+  lastUsedAt: number;
+  updatedAt: number;
+  syncedAt?: number;
+  // Removed by the user; kept so past sessions don't bring the customer back
+  hidden?: boolean;
+}
+
+interface RemoteCustomerRow {
+  key: string;
+  name: string;
+  default_wrap_status: 'unwrapped' | 'wrapped' | null;
+  default_pallet_count: number | null;
+  default_template_id: string | null;
+  defaults_source: 'learned' | 'manual';
+  hidden: boolean;
+  last_used_at: string;
+  updated_at: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const customerKey = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Customers matching what has been typed, best matches first: prefix matches,
+ * then word-start matches, then anything containing the text; ties go to the most recently used
+ */
+export const searchCustomers = (customers: CustomerRecord[], query: string, limit = MAX_SUGGESTIONS): CustomerRecord[] => {
+  const needle = customerKey(query);
+  const rank = (customer: CustomerRecord): number => {
+    if (!needle) return 0;
+    if (customer.key.startsWith(needle)) return 0;
+    if (customer.key.split(' ').some(word => word.startsWith(needle))) return 1;
+    return customer.key.includes(needle) ? 2 : -1;
+  };
+
+  return customers
+    .map(customer => ({ customer, score: rank(customer) }))
+    .filter(entry => entry.score >= 0)
+    .sort((a, b) => a.score - b.score || b.customer.lastUsedAt - a.customer.lastUsedAt)
+    .slice(0, limit)
+    .map(entry => entry.customer);
+};
+
+/**
+ * Short summary of a customer's defaults, e.g. "6 pallet(s) · 4 sides + top · Wrapped"
+ */
+export const describeCustomerDefaults = (customer: CustomerRecord): string => {
+  const { wrapStatus, palletCount, templateId } = customer.defaults;
+  return [
+    palletCount && `${palletCount} pallet(s)`,
+    templateId && getCaptureTemplate(templateId).name,
+    wrapStatus && wrapStatus.charAt(0).toUpperCase() + wrapStatus.slice(1)
+  ].filter(Boolean).join(' · ');
+};
+
+const fromRemote = (row: RemoteCustomerRow): CustomerRecord => ({
+  key: row.key,
+  name: row.name,
+  defaults: {
+    wrapStatus: row.default_wrap_status || undefined,
+    palletCount: row.default_pallet_count ?? undefined,
+    templateId: row.default_template_id || undefined
+  },
+  defaultsSource: row.defaults_source,
+  hidden: row.hidden || undefined,
+  lastUsedAt: new Date(row.last_used_at).getTime(),
+  updatedAt: new Date(row.updated_at).getTime(),
+  syncedAt: Date.now()
+});
+
+class CustomerDirectory {
+  /**
+   * Every record, including hidden ones, most recently used first
+   */
+  async list(): Promise<CustomerRecord[]> {
+    const db = await openDatabase();
+    const customers = await requestToPromise<CustomerRecord[]>(
+      db.transaction(CUSTOMERS_STORE, 'readonly').objectStore(CUSTOMERS_STORE).getAll()
+    );
+    return customers.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  /**
+   * Customers to offer in pickers, leaving out removed ones
+   */
+  async listVisible(): Promise<CustomerRecord[]> {
+    return (await this.list()).filter(customer => !customer.hidden);
+  }
+
+  private async putAll(customers: CustomerRecord[]): Promise<void> {
+    if (customers.length === 0) return;
+    const db = await openDatabase();
+    const transaction = db.transaction(CUSTOMERS_STORE, 'readwrite');
+    const store = transaction.objectStore(CUSTOMERS_STORE);
+    customers.forEach(customer => store.put(customer));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Add or edit a customer by hand. Renaming moves the record to its new key.
+   */
+  async save(name: string, defaults: CustomerDefaults, previousKey?: string): Promise<CustomerRecord> {
+    const cleanName = sanitizeInput(name);
+    const key = customerKey(cleanName);
+    const existing = await this.get(previousKey || key);
+    const now = Date.now();
+
+    const record: CustomerRecord = {
+      key,
+      name: cleanName,
+      defaults,
+      defaultsSource: 'manual',
+      lastUsedAt: existing?.lastUsedAt || now,
+      updatedAt: now
+    };
+
+    await this.putAll([record]);
+    if (previousKey && previousKey !== key) {
+      await this.remove(previousKey);
+    }
+    return record;
+  }
+
+  async remove(key: string): Promise<void> {
+    const existing = await this.get(key);
+    if (existing) {
+      await this.putAll([{ ...existing, hidden: true, updatedAt: Date.now() }]);
+    }
+  }
+
+  private async get(key: string): Promise<CustomerRecord | null> {
+    const db = await openDatabase();
+    const record = await requestToPromise<CustomerRecord | undefined>(
+      db.transaction(CUSTOMERS_STORE, 'readonly').objectStore(CUSTOMERS_STORE).get(key)
+    );
+    return record || null;
+  }
+
+  /**
+   * Learn customers and their defaults from saved sessions. Safe to call repeatedly:
+   * a session only counts if it is newer than what the directory already knows.
+   */
+  async recordSessions(sessions: PalletSession[]): Promise<void> {
+    const existing = new Map((await this.list()).map(customer => [customer.key, customer]));
+    const changed = new Map<string, CustomerRecord>();
+
+    [...sessions]
+      .filter(session => session.customerName)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(session => {
+        const key = customerKey(session.customerName);
+        const current = changed.get(key) || existing.get(key);
+        if (current && current.lastUsedAt >= session.timestamp) return;
+
+        const learned: CustomerDefaults = {
+          wrapStatus: session.wrapStatus,
+          palletCount: session.totalPallets,
+          templateId: session.captureTemplate?.id
+        };
+
+        // A customer removed by hand only returns when a newer session uses them again
+        changed.set(key, {
+          key,
+          name: current?.name || session.customerName,
+          defaults: current?.defaultsSource === 'manual' ? current.defaults : learned,
+          defaultsSource: current?.defaultsSource || 'learned',
+          lastUsedAt: session.timestamp,
+          updatedAt: Date.now()
+        });
+      });
+
+    await this.putAll([...changed.values()]);
+  }
+
+  /**
+   * Push local changes to the signed-in user's customers, then merge in any newer rows
+   */
+  async sync(client: SupabaseClient, deviceId: string, userId: string): Promise<void> {
+    const local = await this.list();
+    const unsynced = local.filter(customer => !customer.syncedAt || customer.updatedAt > customer.syncedAt);
+
+    if (unsynced.length > 0) {
+      const { error } = await client
+        .from('customers')
+        .upsert(unsynced.map(customer => ({
+          device_id: deviceId,
+          user_id: userId,
+          key: customer.key,
+          name: customer.name,
+          default_wrap_status: customer.defaults.wrapStatus || null,
+          default_pallet_count: customer.defaults.palletCount ?? null,
+          default_template_id: customer.defaults.templateId || null,
+          defaults_source: customer.defaultsSource,
+          hidden: !!customer.hidden,
+          last_used_at: new Date(customer.lastUsedAt).toISOString(),
+          updated_at: new Date(customer.updatedAt).toISOString()
+        })), { onConflict: 'user_id,key' });
+      if (error) throw error;
+
+      const syncedAt = Date.now();
+      await this.putAll(unsynced.map(customer => ({ ...customer, syncedAt })));
+    }
+
+    const { data, error: fetchError } = await client
+      .from('customers')
+      .select('key, name, default_wrap_status, default_pallet_count, default_template_id, defaults_source, hidden, last_used_at, updated_at')
+      .eq('user_id', userId);
+    if (fetchError) throw fetchError;
+
+    const byKey = new Map(local.map(customer => [customer.key, customer]));
+    const newer = ((data || []) as RemoteCustomerRow[])
+      .map(fromRemote)
+      .filter(remote => {
+        const current = byKey.get(remote.key);
+        return !current || remote.updatedAt > current.updatedAt;
+      });
+    await this.putAll(newer);
+  }
+
+  /**
+   * Sync without failing the caller; the directory works fully offline
+   */
+  async trySync(client: SupabaseClient | null, deviceId: string, userId: string | null): Promise<boolean> {
+    if (!client || !userId || !navigator.onLine) return false;
+    try {
+      await this.sync(client, deviceId, userId);
+      return true;
+    } catch (error) {
+      secureError('Error syncing customer directory', error);
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+export const customerDirectory = new CustomerDirectory();
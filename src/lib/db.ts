@@ -0,0 +1,82 @@
+/**
+ * IndexedDB Database
+ * Shared connection and helpers for the app's local database
+ */
+
+const DB_NAME = 'pallet_documenter';
+const DB_VERSION = 5;
+
+export const SESSIONS_STORE = 'sessions';
+export const PHOTOS_STORE = 'photos';
+export const DRAFTS_STORE = 'drafts';
+export const UPLOADS_STORE = 'uploads';
+export const CUSTOMERS_STORE = 'customers';
+// Holds the non-extractable encryption key; see encryption.ts
+export const KEYS_STORE = 'keys';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create or upgrade) the database, reusing a single connection
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PHOTOS_STORE)) {
+          const photos = db.createObjectStore(PHOTOS_STORE, { keyPath: 'key' });
+          photos.createIndex('sessionId', 'sessionId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+          db.createObjectStore(DRAFTS_STORE);
+        }
+        if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+          db.createObjectStore(UPLOADS_STORE, { keyPath: 'sessionId' });
+        }
+        if (!db.objectStoreNames.contains(CUSTOMERS_STORE)) {
+          db.createObjectStore(CUSTOMERS_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(KEYS_STORE)) {
+          db.createObjectStore(KEYS_STORE);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Empty every store, including the encryption key, e.g. when the device is reset
+ */
+export const clearDatabase = async (): Promise<void> => {
+  const db = await openDatabase();
+  const storeNames = Array.from(db.objectStoreNames);
+  const transaction = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(name => transaction.objectStore(name).clear());
+  await transactionDone(transaction);
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -0,0 +1,149 @@
+/**
+ * Encryption
+ * AES-GCM encryption at rest for session data and photos. The key is generated on this
+ * device as non-extractable, so it can be used by the app but never read out of the browser.
+ */
+
+import { openDatabase, requestToPromise, transactionDone, KEYS_STORE } from '@/lib/db';
+
+const DATA_KEY_ID = 'data';
+const IV_BYTES = 12;
+
+/**
+ * Stored data that couldn't be decrypted: it was damaged, or written with a key this device no longer has
+ */
+export class DecryptionError extends Error {
+  constructor(message = 'Stored data could not be decrypted') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+// A JSON value encrypted for IndexedDB
+export interface SealedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// Image bytes encrypted for IndexedDB; kept as a Blob so the browser can hold it on disk
+export interface SealedBlob {
+  iv: Uint8Array;
+  data: Blob;
+  // MIME type of the original image
+  type: string;
+}
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+const loadOrCreateKey = async (): Promise<CryptoKey> => {
+  const db = await openDatabase();
+  const existing = await requestToPromise<CryptoKey | undefined>(
+    db.transaction(KEYS_STORE, 'readonly').objectStore(KEYS_STORE).get(DATA_KEY_ID)
+  );
+  if (existing) return existing;
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  try {
+    const transaction = db.transaction(KEYS_STORE, 'readwrite');
+    // add() rather than put(): another tab may have created the key first, and that one wins
+    transaction.objectStore(KEYS_STORE).add(key, DATA_KEY_ID);
+    await transactionDone(transaction);
+    return key;
+  } catch {
+    const winner = await requestToPromise<CryptoKey | undefined>(
+      db.transaction(KEYS_STORE, 'readonly').objectStore(KEYS_STORE).get(DATA_KEY_ID)
+    );
+    if (!winner) throw new Error('Encryption key could not be saved');
+    return winner;
+  }
+};
+
+const getDataKey = (): Promise<CryptoKey> => {
+  if (!keyPromise) {
+    keyPromise = loadOrCreateKey().catch(error => {
+      keyPromise = null;
+      throw error;
+    });
+  }
+  return keyPromise;
+};
+
+const encrypt = async (plaintext: BufferSource): Promise<{ iv: Uint8Array; data: ArrayBuffer }> => {
+  const key = await getDataKey();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext) };
+};
+
+const decrypt = async (iv: Uint8Array, data: BufferSource): Promise<ArrayBuffer> => {
+  const key = await getDataKey();
+  try {
+    return await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data);
+  } catch {
+    // Web Crypto reports a failed authentication tag as a bare OperationError
+    throw new DecryptionError();
+  }
+};
+
+export const isSealedValue = (value: unknown): value is SealedValue =>
+  !!value && typeof value === 'object' && (value as SealedValue).iv instanceof Uint8Array && (value as SealedValue).data instanceof ArrayBuffer;
+
+export const isSealedBlob = (value: unknown): value is SealedBlob =>
+  !!value && typeof value === 'object' && (value as SealedBlob).iv instanceof Uint8Array && (value as SealedBlob).data instanceof Blob;
+
+export const sealValue = async (value: unknown): Promise<SealedValue> =>
+  encrypt(new TextEncoder().encode(JSON.stringify(value)));
+
+export const openValue = async <T>(sealed: SealedValue): Promise<T> => {
+  const plaintext = await decrypt(sealed.iv, sealed.data);
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  } catch {
+    throw new DecryptionError('Decrypted data is not valid');
+  }
+};
+
+export const sealBlob = async (blob: Blob): Promise<SealedBlob> => {
+  const { iv, data } = await encrypt(await blob.arrayBuffer());
+  return { iv, data: new Blob([data]), type: blob.type };
+};
+
+export const openBlob = async (sealed: SealedBlob): Promise<Blob> =>
+  new Blob([await decrypt(sealed.iv, await sealed.data.arrayBuffer())], { type: sealed.type });
+
+/**
+ * Whether two stored copies came from the same encryption, which uses a fresh IV every time
+ */
+export const isSameSeal = (a: SealedValue | SealedBlob, b: SealedValue | SealedBlob): boolean =>
+  a.iv.length === b.iv.length && a.iv.every((byte, index) => byte === b.iv[index]);
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (encoded: string): Uint8Array => Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+
+/**
+ * Encrypt text for a string-only store such as localStorage, as "<iv>.<ciphertext>" in base64
+ */
+export const sealText = async (text: string): Promise<string> => {
+  const { iv, data } = await encrypt(new TextEncoder().encode(text));
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(data))}`;
+};
+
+export const openText = async (sealed: string): Promise<string> => {
+  const [iv, data] = sealed.split('.');
+  if (!iv || !data) throw new DecryptionError('Stored data is not in the expected format');
+  let ivBytes: Uint8Array;
+  let dataBytes: Uint8Array;
+  try {
+    ivBytes = fromBase64(iv);
+    dataBytes = fromBase64(data);
+  } catch {
+    throw new DecryptionError('Stored data is not in the expected format');
+  }
+  return new TextDecoder().decode(await decrypt(ivBytes, dataBytes));
+};
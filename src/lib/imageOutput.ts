@@ -0,0 +1,115 @@
+/**
+ * Image Output
+ * Format, quality and size photos are encoded at when captured, stored and shared
+ */
+
+export type ImageFormat = 'jpeg' | 'webp' | 'png';
+
+export interface ImageOutputSettings {
+  format: ImageFormat;
+  // 0-1, ignored for PNG
+  quality: number;
+  // Longest side in pixels; 0 keeps the camera's full resolution
+  maxEdge: number;
+}
+
+export const IMAGE_FORMATS: { id: ImageFormat; label: string; mimeType: string }[] = [
+  { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg' },
+  { id: 'webp', label: 'WebP', mimeType: 'image/webp' },
+  { id: 'png', label: 'PNG (lossless)', mimeType: 'image/png' }
+];
+
+export const IMAGE_QUALITY_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.95, label: 'Maximum' },
+  { value: 0.85, label: 'High' },
+  { value: 0.75, label: 'Standard' },
+  { value: 0.6, label: 'Compact' }
+];
+
+export const IMAGE_MAX_EDGE_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Full resolution' },
+  { value: 3840, label: '3840 px (4K)' },
+  { value: 2560, label: '2560 px' },
+  { value: 1920, label: '1920 px (Full HD)' },
+  { value: 1280, label: '1280 px' }
+];
+
+export const DEFAULT_IMAGE_OUTPUT: ImageOutputSettings = {
+  format: 'jpeg',
+  quality: 0.85,
+  maxEdge: 2560
+};
+
+export const getImageMimeType = (format: ImageFormat): string =>
+  IMAGE_FORMATS.find(entry => entry.id === format)?.mimeType || 'image/jpeg';
+
+/**
+ * File extension for an image MIME type, defaulting to jpg
+ */
+export const getImageExtension = (mimeType: string): string => {
+  if (mimeType.includes('png')) return 'png';
+  if (mimeType.includes('webp')) return 'webp';
+  return 'jpg';
+};
+
+/**
+ * Short description such as "JPEG 85%" for the capture preview
+ */
+export const describeImageType = (mimeType: string, quality?: number): string => {
+  const format = IMAGE_FORMATS.find(entry => entry.mimeType === mimeType);
+  const name = format ? format.id.toUpperCase() : mimeType.replace('image/', '').toUpperCase();
+  return quality !== undefined && format?.id !== 'png' ? `${name} ${Math.round(quality * 100)}%` : name;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Image encoding failed'))), mimeType, quality);
+  });
+
+/**
+ * Draw an image scaled down to the longest edge and encode it in the chosen format.
+ * Browsers that can't encode WebP hand back PNG; those photos are re-encoded as JPEG instead.
+ */
+export const encodeImage = async (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  output: ImageOutputSettings
+): Promise<Blob> => {
+  const scale = output.maxEdge > 0 ? Math.min(1, output.maxEdge / Math.max(sourceWidth, sourceHeight)) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  if (output.format === 'jpeg') {
+    // Transparent pixels would otherwise encode as black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const mimeType = getImageMimeType(output.format);
+  const blob = await canvasToBlob(canvas, mimeType, output.quality);
+  if (blob.type !== mimeType && output.format === 'webp') {
+    return canvasToBlob(canvas, 'image/jpeg', output.quality);
+  }
+  return blob;
+};
+
+/**
+ * Re-encode an existing image, such as a camera capture, with the output settings
+ */
+export const encodeImageBlob = async (blob: Blob, output: ImageOutputSettings): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return await encodeImage(bitmap, bitmap.width, bitmap.height, output);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,90 @@
+/**
+ * Pallet Details
+ * Per-pallet identification, contents and condition verdict recorded between pallets
+ */
+
+import { sanitizeInput } from '@/lib/security';
+
+export type PalletVerdict = 'pass' | 'damaged' | 'rejected';
+
+export type WeightUnit = 'kg' | 'lb';
+
+export const PALLET_VERDICTS: { id: PalletVerdict; label: string }[] = [
+  { id: 'pass', label: 'Pass' },
+  { id: 'damaged', label: 'Damaged' },
+  { id: 'rejected', label: 'Rejected' }
+];
+
+export interface PalletDetails {
+  palletIndex: number;
+  // License plate / SSCC printed on the pallet label
+  palletId: string;
+  sku: string;
+  caseCount?: number;
+  weight?: number;
+  weightUnit: WeightUnit;
+  verdict: PalletVerdict;
+}
+
+export type PalletDetailsErrors = Partial<Record<'palletId' | 'sku' | 'caseCount' | 'weight', string>>;
+
+export const emptyPalletDetails = (palletIndex: number, verdict: PalletVerdict = 'pass'): PalletDetails => ({
+  palletIndex,
+  palletId: '',
+  sku: '',
+  weightUnit: 'kg',
+  verdict
+});
+
+export const getVerdictLabel = (verdict: PalletVerdict): string =>
+  PALLET_VERDICTS.find(entry => entry.id === verdict)?.label || verdict;
+
+export const getPalletDetails = (details: PalletDetails[] | undefined, palletIndex: number): PalletDetails | undefined =>
+  details?.find(entry => entry.palletIndex === palletIndex);
+
+/**
+ * One-line summary such as "ID 0012345 · SKU A-100 · 40 cases · 512 kg"
+ */
+export const describePalletDetails = (details?: PalletDetails): string => {
+  if (!details) return '';
+  return [
+    details.palletId && `ID ${details.palletId}`,
+    details.sku && `SKU ${details.sku}`,
+    details.caseCount !== undefined && `${details.caseCount} cases`,
+    details.weight !== undefined && `${details.weight} ${details.weightUnit}`
+  ].filter(Boolean).join(' · ');
+};
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z0-9\-_./ ]*$/;
+
+export const validatePalletDetails = (details: PalletDetails): { isValid: boolean; errors: PalletDetailsErrors } => {
+  const errors: PalletDetailsErrors = {};
+
+  if (details.palletId.length > 50) {
+    errors.palletId = 'Pallet ID must be less than 50 characters';
+  } else if (!IDENTIFIER_PATTERN.test(details.palletId)) {
+    errors.palletId = 'Pallet ID contains invalid characters';
+  }
+
+  if (details.sku.length > 50) {
+    errors.sku = 'SKU must be less than 50 characters';
+  } else if (!IDENTIFIER_PATTERN.test(details.sku)) {
+    errors.sku = 'SKU contains invalid characters';
+  }
+
+  if (details.caseCount !== undefined && (!Number.isInteger(details.caseCount) || details.caseCount < 0 || details.caseCount > 100000)) {
+    errors.caseCount = 'Case count must be a whole number';
+  }
+
+  if (details.weight !== undefined && (!Number.isFinite(details.weight) || details.weight < 0 || details.weight > 100000)) {
+    errors.weight = 'Weight must be a positive number';
+  }
+
+  return { isValid: Object.keys(errors).length === 0, errors };
+};
+
+export const sanitizePalletDetails = (details: PalletDetails): PalletDetails => ({
+  ...details,
+  palletId: sanitizeInput(details.palletId),
+  sku: sanitizeInput(details.sku)
+});
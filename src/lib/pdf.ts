@@ -0,0 +1,181 @@
+/**
+ * PDF Writer
+ * Minimal PDF 1.4 builder supporting A4 pages, Helvetica text, rectangles and JPEG images.
+ * Coordinates are in points measured from the top-left corner of the page.
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: [number, number, number];
+}
+
+interface RectOptions {
+  fill?: [number, number, number];
+  stroke?: [number, number, number];
+  lineWidth?: number;
+}
+
+interface PdfImage {
+  name: string;
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const formatNumber = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+const formatColor = ([r, g, b]: [number, number, number]): string =>
+  [r, g, b].map(channel => formatNumber(channel / 255)).join(' ');
+
+// Standard fonts use WinAnsiEncoding; anything outside Latin-1 is replaced
+const escapeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const latin1Bytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+/**
+ * Approximate Helvetica text width; good enough for truncating captions
+ */
+export const estimateTextWidth = (text: string, size: number): number => text.length * size * 0.52;
+
+export class PdfPage {
+  private operations: string[] = [];
+  readonly images: Set<string> = new Set();
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const { size = 12, bold = false, color = [0, 0, 0] } = options;
+    this.operations.push(
+      `BT ${formatColor(color)} rg /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+      `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - size)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: RectOptions = {}): void {
+    const { fill, stroke, lineWidth = 1 } = options;
+    const path = `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    this.operations.push(
+      `q ${fill ? `${formatColor(fill)} rg ` : ''}${stroke ? `${formatColor(stroke)} RG ` : ''}` +
+      `${formatNumber(lineWidth)} w ${path} ${paint} Q`
+    );
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number): void {
+    this.images.add(name);
+    this.operations.push(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} cm /${name} Do Q`
+    );
+  }
+
+  content(): string {
+    return this.operations.join('\n');
+  }
+}
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+  private images: PdfImage[] = [];
+
+  addPage(): PdfPage {
+    const page = new PdfPage();
+    this.pages.push(page);
+    return page;
+  }
+
+  /**
+   * Register a baseline JPEG and return the name to draw it with
+   */
+  addJpeg(bytes: Uint8Array, width: number, height: number): string {
+    const name = `Im${this.images.length + 1}`;
+    this.images.push({ name, bytes, width, height });
+    return name;
+  }
+
+  toBlob(): Blob {
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? latin1Bytes(chunk) : chunk;
+      parts.push(bytes);
+      length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+    };
+
+    // Object layout: 1 catalog, 2 page tree, 3-4 fonts, then images, then page + content pairs
+    const imageIds = new Map<string, number>();
+    this.images.forEach((image, index) => imageIds.set(image.name, 5 + index));
+    const firstPageId = 5 + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>\nendobj\n`);
+
+    beginObject(3);
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+    beginObject(4);
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+    this.images.forEach(image => {
+      beginObject(imageIds.get(image.name)!);
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>\nstream\n`
+      );
+      write(image.bytes);
+      write('\nendstream\nendobj\n');
+    });
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const xObjects = Array.from(page.images).map(name => `/${name} ${imageIds.get(name)} 0 R`).join(' ');
+
+      beginObject(pageId);
+      write(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+        `/Contents ${pageId + 1} 0 R >>\nendobj\n`
+      );
+
+      const content = latin1Bytes(page.content());
+      beginObject(pageId + 1);
+      write(`<< /Length ${content.length} >>\nstream\n`);
+      write(content);
+      write('\nendstream\nendobj\n');
+    });
+
+    const objectCount = firstPageId + this.pages.length * 2;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts, { type: 'application/pdf' });
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * PDF Delivery Report
+ * Builds a proof-of-condition report from session data entirely on the device,
+ * showing each slot's unwrapped and wrapped photos side by side for before/after pairs
+ */
+
+import { format } from 'date-fns';
+import type { PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+import { PdfDocument, PdfPage, PAGE_HEIGHT, PAGE_WIDTH, estimateTextWidth } from '@/lib/pdf';
+import { generateSecureExportName } from '@/lib/security';
+import { getSlotLabel } from '@/lib/captureTemplates';
+import { getExportBlob, sortPhotos } from '@/lib/sessionExport';
+import { describeAnnotation, hasAnnotation } from '@/lib/annotations';
+import { PalletVerdict, describePalletDetails, getPalletDetails, getVerdictLabel } from '@/lib/palletDetails';
+import { encodeImage } from '@/lib/imageOutput';
+import { WrapPhases, getPairedPalletCount, getPalletPhotoPairs, getWrapPhases } from '@/lib/wrapPhases';
+import { formatLocation } from '@/lib/captureMetadata';
+
+const MARGIN = 40;
+const PRIMARY_COLOR: [number, number, number] = [30, 64, 175];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+const GRID_COLUMNS = 2;
+const GRID_GAP = 16;
+const CAPTION_HEIGHT = 40;
+const DAMAGE_COLOR: [number, number, number] = [220, 38, 38];
+const VERDICT_COLORS: Record<PalletVerdict, [number, number, number]> = {
+  pass: [22, 163, 74],
+  damaged: [217, 119, 6],
+  rejected: [220, 38, 38]
+};
+const MAX_PHOTOS_PER_PAGE = 6;
+// Photos are embedded as JPEG whatever they were captured as, downscaled so a 30-pallet report stays shareable
+const REPORT_IMAGE_MAX_EDGE = 1600;
+const REPORT_IMAGE_QUALITY = 0.85;
+
+// One box of a pallet page's photo grid; slots not photographed in a phase have no photo
+interface ReportCell {
+  photo?: PalletPhoto;
+  label: string;
+  capturedAt: number;
+}
+
+// Time the photo was taken, and where when that was recorded
+const describeCapture = (photo: PalletPhoto, capturedAt: number): string =>
+  [formatTimestamp(capturedAt), photo.metadata?.location && formatLocation(photo.metadata.location)].filter(Boolean).join(' · ');
+
+const formatTimestamp = (timestamp: number): string => format(new Date(timestamp), 'MMM d, yyyy h:mm a');
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const truncate = (text: string, size: number, maxWidth: number): string => {
+  if (estimateTextWidth(text, size) <= maxWidth) return text;
+  let truncated = text;
+  while (truncated.length > 1 && estimateTextWidth(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated}...`;
+};
+
+/**
+ * Re-encode a photo (with any markup burned in) as a downscaled baseline JPEG for embedding
+ */
+const toReportJpeg = async (photo: PalletPhoto): Promise<{ bytes: Uint8Array; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(await getExportBlob(photo, !!photo.annotation?.markup.length));
+  const scale = Math.min(1, REPORT_IMAGE_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  try {
+    const jpeg = await encodeImage(bitmap, bitmap.width, bitmap.height, {
+      format: 'jpeg',
+      quality: REPORT_IMAGE_QUALITY,
+      maxEdge: REPORT_IMAGE_MAX_EDGE
+    });
+    return { bytes: new Uint8Array(await jpeg.arrayBuffer()), width, height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const drawFooter = (page: PdfPage, session: PalletSession, pageNumber: number, pageCount: number) => {
+  page.text(MARGIN, PAGE_HEIGHT - MARGIN + 10, `${session.customerName} - PO ${session.poNumber}`, { size: 8, color: MUTED_COLOR });
+  const label = `Page ${pageNumber} of ${pageCount}`;
+  page.text(PAGE_WIDTH - MARGIN - estimateTextWidth(label, 8), PAGE_HEIGHT - MARGIN + 10, label, { size: 8, color: MUTED_COLOR });
+};
+
+/**
+ * Verdict counts such as "3 Pass, 1 Damaged"
+ */
+const describeVerdicts = (session: PalletSession): string => {
+  const details = session.palletDetails || [];
+  if (details.length === 0) return 'Not recorded';
+  return (['pass', 'damaged', 'rejected'] as PalletVerdict[])
+    .map(verdict => ({ verdict, count: details.filter(entry => entry.verdict === verdict).length }))
+    .filter(entry => entry.count > 0)
+    .map(entry => `${entry.count} ${getVerdictLabel(entry.verdict)}`)
+    .join(', ');
+};
+
+const drawCoverPage = (page: PdfPage, session: PalletSession, deviceId: string | undefined, phases: WrapPhases | null) => {
+  page.rect(0, 0, PAGE_WIDTH, 140, { fill: PRIMARY_COLOR });
+  page.text(MARGIN, 50, 'Pallet Condition Report', { size: 26, bold: true, color: [255, 255, 255] });
+  page.text(MARGIN, 88, `Generated ${formatTimestamp(Date.now())}`, { size: 11, color: [219, 234, 254] });
+
+  const rows: [string, string][] = [
+    ['Customer', session.customerName],
+    ['PO Number', session.poNumber],
+    ['Wrap Status', phases ? 'Unwrapped and wrapped' : capitalize(session.wrapStatus || 'unwrapped')],
+    ['Pallets', String(phases ? getPairedPalletCount(phases) : session.totalPallets)],
+    ['Photos', String(phases ? phases.unwrapped.photos.length + phases.wrapped.photos.length : session.photos.length)],
+    ['Condition', describeVerdicts(phases ? phases.wrapped : session)],
+    ['Capture Template', session.captureTemplate?.name || '4 sides'],
+    ...(phases
+      ? [
+        ['Unwrapped Time', formatTimestamp(phases.unwrapped.timestamp)],
+        ['Wrapped Time', formatTimestamp(phases.wrapped.timestamp)]
+      ] as [string, string][]
+      : [['Session Time', formatTimestamp(session.timestamp)] as [string, string]]),
+    ['Device ID', deviceId || 'Unknown']
+  ];
+
+  let y = 190;
+  rows.forEach(([label, value]) => {
+    page.text(MARGIN, y, label, { size: 11, color: MUTED_COLOR });
+    page.text(MARGIN + 140, y, truncate(value, 13, PAGE_WIDTH - MARGIN * 2 - 140), { size: 13, bold: true });
+    page.rect(MARGIN, y + 24, PAGE_WIDTH - MARGIN * 2, 0.5, { fill: [229, 231, 235] });
+    y += 40;
+  });
+};
+
+const drawPhotoGrid = async (
+  pdf: PdfDocument,
+  page: PdfPage,
+  cells: ReportCell[],
+  top: number
+) => {
+  const rows = Math.ceil(MAX_PHOTOS_PER_PAGE / GRID_COLUMNS);
+  const cellWidth = (PAGE_WIDTH - MARGIN * 2 - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
+  const cellHeight = (PAGE_HEIGHT - top - MARGIN * 2 - GRID_GAP * (rows - 1)) / rows;
+  const imageBoxHeight = cellHeight - CAPTION_HEIGHT;
+
+  for (let index = 0; index < cells.length; index++) {
+    const { photo, label, capturedAt } = cells[index];
+    const x = MARGIN + (index % GRID_COLUMNS) * (cellWidth + GRID_GAP);
+    const y = top + Math.floor(index / GRID_COLUMNS) * (cellHeight + GRID_GAP);
+
+    page.rect(x, y, cellWidth, imageBoxHeight, { fill: [243, 244, 246] });
+    page.text(x, y + imageBoxHeight + 4, truncate(label, 10, cellWidth), { size: 10, bold: true });
+
+    if (!photo) {
+      page.text(x + 10, y + imageBoxHeight / 2, 'Not photographed', { size: 10, color: MUTED_COLOR });
+      continue;
+    }
+
+    try {
+      const jpeg = await toReportJpeg(photo);
+      const name = pdf.addJpeg(jpeg.bytes, jpeg.width, jpeg.height);
+      // Fit inside the cell while keeping the aspect ratio
+      const scale = Math.min(cellWidth / jpeg.width, imageBoxHeight / jpeg.height);
+      const drawWidth = jpeg.width * scale;
+      const drawHeight = jpeg.height * scale;
+      page.image(name, x + (cellWidth - drawWidth) / 2, y + (imageBoxHeight - drawHeight) / 2, drawWidth, drawHeight);
+    } catch {
+      page.text(x + 10, y + imageBoxHeight / 2, 'Image unavailable', { size: 10, color: MUTED_COLOR });
+    }
+
+    page.text(x, y + imageBoxHeight + 16, truncate(describeCapture(photo, capturedAt), 8, cellWidth), { size: 8, color: MUTED_COLOR });
+
+    if (hasAnnotation(photo.annotation)) {
+      const damage = [describeAnnotation(photo.annotation), photo.annotation.notes.trim()].filter(Boolean).join(' - ');
+      page.text(x, y + imageBoxHeight + 28, truncate(damage, 8, cellWidth), { size: 8, color: DAMAGE_COLOR });
+    }
+  }
+};
+
+/**
+ * Grid cells for one pallet: its photos in slot order, or each slot's unwrapped and wrapped photo side by side
+ */
+const getPalletCells = (session: PalletSession, phases: WrapPhases | null, palletIndex: number): ReportCell[] => {
+  if (!phases) {
+    return sortPhotos(session.photos)
+      .filter(photo => photo.palletIndex === palletIndex)
+      .map(photo => ({
+        photo,
+        label: getSlotLabel(session.captureTemplate, photo.sideIndex),
+        capturedAt: photo.capturedAt || session.timestamp
+      }));
+  }
+
+  return getPalletPhotoPairs(phases, palletIndex).flatMap(pair => {
+    const slot = getSlotLabel(phases.wrapped.captureTemplate, pair.sideIndex);
+    return [
+      { photo: pair.unwrapped, label: `Unwrapped - ${slot}`, capturedAt: pair.unwrapped?.capturedAt || phases.unwrapped.timestamp },
+      { photo: pair.wrapped, label: `Wrapped - ${slot}`, capturedAt: pair.wrapped?.capturedAt || phases.wrapped.timestamp }
+    ];
+  });
+};
+
+/**
+ * Generate the PDF: a cover page, then one page per pallet (continued when a pallet has many shots).
+ * With `linkedSession`, both wrap phases of each pallet are reported together.
+ */
+export const buildSessionReport = async (
+  session: PalletSession,
+  options: { deviceId?: string; linkedSession?: PalletSession } = {}
+): Promise<{ blob: Blob; fileName: string }> => {
+  const pdf = new PdfDocument();
+  const pages: PdfPage[] = [];
+  const phases = options.linkedSession ? getWrapPhases(session, options.linkedSession) : null;
+  // The wrapped phase holds the latest details and verdicts
+  const detailsSession = phases ? phases.wrapped : session;
+  const totalPallets = phases ? getPairedPalletCount(phases) : session.totalPallets;
+
+  const cover = pdf.addPage();
+  drawCoverPage(cover, session, options.deviceId, phases);
+  pages.push(cover);
+
+  for (let palletIndex = 1; palletIndex <= totalPallets; palletIndex++) {
+    const cells = getPalletCells(session, phases, palletIndex);
+    const photoCount = cells.filter(cell => cell.photo).length;
+    const chunkCount = Math.max(1, Math.ceil(cells.length / MAX_PHOTOS_PER_PAGE));
+
+    for (let chunk = 0; chunk < chunkCount; chunk++) {
+      const page = pdf.addPage();
+      pages.push(page);
+
+      const title = `Pallet ${palletIndex} of ${totalPallets}${chunk > 0 ? ' (continued)' : ''}`;
+      page.text(MARGIN, MARGIN, title, { size: 18, bold: true, color: PRIMARY_COLOR });
+      const details = getPalletDetails(detailsSession.palletDetails, palletIndex);
+      const subtitle = [`${photoCount} photo(s)`, describePalletDetails(details)].filter(Boolean).join(' · ');
+      page.text(MARGIN, MARGIN + 24, truncate(subtitle, 10, PAGE_WIDTH - MARGIN * 2 - 90), { size: 10, color: MUTED_COLOR });
+      if (details) {
+        const verdict = getVerdictLabel(details.verdict).toUpperCase();
+        const verdictWidth = estimateTextWidth(verdict, 11) + 16;
+        page.rect(PAGE_WIDTH - MARGIN - verdictWidth, MARGIN - 4, verdictWidth, 22, { fill: VERDICT_COLORS[details.verdict] });
+        page.text(PAGE_WIDTH - MARGIN - verdictWidth + 8, MARGIN + 1, verdict, { size: 11, bold: true, color: [255, 255, 255] });
+      }
+
+      if (cells.length === 0) {
+        page.text(MARGIN, MARGIN + 60, 'No photos were captured for this pallet.', { size: 12, color: MUTED_COLOR });
+        continue;
+      }
+
+      const chunkCells = cells.slice(chunk * MAX_PHOTOS_PER_PAGE, (chunk + 1) * MAX_PHOTOS_PER_PAGE);
+      await drawPhotoGrid(pdf, page, chunkCells, MARGIN + 52);
+    }
+  }
+
+  pages.forEach((page, index) => drawFooter(page, session, index + 1, pages.length));
+
+  return {
+    blob: pdf.toBlob(),
+    fileName: generateSecureExportName(session.customerName, session.poNumber, phases ? 'before-after' : session.wrapStatus || 'unwrapped', 'pdf')
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * Photo Integrity
+ * SHA-256 of each photo's bytes as captured, so a copy can later be shown to be unaltered
+ */
+
+import type { PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+
+// A local photo whose recorded hash matched
+export interface PhotoHashMatch {
+  session: PalletSession;
+  photo: PalletPhoto;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const hashBlob = async (blob: Blob): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+
+export const hashPhotoUri = async (uri: string): Promise<string> => {
+  const response = await fetch(uri);
+  if (!response.ok) {
+    throw new Error(`Image request failed with status ${response.status}`);
+  }
+  return hashBlob(await response.blob());
+};
+
+export const normalizeHash = (value: string): string => value.trim().toLowerCase();
+
+export const isSha256 = (value: string): boolean => /^[0-9a-f]{64}$/.test(normalizeHash(value));
+
+// Enough of a hash to tell photos apart at a glance
+export const shortHash = (hash: string): string => hash.slice(0, 12);
+
+/**
+ * Local photos recorded with this hash. Photos taken before hashing have none and never match.
+ */
+export const findPhotosByHash = (sessions: PalletSession[], hash: string): PhotoHashMatch[] => {
+  const wanted = normalizeHash(hash);
+  return sessions.flatMap(session =>
+    session.photos
+      .filter(photo => photo.sha256 === wanted)
+      .map(photo => ({ session, photo }))
+  );
+};
+
+/**
+ * Lines in the format `sha256sum -c` reads, for files whose capture hash is known
+ */
+export const toChecksumFile = (files: { fileName: string; sha256?: string }[]): string =>
+  files
+    .filter(file => file.sha256)
+    .map(file => `${file.sha256}  ${file.fileName}`)
+    .join('\n');
@@ -3,6 +3,8 @@
  * Handles efficient storage and cleanup of photo data to prevent memory crashes
  */
 
+import { ImageOutputSettings, encodeImage } from '@/lib/imageOutput';
+
 interface PhotoReference {
   dataUrl: string;
   compressed?: string;
@@ -65,39 +67,28 @@ class PhotoMemoryManager {
   }
 
   /**
-   * Compress a data URL to reduce memory footprint
+   * Compress a data URL to reduce memory footprint, in the given format or as JPEG at the default quality
    */
-  async compressDataUrl(dataUrl: string, maxWidth: number = 2048): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let { width, height } = img;
-
-        // Resize if necessary
-        if (width > maxWidth) {
-          height = (height * maxWidth) / width;
-          width = maxWidth;
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Canvas context not available'));
-          return;
-        }
-
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // Use PNG for lossless but optimize size
-        const compressed = canvas.toDataURL('image/png');
-        resolve(compressed);
-      };
+  async compressDataUrl(dataUrl: string, output: Partial<ImageOutputSettings> = {}): Promise<string> {
+    const img = new Image();
+    await new Promise((resolve, reject) => {
+      img.onload = resolve;
       img.onerror = reject;
       img.src = dataUrl;
     });
+
+    const blob = await encodeImage(img, img.naturalWidth, img.naturalHeight, {
+      format: output.format || 'jpeg',
+      quality: output.quality ?? this.compressionQuality,
+      maxEdge: output.maxEdge ?? 2048
+    });
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
   }
 
   /**
@@ -0,0 +1,43 @@
+/**
+ * Photo Storage
+ * Where uploaded photos live in Supabase Storage. Rows keep the object path, and viewers get
+ * short-lived signed links, so the bucket's own policies decide who can see each photo.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const STORAGE_BUCKET = 'pallet_photos';
+// Long enough to browse a session; reopening it signs fresh links
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Rows uploaded before the bucket was private hold the object's full public URL
+const PUBLIC_URL_MARKER = `/storage/v1/object/public/${STORAGE_BUCKET}/`;
+
+/**
+ * Storage path of an uploaded photo, from either a stored path or a legacy public URL
+ */
+export const toStoragePath = (value: string): string => {
+  const index = value.indexOf(PUBLIC_URL_MARKER);
+  return index === -1 ? value : decodeURIComponent(value.slice(index + PUBLIC_URL_MARKER.length).split('?')[0]);
+};
+
+/**
+ * Signed links for the given stored photo paths, keyed by the stored value.
+ * Paths the signed-in user may not read are left out.
+ */
+export const createSignedPhotoUrls = async (client: SupabaseClient, values: string[]): Promise<Map<string, string>> => {
+  const unique = [...new Set(values.filter(Boolean))];
+  if (unique.length === 0) return new Map();
+
+  const paths = unique.map(toStoragePath);
+  const { data, error } = await client.storage.from(STORAGE_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+  if (error) throw error;
+
+  const signed = new Map<string, string>();
+  data.forEach((entry, index) => {
+    if (!entry.error && entry.signedUrl) {
+      signed.set(unique[index], entry.signedUrl);
+    }
+  });
+  return signed;
+};
@@ -0,0 +1,40 @@
+/**
+ * Retention
+ * When a saved session expires from this device under the current settings
+ */
+
+import type { PalletSession } from '@/contexts/PalletContext';
+import type { AppSettings } from '@/lib/appSettings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions this close to expiring are called out in history
+export const EXPIRY_WARNING_MS = 2 * DAY_MS;
+
+/**
+ * - pinned: kept until deleted by hand
+ * - active: inside the retention period
+ * - expiring: will be deleted within the warning window
+ * - awaiting-sync: past the retention period, held until it finishes uploading
+ * - expired: due for deletion
+ */
+export type ExpiryState = 'pinned' | 'active' | 'expiring' | 'awaiting-sync' | 'expired';
+
+type RetentionSettings = Pick<AppSettings, 'retentionDays' | 'expireOnlyWhenSynced'>;
+
+export const getExpiresAt = (session: PalletSession, settings: RetentionSettings): number =>
+  session.timestamp + settings.retentionDays * DAY_MS;
+
+export const getExpiryState = (session: PalletSession, settings: RetentionSettings, now: number = Date.now()): ExpiryState => {
+  if (session.pinned) return 'pinned';
+
+  const heldForSync = settings.expireOnlyWhenSynced && session.syncStatus !== 'synced';
+  const remaining = getExpiresAt(session, settings) - now;
+  if (remaining <= 0) {
+    return heldForSync ? 'awaiting-sync' : 'expired';
+  }
+  return remaining <= EXPIRY_WARNING_MS && !heldForSync ? 'expiring' : 'active';
+};
+
+export const isExpired = (session: PalletSession, settings: RetentionSettings, now: number = Date.now()): boolean =>
+  getExpiryState(session, settings, now) === 'expired';
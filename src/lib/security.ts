@@ -1,4 +1,5 @@
 import DOMPurify from 'dompurify';
+import { DecryptionError, openText, sealText } from '@/lib/encryption';
 
 // Input validation and sanitization
 export const sanitizeInput = (input: string): string => {
@@ -33,6 +34,39 @@ export const validatePoNumber = (po: string): { isValid: boolean; error?: string
   return { isValid: true };
 };
 
+export const validateEmail = (email: string): { isValid: boolean; error?: string } => {
+  const trimmed = email.trim();
+  if (!trimmed) {
+    return { isValid: false, error: 'Email is required' };
+  }
+  if (trimmed.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+    return { isValid: false, error: 'Enter a valid email address' };
+  }
+  return { isValid: true };
+};
+
+// Driver PINs double as Supabase passwords, which must be at least 6 characters
+export const validatePin = (pin: string): { isValid: boolean; error?: string } => {
+  if (!pin) {
+    return { isValid: false, error: 'PIN is required' };
+  }
+  if (!/^\d{6,12}$/.test(pin)) {
+    return { isValid: false, error: 'PIN must be 6 to 12 digits' };
+  }
+  return { isValid: true };
+};
+
+// The PIN that unlocks the app on this device; shorter than a sign-in PIN since it's typed often
+export const validateAppPin = (pin: string): { isValid: boolean; error?: string } => {
+  if (!pin) {
+    return { isValid: false, error: 'PIN is required' };
+  }
+  if (!/^\d{4,8}$/.test(pin)) {
+    return { isValid: false, error: 'PIN must be 4 to 8 digits' };
+  }
+  return { isValid: true };
+};
+
 // Secure filename generation
 export const sanitizeFilename = (filename: string): string => {
   return filename
@@ -41,64 +75,80 @@ export const sanitizeFilename = (filename: string): string => {
     .slice(0, 200);
 };
 
-export const generateSecureFilename = (customerName: string, poNumber: string, wrapStatus: string, palletIndex: number, sideIndex: number): string => {
+export const generateSecureFilename = (customerName: string, poNumber: string, wrapStatus: string, palletIndex: number, sideIndex: number, slotLabel?: string, extension: string = 'jpg'): string => {
   const sanitizedCustomer = sanitizeFilename(customerName);
   const sanitizedPo = sanitizeFilename(poNumber);
   const sanitizedWrap = sanitizeFilename(wrapStatus);
+  // Use the capture template's slot name when available, e.g. "Label_close-up"
+  const sanitizedSlot = slotLabel ? sanitizeFilename(slotLabel) : `Side${sideIndex}`;
   const timestamp = Date.now();
   
-  return `${sanitizedCustomer}_${sanitizedPo}_${sanitizedWrap}_Pallet${palletIndex}_Side${sideIndex}_${timestamp}.jpg`;
+  return `${sanitizedCustomer}_${sanitizedPo}_${sanitizedWrap}_Pallet${palletIndex}_${sanitizedSlot}_${timestamp}.${sanitizeFilename(extension)}`;
 };
 
-// Local storage encryption (simple implementation)
-const ENCRYPTION_KEY = 'pallet_app_key_v1';
-
-export const encryptData = (data: string): string => {
-  // Simple XOR encryption for local storage
-  let encrypted = '';
-  for (let i = 0; i < data.length; i++) {
-    encrypted += String.fromCharCode(data.charCodeAt(i) ^ ENCRYPTION_KEY.charCodeAt(i % ENCRYPTION_KEY.length));
-  }
-  return btoa(encrypted);
+// Name for a whole-session export such as a ZIP archive or report
+export const generateSecureExportName = (customerName: string, poNumber: string, wrapStatus: string, extension: string): string => {
+  const sanitizedCustomer = sanitizeFilename(customerName);
+  const sanitizedPo = sanitizeFilename(poNumber);
+  const sanitizedWrap = sanitizeFilename(wrapStatus);
+  const timestamp = Date.now();
+  
+  return `${sanitizedCustomer}_${sanitizedPo}_${sanitizedWrap}_${timestamp}.${sanitizeFilename(extension)}`;
 };
 
-export const decryptData = (encrypted: string): string => {
+// Values written by earlier versions were XORed with a key shipped in the bundle, which
+// only obscured them. They are still read so they can be re-saved with real encryption.
+const LEGACY_OBFUSCATION_KEY = 'pallet_app_key_v1';
+// Prefix marking a localStorage value as AES-GCM encrypted
+const SEALED_PREFIX = 'aes-gcm:';
+
+const decodeLegacyData = (encoded: string): string => {
   try {
-    const data = atob(encrypted);
-    let decrypted = '';
+    const data = atob(encoded);
+    let decoded = '';
     for (let i = 0; i < data.length; i++) {
-      decrypted += String.fromCharCode(data.charCodeAt(i) ^ ENCRYPTION_KEY.charCodeAt(i % ENCRYPTION_KEY.length));
+      decoded += String.fromCharCode(data.charCodeAt(i) ^ LEGACY_OBFUSCATION_KEY.charCodeAt(i % LEGACY_OBFUSCATION_KEY.length));
     }
-    return decrypted;
+    return decoded;
   } catch {
     return '';
   }
 };
 
 // Secure local storage operations
-export const secureSetItem = (key: string, value: any): void => {
-  try {
-    const serialized = JSON.stringify(value);
-    const encrypted = encryptData(serialized);
-    localStorage.setItem(key, encrypted);
-  } catch (error) {
-    console.warn('Failed to save data securely');
-  }
+export const secureSetItem = async (key: string, value: any): Promise<void> => {
+  localStorage.setItem(key, `${SEALED_PREFIX}${await sealText(JSON.stringify(value))}`);
 };
 
-export const secureGetItem = (key: string): any => {
+/**
+ * Read and decrypt a stored value, or null if there is none.
+ * Values in the old obfuscated format are upgraded to encrypted in place, unless the
+ * caller is about to move them elsewhere. Throws DecryptionError when an encrypted value can't be read.
+ */
+export const secureGetItem = async (key: string, { upgradeLegacy = true }: { upgradeLegacy?: boolean } = {}): Promise<any> => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+
+  if (stored.startsWith(SEALED_PREFIX)) {
+    const decrypted = await openText(stored.slice(SEALED_PREFIX.length));
+    try {
+      return JSON.parse(decrypted);
+    } catch {
+      throw new DecryptionError('Decrypted data is not valid');
+    }
+  }
+
+  const decoded = decodeLegacyData(stored);
+  let value: unknown;
   try {
-    const encrypted = localStorage.getItem(key);
-    if (!encrypted) return null;
-    
-    const decrypted = decryptData(encrypted);
-    if (!decrypted) return null;
-    
-    return JSON.parse(decrypted);
-  } catch (error) {
-    console.warn('Failed to retrieve data securely');
-    return null;
+    value = decoded ? JSON.parse(decoded) : null;
+  } catch {
+    value = null;
+  }
+  if (value !== null && upgradeLegacy) {
+    await secureSetItem(key, value).catch(() => console.warn('Failed to upgrade stored data'));
   }
+  return value;
 };
 
 // File validation
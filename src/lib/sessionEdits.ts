@@ -0,0 +1,102 @@
+/**
+ * Session Edits
+ * What changed when a saved session was reopened, corrected and saved again
+ */
+
+import type { PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+import { getSlotLabel } from '@/lib/captureTemplates';
+
+export interface SessionEdit {
+  editedAt: number;
+  // Driver signed in when the edit was saved
+  userId?: string;
+  // One human-readable line per change, e.g. "Retook Pallet 2 - Side 3"
+  changes: string[];
+}
+
+const findPhoto = (photos: PalletPhoto[], { palletIndex, sideIndex }: PalletPhoto) =>
+  photos.find(photo => photo.palletIndex === palletIndex && photo.sideIndex === sideIndex);
+
+/**
+ * Photos that are new or were retaken or re-annotated since the session was saved
+ */
+export const getChangedPhotos = (before: PalletSession, after: PalletSession): PalletPhoto[] =>
+  after.photos.filter(photo => {
+    const previous = findPhoto(before.photos, photo);
+    return !previous ||
+      previous.capturedAt !== photo.capturedAt ||
+      JSON.stringify(previous.annotation || null) !== JSON.stringify(photo.annotation || null);
+  });
+
+/**
+ * Photos saved before the edit whose slot is now empty, including every photo
+ * of a pallet dropped from the end
+ */
+export const getRemovedPhotos = (before: PalletSession, after: PalletSession): PalletPhoto[] =>
+  before.photos.filter(photo => photo.palletIndex > after.totalPallets || !findPhoto(after.photos, photo));
+
+/**
+ * Pallets that had details saved before the edit and have none after it
+ */
+export const getRemovedPallets = (before: PalletSession, after: PalletSession): number[] =>
+  before.palletDetails
+    .map(details => details.palletIndex)
+    .filter(palletIndex =>
+      palletIndex > after.totalPallets || !after.palletDetails.some(entry => entry.palletIndex === palletIndex)
+    );
+
+export const describeSessionChanges = (before: PalletSession, after: PalletSession): string[] => {
+  const changes: string[] = [];
+
+  if (before.customerName !== after.customerName) {
+    changes.push(`Customer changed from "${before.customerName}" to "${after.customerName}"`);
+  }
+  if (before.poNumber !== after.poNumber) {
+    changes.push(`PO changed from ${before.poNumber} to ${after.poNumber}`);
+  }
+  if (before.wrapStatus !== after.wrapStatus) {
+    changes.push(`Wrap status changed to ${after.wrapStatus}`);
+  }
+  if (after.totalPallets > before.totalPallets) {
+    const added = Array.from({ length: after.totalPallets - before.totalPallets }, (_, i) => before.totalPallets + i + 1);
+    changes.push(`Added pallet${added.length > 1 ? 's' : ''} ${added.join(', ')}`);
+  }
+  if (after.totalPallets < before.totalPallets) {
+    const removed = Array.from({ length: before.totalPallets - after.totalPallets }, (_, i) => after.totalPallets + i + 1);
+    changes.push(`Removed pallet${removed.length > 1 ? 's' : ''} ${removed.join(', ')}`);
+  }
+
+  // Photos of added pallets are covered by the line above
+  getChangedPhotos(before, after)
+    .filter(photo => photo.palletIndex <= before.totalPallets)
+    .sort((a, b) => a.palletIndex - b.palletIndex || a.sideIndex - b.sideIndex)
+    .forEach(photo => {
+      const previous = findPhoto(before.photos, photo);
+      const label = `Pallet ${photo.palletIndex} - ${getSlotLabel(after.captureTemplate, photo.sideIndex)}`;
+      if (!previous) {
+        changes.push(`Added ${label}`);
+      } else if (previous.capturedAt !== photo.capturedAt) {
+        changes.push(`Retook ${label}`);
+      } else {
+        changes.push(`Updated damage notes on ${label}`);
+      }
+    });
+
+  // As are photos of pallets removed from the end
+  getRemovedPhotos(before, after)
+    .filter(photo => photo.palletIndex <= after.totalPallets)
+    .forEach(photo => {
+      changes.push(`Removed Pallet ${photo.palletIndex} - ${getSlotLabel(before.captureTemplate, photo.sideIndex)}`);
+    });
+
+  before.palletDetails.forEach(details => {
+    const updated = after.palletDetails.find(entry => entry.palletIndex === details.palletIndex);
+    if (updated && JSON.stringify(updated) !== JSON.stringify(details)) {
+      changes.push(`Updated details for pallet ${details.palletIndex}`);
+    } else if (!updated && details.palletIndex <= after.totalPallets) {
+      changes.push(`Removed details for pallet ${details.palletIndex}`);
+    }
+  });
+
+  return changes;
+};
@@ -0,0 +1,322 @@
+/**
+ * Session Export
+ * Bundles a session's photos into a single ZIP archive with a JSON and CSV manifest,
+ * pairing the unwrapped and wrapped photos of each pallet when both phases were taken
+ */
+
+import type { PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+import { createZip, ZipEntry } from '@/lib/zip';
+import { generateSecureExportName, generateSecureFilename } from '@/lib/security';
+import { getSlotLabel } from '@/lib/captureTemplates';
+import { hasAnnotation, renderAnnotatedImage } from '@/lib/annotations';
+import { PalletDetails, getPalletDetails } from '@/lib/palletDetails';
+import { getWrapPhases } from '@/lib/wrapPhases';
+import { getImageExtension } from '@/lib/imageOutput';
+import type { CameraSettings, CaptureDevice, CaptureLocation } from '@/lib/captureMetadata';
+import { toChecksumFile } from '@/lib/photoIntegrity';
+import { WatermarkSession, WatermarkSettings, getWatermarkLines, renderWatermark } from '@/lib/watermark';
+
+export interface ManifestPhoto {
+  fileName: string;
+  pallet: number;
+  side: number;
+  slot: string;
+  wrapStatus: string;
+  capturedAt: string;
+  location?: CaptureLocation;
+  device?: CaptureDevice;
+  camera?: CameraSettings;
+  captureMethod?: string;
+  // SHA-256 recorded when the photo was taken; the exported original should still hash to it
+  sha256?: string;
+  width: number;
+  height: number;
+  damage: string[];
+  notes: string;
+  annotatedFileName?: string;
+  watermarkedFileName?: string;
+}
+
+export interface SessionManifest {
+  sessionId: string;
+  customerName: string;
+  poNumber: string;
+  wrapStatus: string;
+  totalPallets: number;
+  captureTemplate: string;
+  sessionTimestamp: string;
+  exportedAt: string;
+  deviceId?: string;
+  // The other phase of a before/after pair, when its photos are included
+  linkedSessionId?: string;
+  pallets: PalletDetails[];
+  photos: ManifestPhoto[];
+}
+
+// Label used in place of a wrap status for exports that hold both phases
+const PAIRED_EXPORT_LABEL = 'before-after';
+
+export const uriToBlob = async (uri: string): Promise<Blob> => {
+  const response = await fetch(uri);
+  return response.blob();
+};
+
+/**
+ * Read an image's pixel dimensions without attaching it to the page
+ */
+export const getImageDimensions = async (blob: Blob): Promise<{ width: number; height: number }> => {
+  if ('createImageBitmap' in window) {
+    const bitmap = await createImageBitmap(blob);
+    const dimensions = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return dimensions;
+  }
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    img.onerror = (error) => {
+      URL.revokeObjectURL(url);
+      reject(error);
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Photos ordered by pallet, then by slot
+ */
+export const sortPhotos = (photos: PalletPhoto[]): PalletPhoto[] =>
+  [...photos].sort((a, b) => a.palletIndex - b.palletIndex || a.sideIndex - b.sideIndex);
+
+const csvEscape = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (manifest: SessionManifest): string => {
+  const header = [
+    'customer', 'po_number', 'wrap_status', 'pallet', 'side', 'slot', 'captured_at',
+    'latitude', 'longitude', 'location_accuracy_m', 'device', 'sha256',
+    'pallet_id', 'sku', 'case_count', 'weight', 'weight_unit', 'verdict',
+    'width', 'height', 'damage', 'notes', 'file_name', 'annotated_file_name', 'watermarked_file_name'
+  ];
+  const rows = manifest.photos.map(photo => {
+    const pallet = getPalletDetails(manifest.pallets, photo.pallet);
+    return [
+      manifest.customerName,
+      manifest.poNumber,
+      photo.wrapStatus,
+      photo.pallet,
+      photo.side,
+      photo.slot,
+      photo.capturedAt,
+      photo.location?.latitude ?? '',
+      photo.location?.longitude ?? '',
+      photo.location ? Math.round(photo.location.accuracy) : '',
+      photo.device?.model || '',
+      photo.sha256 || '',
+      pallet?.palletId || '',
+      pallet?.sku || '',
+      pallet?.caseCount ?? '',
+      pallet?.weight ?? '',
+      pallet?.weight !== undefined ? pallet.weightUnit : '',
+      pallet?.verdict || '',
+      photo.width,
+      photo.height,
+      photo.damage.join('; '),
+      photo.notes,
+      photo.fileName,
+      photo.annotatedFileName || '',
+      photo.watermarkedFileName || ''
+    ];
+  });
+  return [header, ...rows].map(row => row.map(csvEscape).join(',')).join('\n');
+};
+
+/**
+ * File name for the copy of a photo with markup burned in, keeping its extension
+ */
+export const toAnnotatedFileName = (fileName: string): string => fileName.replace(/(\.[^.]+)?$/, '_annotated$1');
+
+/**
+ * File name a photo is downloaded or shared under, marked when its markup is burned in.
+ * The extension follows the exported image's type, since photos can be JPEG, WebP or PNG.
+ */
+export const getExportFileName = (
+  session: Pick<PalletSession, 'customerName' | 'poNumber' | 'wrapStatus' | 'captureTemplate'>,
+  photo: PalletPhoto,
+  burnAnnotations: boolean,
+  mimeType: string
+): string => {
+  const { palletIndex, sideIndex } = photo;
+  const fileName = generateSecureFilename(
+    session.customerName,
+    session.poNumber,
+    session.wrapStatus || 'unwrapped',
+    palletIndex,
+    sideIndex,
+    getSlotLabel(session.captureTemplate, sideIndex),
+    getImageExtension(mimeType)
+  );
+  return burnAnnotations && hasAnnotation(photo.annotation) ? toAnnotatedFileName(fileName) : fileName;
+};
+
+/**
+ * Get a photo as a Blob, with its markup burned in when requested and present
+ */
+export const getExportBlob = async (photo: PalletPhoto, burnAnnotations: boolean): Promise<Blob> =>
+  burnAnnotations && hasAnnotation(photo.annotation)
+    ? renderAnnotatedImage(photo.photoUri, photo.annotation)
+    : uriToBlob(photo.photoUri);
+
+/**
+ * A single photo ready to download or share, named for its session and image type,
+ * stamped with the watermark when one is enabled
+ */
+export const exportPhoto = async (
+  session: WatermarkSession,
+  photo: PalletPhoto,
+  burnAnnotations: boolean,
+  watermark?: WatermarkSettings
+): Promise<{ blob: Blob; fileName: string }> => {
+  const exported = await getExportBlob(photo, burnAnnotations);
+  const blob = watermark?.enabled
+    ? await renderWatermark(exported, getWatermarkLines(session, photo), watermark)
+    : exported;
+  return { blob, fileName: getExportFileName(session, photo, burnAnnotations, blob.type) };
+};
+
+/**
+ * Build a ZIP of every photo in a session, grouped into one folder per pallet.
+ * With `burnAnnotations`, annotated copies are added under annotated/ next to the originals.
+ * With an enabled `watermark`, stamped copies (annotated, when those are added) go under watermarked/.
+ * With `linkedSession`, the other wrap phase's photos go next to each slot's photo.
+ * checksums.sha256 lists each original's capture hash for `sha256sum -c`; originals are never stamped.
+ */
+export const buildSessionZip = async (
+  session: PalletSession,
+  options: {
+    deviceId?: string;
+    burnAnnotations?: boolean;
+    linkedSession?: PalletSession;
+    watermark?: WatermarkSettings;
+  } = {}
+): Promise<{ blob: Blob; fileName: string }> => {
+  const { customerName, poNumber, wrapStatus, captureTemplate } = session;
+  const entries: ZipEntry[] = [];
+  const manifestPhotos: ManifestPhoto[] = [];
+
+  // Each photo with the session it came from, unwrapped before wrapped within a slot
+  const pair = options.linkedSession ? getWrapPhases(session, options.linkedSession) : null;
+  const phases = pair ? [pair.unwrapped, pair.wrapped] : [session];
+  const sources = phases
+    .flatMap((phase, order) => phase.photos.map(photo => ({ photo, phase, order })))
+    .sort((a, b) => a.photo.palletIndex - b.photo.palletIndex || a.photo.sideIndex - b.photo.sideIndex || a.order - b.order);
+
+  for (const { photo, phase } of sources) {
+    const { palletIndex, sideIndex } = photo;
+    const slot = getSlotLabel(phase.captureTemplate, sideIndex);
+    const blob = await uriToBlob(photo.photoUri);
+    const fileName = generateSecureFilename(customerName, poNumber, phase.wrapStatus, palletIndex, sideIndex, slot, getImageExtension(blob.type));
+    const { width, height } = await getImageDimensions(blob);
+    const capturedAt = new Date(photo.capturedAt || phase.timestamp);
+
+    entries.push({ name: `Pallet${palletIndex}/${fileName}`, data: blob, modifiedAt: capturedAt });
+
+    let annotatedFileName: string | undefined;
+    let annotated: Blob | undefined;
+    if (options.burnAnnotations && hasAnnotation(photo.annotation)) {
+      annotatedFileName = `annotated/Pallet${palletIndex}/${toAnnotatedFileName(fileName)}`;
+      annotated = await renderAnnotatedImage(blob, photo.annotation);
+      entries.push({ name: annotatedFileName, data: annotated, modifiedAt: capturedAt });
+    }
+
+    let watermarkedFileName: string | undefined;
+    if (options.watermark?.enabled) {
+      watermarkedFileName = `watermarked/Pallet${palletIndex}/${annotated ? toAnnotatedFileName(fileName) : fileName}`;
+      const stamped = await renderWatermark(annotated || blob, getWatermarkLines(phase, photo), options.watermark);
+      entries.push({ name: watermarkedFileName, data: stamped, modifiedAt: capturedAt });
+    }
+
+    manifestPhotos.push({
+      fileName: `Pallet${palletIndex}/${fileName}`,
+      pallet: palletIndex,
+      side: sideIndex,
+      slot,
+      wrapStatus: phase.wrapStatus,
+      capturedAt: capturedAt.toISOString(),
+      location: photo.metadata?.location,
+      device: photo.metadata?.device,
+      camera: photo.metadata?.camera,
+      captureMethod: photo.metadata?.method,
+      sha256: photo.sha256,
+      width,
+      height,
+      damage: photo.annotation?.damageCategories || [],
+      notes: photo.annotation?.notes || '',
+      annotatedFileName,
+      watermarkedFileName
+    });
+  }
+
+  const manifest: SessionManifest = {
+    sessionId: session.id,
+    customerName,
+    poNumber,
+    wrapStatus: options.linkedSession ? PAIRED_EXPORT_LABEL : wrapStatus,
+    totalPallets: Math.max(session.totalPallets, options.linkedSession?.totalPallets ?? 0),
+    captureTemplate: captureTemplate?.name || '4 sides',
+    sessionTimestamp: new Date(session.timestamp).toISOString(),
+    exportedAt: new Date().toISOString(),
+    deviceId: options.deviceId,
+    linkedSessionId: options.linkedSession?.id,
+    pallets: session.palletDetails || [],
+    photos: manifestPhotos
+  };
+
+  entries.push(
+    { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    { name: 'manifest.csv', data: manifestToCsv(manifest) }
+  );
+  const checksums = toChecksumFile(manifestPhotos);
+  if (checksums) {
+    entries.push({ name: 'checksums.sha256', data: `${checksums}\n` });
+  }
+
+  return {
+    blob: await createZip(entries),
+    fileName: generateSecureExportName(customerName, poNumber, options.linkedSession ? PAIRED_EXPORT_LABEL : wrapStatus, 'zip')
+  };
+};
+
+/**
+ * Save a generated file through a single anchor click
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser time to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
+
+/**
+ * Hand files to the native share sheet. Returns false when the browser can't share them.
+ */
+export const shareFiles = async (files: File[], title: string): Promise<boolean> => {
+  if (!navigator.share || (navigator.canShare && !navigator.canShare({ files }))) {
+    return false;
+  }
+
+  await navigator.share({ title, files });
+  return true;
+};
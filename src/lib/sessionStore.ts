@@ -0,0 +1,662 @@
+/**
+ * Session Store
+ * IndexedDB persistence for session metadata and photo blobs, encrypted at rest.
+ * Records written before encryption are still read, and sealed in the background.
+ */
+
+import type { PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+import { secureGetItem, secureError } from '@/lib/security';
+import type { PhotoAnnotation } from '@/lib/annotations';
+import { createThumbnail } from '@/lib/thumbnails';
+import {
+  DecryptionError,
+  SealedBlob,
+  SealedValue,
+  isSameSeal,
+  isSealedBlob,
+  openBlob,
+  openValue,
+  sealBlob,
+  sealValue
+} from '@/lib/encryption';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+  SESSIONS_STORE,
+  PHOTOS_STORE,
+  DRAFTS_STORE
+} from '@/lib/db';
+
+// The in-progress session is kept under a single fixed key
+const CURRENT_DRAFT_KEY = 'current';
+
+// Legacy localStorage key written by earlier versions
+export const LEGACY_SESSIONS_KEY = 'pallet_local_sessions';
+
+type StoredPhotoRef = Omit<PalletPhoto, 'photoUri' | 'thumbnailUri'>;
+
+export interface StoredSession extends Omit<PalletSession, 'photos'> {
+  photos: StoredPhotoRef[];
+}
+
+/**
+ * Checkpoint of a session that is still being captured
+ */
+export interface SessionDraft extends Omit<PalletSession, 'timestamp'> {
+  currentPallet: number;
+  currentSide: number;
+  updatedAt: number;
+  // Set when the draft is a saved session reopened for editing
+  editOf?: string;
+}
+
+interface StoredDraft extends Omit<SessionDraft, 'photos'> {
+  photos: StoredPhotoRef[];
+}
+
+// Session and draft records are encrypted whole; only the session ID stays readable, for lookups
+interface SealedRecord {
+  id: string;
+  sealed: SealedValue;
+}
+
+// Records saved before encryption hold their fields in plaintext
+type SessionRecord = SealedRecord | StoredSession;
+type DraftRecord = SealedRecord | StoredDraft;
+
+// Plain Blobs are photos saved before encryption
+type StoredImage = SealedBlob | Blob;
+
+interface StoredPhoto {
+  key: string;
+  sessionId: string;
+  palletIndex: number;
+  sideIndex: number;
+  blob: StoredImage;
+  // Missing for photos saved before thumbnails were generated
+  thumbnail?: StoredImage;
+}
+
+/**
+ * Sessions as loaded, with a count of records that couldn't be decrypted and were left out
+ */
+export interface LoadedSessions {
+  sessions: PalletSession[];
+  unreadable: number;
+}
+
+export const photoKey = (sessionId: string, palletIndex: number, sideIndex: number): string =>
+  `${sessionId}/${palletIndex}/${sideIndex}`;
+
+const uriToBlob = async (uri: string): Promise<Blob> => {
+  const response = await fetch(uri);
+  return response.blob();
+};
+
+// Object URLs are keyed by photo; a photo's thumbnail shares its key with a suffix
+const thumbnailUrlKey = (key: string): string => `${key}#thumbnail`;
+
+// Thumbnails are a convenience; a photo is still saved if one can't be made
+const tryCreateThumbnail = (blob: Blob): Promise<Blob | undefined> =>
+  createThumbnail(blob).catch(error => {
+    secureError('Error creating thumbnail', error);
+    return undefined;
+  });
+
+const toPhotoRef = ({ photoUri, thumbnailUri, ...ref }: PalletPhoto): StoredPhotoRef => ref;
+
+const isSealedRecord = (record: object): record is SealedRecord => 'sealed' in record;
+
+const openRecord = async <T extends object>(record: SealedRecord | T): Promise<T> =>
+  isSealedRecord(record) ? openValue<T>(record.sealed) : record;
+
+const sealRecord = async (record: StoredSession | StoredDraft): Promise<SealedRecord> =>
+  ({ id: record.id, sealed: await sealValue(record) });
+
+const openImage = (image: StoredImage): Promise<Blob> =>
+  isSealedBlob(image) ? openBlob(image) : Promise.resolve(image);
+
+// Whether a photo is unchanged since it was read, so work done on that copy can be saved
+const isSameImage = (a: StoredImage, b: StoredImage): boolean => {
+  if (isSealedBlob(a) && isSealedBlob(b)) return isSameSeal(a, b);
+  if (a instanceof Blob && b instanceof Blob && !isSealedBlob(a) && !isSealedBlob(b)) {
+    return a.size === b.size && a.type === b.type;
+  }
+  return false;
+};
+
+class SessionStore {
+  private objectUrls: Map<string, string> = new Map();
+  // Updates read, decrypt and re-encrypt a record outside any one transaction, so they run one at a time
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Object URL for a stored photo, reused across loads so it can be revoked later
+   */
+  private getObjectUrl(key: string, blob: Blob): string {
+    const existing = this.objectUrls.get(key);
+    if (existing) {
+      URL.revokeObjectURL(existing);
+    }
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(key, url);
+    return url;
+  }
+
+  private revokePhotoUrls(key: string): void {
+    [key, thumbnailUrlKey(key)].forEach(urlKey => {
+      const url = this.objectUrls.get(urlKey);
+      if (url) {
+        URL.revokeObjectURL(url);
+        this.objectUrls.delete(urlKey);
+      }
+    });
+  }
+
+  private revokeSessionUrls(sessionId: string): void {
+    this.objectUrls.forEach((url, key) => {
+      if (key.startsWith(`${sessionId}/`)) {
+        URL.revokeObjectURL(url);
+        this.objectUrls.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Attach object URLs to stored photo references, dropping any whose blob is missing or can't be decrypted
+   */
+  private async resolvePhotos(sessionId: string, refs: StoredPhotoRef[]): Promise<{ photos: PalletPhoto[]; unreadable: number }> {
+    // Every read is issued up front; decrypting in between would let the transaction close
+    const db = await openDatabase();
+    const photoStore = db.transaction(PHOTOS_STORE, 'readonly').objectStore(PHOTOS_STORE);
+    const records = await Promise.all(
+      refs.map(ref => requestToPromise<StoredPhoto | undefined>(
+        photoStore.get(photoKey(sessionId, ref.palletIndex, ref.sideIndex))
+      ))
+    );
+
+    let unreadable = 0;
+    const photos = await Promise.all(
+      refs.map(async (ref, index) => {
+        const record = records[index];
+        if (!record) return null;
+        try {
+          return await this.toPalletPhoto(ref, record);
+        } catch (error) {
+          if (!(error instanceof DecryptionError)) throw error;
+          unreadable++;
+          secureError('Error decrypting stored photo', error);
+          return null;
+        }
+      })
+    );
+    return { photos: photos.filter((photo): photo is PalletPhoto => photo !== null), unreadable };
+  }
+
+  private async toPalletPhoto(ref: StoredPhotoRef, record: StoredPhoto): Promise<PalletPhoto> {
+    const blob = await openImage(record.blob);
+    // A thumbnail that can't be read is only a missing thumbnail
+    const thumbnail = record.thumbnail ? await openImage(record.thumbnail).catch(() => undefined) : undefined;
+    return {
+      ...ref,
+      photoUri: this.getObjectUrl(record.key, blob),
+      thumbnailUri: thumbnail ? this.getObjectUrl(thumbnailUrlKey(record.key), thumbnail) : undefined
+    };
+  }
+
+  private async readSession(sessionId: string): Promise<StoredSession | null> {
+    const db = await openDatabase();
+    const record = await requestToPromise<SessionRecord | undefined>(
+      db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).get(sessionId)
+    );
+    return record ? openRecord<StoredSession>(record) : null;
+  }
+
+  private async writeSession(session: StoredSession): Promise<void> {
+    const record = await sealRecord(session);
+    const db = await openDatabase();
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).put(record);
+    await transactionDone(transaction);
+  }
+
+  private async readPhoto(key: IDBValidKey): Promise<StoredPhoto | undefined> {
+    const db = await openDatabase();
+    return requestToPromise<StoredPhoto | undefined>(
+      db.transaction(PHOTOS_STORE, 'readonly').objectStore(PHOTOS_STORE).get(key)
+    );
+  }
+
+  /**
+   * Replace a photo record only if its image hasn't changed since it was read
+   */
+  private async replacePhoto(read: StoredPhoto, changes: Partial<StoredPhoto>): Promise<boolean> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PHOTOS_STORE, 'readwrite');
+    const store = transaction.objectStore(PHOTOS_STORE);
+    // The photo may have been deleted or retaken in the meantime
+    const current = await requestToPromise<StoredPhoto | undefined>(store.get(read.key));
+    const unchanged = !!current && isSameImage(current.blob, read.blob);
+    if (current && unchanged) {
+      store.put({ ...current, ...changes });
+    }
+    await transactionDone(transaction);
+    return unchanged;
+  }
+
+  /**
+   * Save a session's metadata and all of its photos. Slots in `removedPhotos`, such as
+   * those an edit took away, have their stored photos deleted in the same write.
+   */
+  async saveSession(
+    session: PalletSession,
+    removedPhotos: Pick<PalletPhoto, 'palletIndex' | 'sideIndex'>[] = []
+  ): Promise<void> {
+    // Resolve and encrypt blobs before opening the transaction; awaiting inside it would auto-commit
+    const storedPhotos: StoredPhoto[] = await Promise.all(
+      session.photos.map(async ({ palletIndex, sideIndex, photoUri, thumbnailUri }) => {
+        const blob = await uriToBlob(photoUri);
+        const thumbnail = thumbnailUri ? await uriToBlob(thumbnailUri) : await tryCreateThumbnail(blob);
+        return {
+          key: photoKey(session.id, palletIndex, sideIndex),
+          sessionId: session.id,
+          palletIndex,
+          sideIndex,
+          blob: await sealBlob(blob),
+          thumbnail: thumbnail ? await sealBlob(thumbnail) : undefined
+        };
+      })
+    );
+
+    const { photos, ...meta } = session;
+    const removedKeys = removedPhotos
+      .filter(slot => !photos.some(photo => photo.palletIndex === slot.palletIndex && photo.sideIndex === slot.sideIndex))
+      .map(slot => photoKey(session.id, slot.palletIndex, slot.sideIndex));
+    const record = await sealRecord({
+      ...meta,
+      photos: photos.map(toPhotoRef)
+    });
+
+    await this.serialize(async () => {
+      const db = await openDatabase();
+      const transaction = db.transaction([SESSIONS_STORE, PHOTOS_STORE], 'readwrite');
+      transaction.objectStore(SESSIONS_STORE).put(record);
+      const photoStore = transaction.objectStore(PHOTOS_STORE);
+      storedPhotos.forEach(photo => photoStore.put(photo));
+      removedKeys.forEach(key => photoStore.delete(key));
+      await transactionDone(transaction);
+    });
+    removedKeys.forEach(key => this.revokePhotoUrls(key));
+  }
+
+  /**
+   * Save a single photo as soon as it is confirmed, with its thumbnail.
+   * Returns an object URL for the thumbnail, if one could be made.
+   */
+  async putPhoto(sessionId: string, palletIndex: number, sideIndex: number, photoUri: string): Promise<string | undefined> {
+    const blob = await uriToBlob(photoUri);
+    const thumbnail = await tryCreateThumbnail(blob);
+    const key = photoKey(sessionId, palletIndex, sideIndex);
+    const record: StoredPhoto = {
+      key,
+      sessionId,
+      palletIndex,
+      sideIndex,
+      blob: await sealBlob(blob),
+      thumbnail: thumbnail ? await sealBlob(thumbnail) : undefined
+    };
+    const db = await openDatabase();
+    const transaction = db.transaction(PHOTOS_STORE, 'readwrite');
+    transaction.objectStore(PHOTOS_STORE).put(record);
+    await transactionDone(transaction);
+    return thumbnail ? this.getObjectUrl(thumbnailUrlKey(key), thumbnail) : undefined;
+  }
+
+  /**
+   * Checkpoint the in-progress session. Photos are written separately via putPhoto.
+   */
+  async saveDraft(draft: SessionDraft): Promise<void> {
+    const { photos, ...meta } = draft;
+    // Checkpoints queue up so a slow encryption can't overwrite a newer one
+    await this.serialize(async () => {
+      const record = await sealRecord({
+        ...meta,
+        photos: photos.map(toPhotoRef)
+      });
+      const db = await openDatabase();
+      const transaction = db.transaction(DRAFTS_STORE, 'readwrite');
+      transaction.objectStore(DRAFTS_STORE).put(record, CURRENT_DRAFT_KEY);
+      await transactionDone(transaction);
+    });
+  }
+
+  /**
+   * Load the unfinished session, if any, with photos exposed as object URLs.
+   * Throws DecryptionError when the checkpoint can't be read.
+   */
+  async loadDraft(): Promise<SessionDraft | null> {
+    const db = await openDatabase();
+    const record = await requestToPromise<DraftRecord | undefined>(
+      db.transaction(DRAFTS_STORE, 'readonly').objectStore(DRAFTS_STORE).get(CURRENT_DRAFT_KEY)
+    );
+    if (!record) {
+      return null;
+    }
+
+    const stored = await openRecord<StoredDraft>(record);
+    const { photos } = await this.resolvePhotos(stored.id, stored.photos);
+    return { ...stored, photos };
+  }
+
+  /**
+   * Remove the draft checkpoint. Its photos are kept when the draft became a saved session,
+   * and never deleted while a saved session uses them. Pass `sessionId` to leave a checkpoint
+   * that belongs to some other session alone.
+   */
+  async clearDraft({ discardPhotos, sessionId }: { discardPhotos: boolean; sessionId?: string }): Promise<void> {
+    // Queued behind any checkpoint still being written, which would otherwise bring the draft back
+    const draft = await this.serialize(async () => {
+      const db = await openDatabase();
+      // The session ID is readable without decrypting, so an unreadable draft can still be cleared
+      const record = await requestToPromise<DraftRecord | undefined>(
+        db.transaction(DRAFTS_STORE, 'readonly').objectStore(DRAFTS_STORE).get(CURRENT_DRAFT_KEY)
+      );
+
+      if (record && sessionId && record.id !== sessionId) return null;
+
+      const transaction = db.transaction([DRAFTS_STORE, PHOTOS_STORE, SESSIONS_STORE], 'readwrite');
+      transaction.objectStore(DRAFTS_STORE).delete(CURRENT_DRAFT_KEY);
+      let photosDiscarded = false;
+      if (record && discardPhotos) {
+        const savedKey = await requestToPromise(transaction.objectStore(SESSIONS_STORE).getKey(record.id));
+        if (savedKey === undefined) {
+          const photoKeys = await requestToPromise(
+            transaction.objectStore(PHOTOS_STORE).index('sessionId').getAllKeys(record.id)
+          );
+          photoKeys.forEach(key => transaction.objectStore(PHOTOS_STORE).delete(key));
+          photosDiscarded = true;
+        }
+      }
+      await transactionDone(transaction);
+      return photosDiscarded ? record : null;
+    });
+
+    if (draft) {
+      this.revokeSessionUrls(draft.id);
+    }
+  }
+
+  /**
+   * Load all sessions, newest first, with photos exposed as object URLs.
+   * Sessions and photos that can't be decrypted are left out and counted.
+   */
+  async loadSessions(): Promise<LoadedSessions> {
+    const db = await openDatabase();
+    const records = await requestToPromise<SessionRecord[]>(
+      db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).getAll()
+    );
+
+    const sessions: PalletSession[] = [];
+    let unreadable = 0;
+    // One session at a time, so only one session's photos are being decrypted at once
+    for (const record of records) {
+      try {
+        const stored = await openRecord<StoredSession>(record);
+        const resolved = await this.resolvePhotos(stored.id, stored.photos);
+        sessions.push({ ...stored, photos: resolved.photos });
+        unreadable += resolved.unreadable;
+      } catch (error) {
+        if (!(error instanceof DecryptionError)) throw error;
+        unreadable++;
+        secureError('Error decrypting stored session', error);
+      }
+    }
+
+    return { sessions: sessions.sort((a, b) => b.timestamp - a.timestamp), unreadable };
+  }
+
+  /**
+   * Load one saved session with photos exposed as object URLs
+   */
+  async loadSession(sessionId: string): Promise<PalletSession | null> {
+    const stored = await this.readSession(sessionId);
+    if (!stored) {
+      return null;
+    }
+
+    const { photos } = await this.resolvePhotos(stored.id, stored.photos);
+    return { ...stored, photos };
+  }
+
+  /**
+   * Copy a saved session's photos under another session ID, so they can be
+   * changed there without touching the originals
+   */
+  async copyPhotos(fromSessionId: string, toSessionId: string, refs: StoredPhotoRef[]): Promise<PalletPhoto[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PHOTOS_STORE, 'readwrite');
+    const photoStore = transaction.objectStore(PHOTOS_STORE);
+
+    const copied = await Promise.all(
+      refs.map(async (ref) => {
+        const record = await requestToPromise<StoredPhoto | undefined>(
+          photoStore.get(photoKey(fromSessionId, ref.palletIndex, ref.sideIndex))
+        );
+        if (!record) return null;
+        const copy: StoredPhoto = { ...record, key: photoKey(toSessionId, ref.palletIndex, ref.sideIndex), sessionId: toSessionId };
+        photoStore.put(copy);
+        return { ref, copy };
+      })
+    );
+    await transactionDone(transaction);
+
+    const photos = copied.filter((entry): entry is { ref: StoredPhotoRef; copy: StoredPhoto } => entry !== null);
+    return Promise.all(photos.map(({ ref, copy }) => this.toPalletPhoto(ref, copy)));
+  }
+
+  /**
+   * Read a single session's metadata without resolving its photos
+   */
+  async getSessionMeta(sessionId: string): Promise<StoredSession | null> {
+    return this.readSession(sessionId);
+  }
+
+  /**
+   * Update fields on a saved session without touching its photos
+   */
+  async updateSession(sessionId: string, changes: Partial<Omit<PalletSession, 'id' | 'photos'>>): Promise<void> {
+    await this.serialize(async () => {
+      const stored = await this.readSession(sessionId);
+      if (stored) {
+        await this.writeSession({ ...stored, ...changes });
+      }
+    });
+  }
+
+  /**
+   * Replace the annotation on one photo of a saved session
+   */
+  async updatePhotoAnnotation(sessionId: string, palletIndex: number, sideIndex: number, annotation: PhotoAnnotation): Promise<void> {
+    await this.serialize(async () => {
+      const stored = await this.readSession(sessionId);
+      if (stored) {
+        await this.writeSession({
+          ...stored,
+          photos: stored.photos.map(photo =>
+            photo.palletIndex === palletIndex && photo.sideIndex === sideIndex ? { ...photo, annotation } : photo
+          )
+        });
+      }
+    });
+  }
+
+  /**
+   * Read and decrypt the blob for one stored photo
+   */
+  async getPhotoBlob(sessionId: string, palletIndex: number, sideIndex: number): Promise<Blob | null> {
+    const record = await this.readPhoto(photoKey(sessionId, palletIndex, sideIndex));
+    return record ? openImage(record.blob) : null;
+  }
+
+  /**
+   * Read the thumbnail for one stored photo, making one if it was saved before thumbnails existed
+   */
+  async getThumbnailBlob(sessionId: string, palletIndex: number, sideIndex: number): Promise<Blob | null> {
+    const record = await this.readPhoto(photoKey(sessionId, palletIndex, sideIndex));
+    if (!record) return null;
+    return record.thumbnail ? openImage(record.thumbnail) : createThumbnail(await openImage(record.blob));
+  }
+
+  /**
+   * Make thumbnails for photos saved before they existed, one at a time so older devices stay responsive.
+   * Returns how many were added; they are picked up the next time sessions are loaded.
+   */
+  async createMissingThumbnails(): Promise<number> {
+    const db = await openDatabase();
+    const keys = await requestToPromise(
+      db.transaction(PHOTOS_STORE, 'readonly').objectStore(PHOTOS_STORE).getAllKeys()
+    );
+
+    let created = 0;
+    for (const key of keys) {
+      const record = await this.readPhoto(key);
+      if (!record || record.thumbnail) continue;
+
+      let thumbnail: Blob | undefined;
+      try {
+        thumbnail = await tryCreateThumbnail(await openImage(record.blob));
+      } catch (error) {
+        secureError('Error decrypting stored photo', error);
+      }
+      if (!thumbnail) continue;
+
+      if (await this.replacePhoto(record, { thumbnail: await sealBlob(thumbnail) })) {
+        created++;
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Encrypt sessions, drafts and photos saved before encryption at rest, one record at a time.
+   * Returns how many records were sealed.
+   */
+  async sealPlaintextRecords(): Promise<number> {
+    const db = await openDatabase();
+    let sealed = 0;
+
+    const sessions = await requestToPromise<SessionRecord[]>(
+      db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).getAll()
+    );
+    for (const session of sessions) {
+      if (isSealedRecord(session)) continue;
+      // Re-read inside the queue: an update may have sealed it already
+      await this.serialize(async () => {
+        const current = await requestToPromise<SessionRecord | undefined>(
+          db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).get(session.id)
+        );
+        if (current && !isSealedRecord(current)) {
+          await this.writeSession(current);
+          sealed++;
+        }
+      });
+    }
+
+    await this.serialize(async () => {
+      const draft = await requestToPromise<DraftRecord | undefined>(
+        db.transaction(DRAFTS_STORE, 'readonly').objectStore(DRAFTS_STORE).get(CURRENT_DRAFT_KEY)
+      );
+      if (!draft || isSealedRecord(draft)) return;
+      const record = await sealRecord(draft);
+      const transaction = db.transaction(DRAFTS_STORE, 'readwrite');
+      transaction.objectStore(DRAFTS_STORE).put(record, CURRENT_DRAFT_KEY);
+      await transactionDone(transaction);
+      sealed++;
+    });
+
+    const keys = await requestToPromise(
+      db.transaction(PHOTOS_STORE, 'readonly').objectStore(PHOTOS_STORE).getAllKeys()
+    );
+    for (const key of keys) {
+      const record = await this.readPhoto(key);
+      if (!record || (isSealedBlob(record.blob) && (!record.thumbnail || isSealedBlob(record.thumbnail)))) continue;
+
+      const changes: Partial<StoredPhoto> = {
+        blob: isSealedBlob(record.blob) ? record.blob : await sealBlob(record.blob),
+        thumbnail: record.thumbnail && !isSealedBlob(record.thumbnail) ? await sealBlob(record.thumbnail) : record.thumbnail
+      };
+      if (await this.replacePhoto(record, changes)) {
+        sealed++;
+      }
+    }
+    return sealed;
+  }
+
+  /**
+   * Delete a session and every photo stored under it
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    // Queued behind pending updates so one can't write the session back after it's gone
+    await this.serialize(async () => {
+      const db = await openDatabase();
+      const transaction = db.transaction([SESSIONS_STORE, PHOTOS_STORE], 'readwrite');
+      transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+      const photoKeys = await requestToPromise(
+        transaction.objectStore(PHOTOS_STORE).index('sessionId').getAllKeys(sessionId)
+      );
+      photoKeys.forEach(key => transaction.objectStore(PHOTOS_STORE).delete(key));
+      await transactionDone(transaction);
+    });
+
+    this.revokeSessionUrls(sessionId);
+  }
+
+  /**
+   * Move sessions from the legacy localStorage key into IndexedDB.
+   * The legacy key is only removed once every readable session has been written.
+   */
+  async migrateLegacySessions(): Promise<number> {
+    if (localStorage.getItem(LEGACY_SESSIONS_KEY) === null) {
+      return 0;
+    }
+
+    // Read as-is: the sessions move to IndexedDB, so there's no point re-encrypting them here
+    const legacySessions = await secureGetItem(LEGACY_SESSIONS_KEY, { upgradeLegacy: false });
+    if (!Array.isArray(legacySessions)) {
+      localStorage.removeItem(LEGACY_SESSIONS_KEY);
+      return 0;
+    }
+
+    let migrated = 0;
+    let failed = 0;
+    for (const session of legacySessions) {
+      // Entries without an ID or photo list were never readable; drop them
+      if (!session || typeof session.id !== 'string' || !Array.isArray(session.photos)) {
+        continue;
+      }
+      try {
+        await this.saveSession(session);
+        migrated++;
+      } catch (error) {
+        failed++;
+        secureError('Error migrating legacy session', error);
+      }
+    }
+
+    if (failed === 0) {
+      localStorage.removeItem(LEGACY_SESSIONS_KEY);
+    }
+    console.log(`📦 Migrated ${migrated} legacy sessions to IndexedDB (${failed} failed)`);
+    return migrated;
+  }
+}
+
+// Singleton instance
+export const sessionStore = new SessionStore();
@@ -0,0 +1,350 @@
+/**
+ * Team History
+ * Teams, and a history that merges this device's saved sessions with
+ * sessions teammates uploaded from other devices, with search, filters and sorting
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+import { DamageCategory, MarkupShape } from '@/lib/annotations';
+import { CaptureTemplate, getCaptureTemplate } from '@/lib/captureTemplates';
+import { PalletDetails } from '@/lib/palletDetails';
+import type { SessionEdit } from '@/lib/sessionEdits';
+import type { CaptureMetadata } from '@/lib/captureMetadata';
+import { createSignedPhotoUrls } from '@/lib/photoStorage';
+
+export interface TeamMember {
+  userId: string;
+  displayName: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  members: TeamMember[];
+}
+
+export interface RemoteSessionRow {
+  id: string;
+  customer_name: string;
+  po_number: string;
+  total_pallets: number;
+  wrap_status: 'unwrapped' | 'wrapped' | null;
+  capture_template_id: string | null;
+  device_id: string;
+  user_id: string | null;
+  team_id: string | null;
+  captured_at: string | null;
+  created_at: string;
+  edit_history?: SessionEdit[] | null;
+  linked_session_id?: string | null;
+  pallet_photos?: { count: number }[];
+}
+
+// The *_url columns hold storage paths; signPhotoRows swaps them for links that can be loaded
+export interface RemotePhotoRow {
+  session_id: string;
+  pallet_index: number;
+  side_index: number;
+  photo_url: string;
+  annotated_url: string | null;
+  thumbnail_url?: string | null;
+  captured_at?: string | null;
+  capture_metadata?: CaptureMetadata | null;
+  sha256?: string | null;
+  notes: string | null;
+  damage_categories: DamageCategory[] | null;
+  markup: MarkupShape[] | null;
+}
+
+export interface RemotePalletDetailsRow {
+  pallet_index: number;
+  pallet_id: string | null;
+  sku: string | null;
+  case_count: number | null;
+  weight: number | null;
+  weight_unit: 'kg' | 'lb';
+  verdict: PalletDetails['verdict'];
+}
+
+export interface HistoryEntry {
+  session: PalletSession;
+  // Local sessions have their photos on this device; remote ones are fetched on demand
+  source: 'local' | 'remote';
+  deviceId: string;
+  userId?: string;
+  photoCount: number;
+}
+
+// 'local' means saved on this device and never queued for upload
+export type HistorySyncState = 'local' | 'pending' | 'error' | 'synced';
+
+export const HISTORY_SYNC_STATES: { id: HistorySyncState; label: string }[] = [
+  { id: 'synced', label: 'Synced' },
+  { id: 'pending', label: 'Uploading' },
+  { id: 'error', label: 'Upload failed' },
+  { id: 'local', label: 'Not uploaded' }
+];
+
+export type HistorySort = 'newest' | 'oldest' | 'customer' | 'pallets';
+
+export const HISTORY_SORTS: { id: HistorySort; label: string }[] = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+  { id: 'customer', label: 'Customer A-Z' },
+  { id: 'pallets', label: 'Most pallets' }
+];
+
+export interface HistoryFilters {
+  // Matched against customer name and PO number
+  query?: string;
+  wrapStatus?: 'unwrapped' | 'wrapped';
+  syncState?: HistorySyncState;
+  deviceId?: string;
+  userId?: string;
+  customerName?: string;
+  // Inclusive day range as yyyy-MM-dd, in local time
+  from?: string;
+  to?: string;
+}
+
+/**
+ * The signed-in user's team and its members, or null if they aren't in one
+ */
+export const fetchTeam = async (client: SupabaseClient, userId: string): Promise<Team | null> => {
+  const { data: membership, error } = await client
+    .from('team_members')
+    .select('team_id, teams(name)')
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!membership) return null;
+
+  const { data: members, error: membersError } = await client
+    .from('team_members')
+    .select('user_id, display_name')
+    .eq('team_id', membership.team_id)
+    .order('display_name', { ascending: true });
+  if (membersError) throw membersError;
+
+  const team = membership.teams as unknown as { name: string } | null;
+  return {
+    id: membership.team_id,
+    name: team?.name || 'Team',
+    members: (members || []).map(member => ({ userId: member.user_id, displayName: member.display_name }))
+  };
+};
+
+/**
+ * Replace the stored photo paths on these rows with short-lived signed links.
+ * A photo the signed-in driver may not read is left without one.
+ */
+export const signPhotoRows = async <T extends RemotePhotoRow>(client: SupabaseClient, rows: T[]): Promise<T[]> => {
+  const signed = await createSignedPhotoUrls(
+    client,
+    rows.flatMap(row => [row.photo_url, row.annotated_url || '', row.thumbnail_url || ''])
+  );
+  return rows.map(row => ({
+    ...row,
+    photo_url: signed.get(row.photo_url) || '',
+    annotated_url: row.annotated_url ? signed.get(row.annotated_url) || null : null,
+    thumbnail_url: row.thumbnail_url ? signed.get(row.thumbnail_url) || null : null
+  }));
+};
+
+export const fromRemotePhoto = (row: RemotePhotoRow): PalletPhoto => ({
+  palletIndex: row.pallet_index,
+  sideIndex: row.side_index,
+  photoUri: row.photo_url,
+  thumbnailUri: row.thumbnail_url || undefined,
+  capturedAt: row.captured_at ? new Date(row.captured_at).getTime() : undefined,
+  metadata: row.capture_metadata || undefined,
+  sha256: row.sha256 || undefined,
+  annotation: {
+    notes: row.notes || '',
+    damageCategories: row.damage_categories || [],
+    markup: row.markup || []
+  }
+});
+
+const fromRemoteSession = (row: RemoteSessionRow): HistoryEntry => ({
+  session: {
+    id: row.id,
+    customerName: row.customer_name,
+    poNumber: row.po_number,
+    wrapStatus: row.wrap_status || 'unwrapped',
+    totalPallets: row.total_pallets,
+    captureTemplate: getCaptureTemplate(row.capture_template_id || undefined),
+    photos: [],
+    palletDetails: [],
+    timestamp: new Date(row.captured_at || row.created_at).getTime(),
+    syncStatus: 'synced',
+    userId: row.user_id || undefined,
+    edits: row.edit_history || [],
+    linkedSessionId: row.linked_session_id || undefined
+  },
+  source: 'remote',
+  deviceId: row.device_id,
+  userId: row.user_id || undefined,
+  photoCount: row.pallet_photos?.[0]?.count ?? 0
+});
+
+const fromRemotePalletDetails = (row: RemotePalletDetailsRow): PalletDetails => ({
+  palletIndex: row.pallet_index,
+  palletId: row.pallet_id || '',
+  sku: row.sku || '',
+  caseCount: row.case_count ?? undefined,
+  weight: row.weight ?? undefined,
+  weightUnit: row.weight_unit,
+  verdict: row.verdict
+});
+
+/**
+ * An uploaded session with its photos and pallet details, or null if it
+ * doesn't exist or RLS hides it from the signed-in driver
+ */
+export const fetchRemoteSession = async (client: SupabaseClient, sessionId: string): Promise<PalletSession | null> => {
+  const { data: row, error } = await client
+    .from('pallet_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!row) return null;
+
+  const [photos, details] = await Promise.all([
+    client
+      .from('pallet_photos')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('pallet_index', { ascending: true })
+      .order('side_index', { ascending: true }),
+    client
+      .from('pallet_details')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('pallet_index', { ascending: true })
+  ]);
+  if (photos.error) throw photos.error;
+  if (details.error) throw details.error;
+
+  const photoRows = await signPhotoRows(client, photos.data as RemotePhotoRow[]);
+  return {
+    ...fromRemoteSession(row as RemoteSessionRow).session,
+    photos: photoRows.map(fromRemotePhoto),
+    palletDetails: (details.data as RemotePalletDetailsRow[]).map(fromRemotePalletDetails)
+  };
+};
+
+// An uploaded photo found by its hash, with enough of its session to name it
+export interface RemotePhotoMatch {
+  sessionId: string;
+  customerName: string;
+  poNumber: string;
+  captureTemplate: CaptureTemplate;
+  photo: PalletPhoto;
+}
+
+/**
+ * Uploaded photos recorded with this SHA-256 that the signed-in driver can see
+ */
+export const findRemotePhotosByHash = async (client: SupabaseClient, sha256: string): Promise<RemotePhotoMatch[]> => {
+  const { data, error } = await client
+    .from('pallet_photos')
+    .select('*, pallet_sessions(customer_name, po_number, capture_template_id)')
+    .eq('sha256', sha256);
+  if (error) throw error;
+
+  type Row = RemotePhotoRow & {
+    pallet_sessions: Pick<RemoteSessionRow, 'customer_name' | 'po_number' | 'capture_template_id'> | null;
+  };
+  const rows = await signPhotoRows(client, data as Row[]);
+  return rows.map(row => ({
+    sessionId: row.session_id,
+    customerName: row.pallet_sessions?.customer_name || '',
+    poNumber: row.pallet_sessions?.po_number || '',
+    captureTemplate: getCaptureTemplate(row.pallet_sessions?.capture_template_id || undefined),
+    photo: fromRemotePhoto(row)
+  }));
+};
+
+/**
+ * One list of local and remote sessions, newest first. A session that is
+ * both on this device and uploaded is shown once, from the local copy.
+ */
+export const mergeHistory = (localSessions: PalletSession[], remoteRows: RemoteSessionRow[], deviceId: string): HistoryEntry[] => {
+  const localIds = new Set(localSessions.map(session => session.id));
+  const local: HistoryEntry[] = localSessions.map(session => ({
+    session,
+    source: 'local',
+    deviceId,
+    userId: session.userId,
+    photoCount: session.photos.length
+  }));
+  const remote = remoteRows.filter(row => !localIds.has(row.id)).map(fromRemoteSession);
+
+  return [...local, ...remote].sort((a, b) => b.session.timestamp - a.session.timestamp);
+};
+
+const dayStart = (day: string): number => new Date(`${day}T00:00:00`).getTime();
+
+export const getSyncState = (entry: HistoryEntry): HistorySyncState => {
+  switch (entry.session.syncStatus) {
+    case 'synced':
+      return 'synced';
+    case 'error':
+      return 'error';
+    case 'pending':
+    case 'syncing':
+      return 'pending';
+    default:
+      return 'local';
+  }
+};
+
+export const filterHistory = (entries: HistoryEntry[], filters: HistoryFilters): HistoryEntry[] => {
+  const from = filters.from ? dayStart(filters.from) : -Infinity;
+  // Up to the end of the chosen day
+  const to = filters.to ? dayStart(filters.to) + 24 * 60 * 60 * 1000 : Infinity;
+  const query = filters.query?.trim().toLowerCase();
+
+  return entries.filter(entry =>
+    (!query ||
+      entry.session.customerName.toLowerCase().includes(query) ||
+      entry.session.poNumber.toLowerCase().includes(query)) &&
+    (!filters.wrapStatus || entry.session.wrapStatus === filters.wrapStatus) &&
+    (!filters.syncState || getSyncState(entry) === filters.syncState) &&
+    (!filters.deviceId || entry.deviceId === filters.deviceId) &&
+    (!filters.userId || entry.userId === filters.userId) &&
+    (!filters.customerName || entry.session.customerName === filters.customerName) &&
+    entry.session.timestamp >= from &&
+    entry.session.timestamp < to
+  );
+};
+
+/**
+ * Sorted copy of the entries; ties fall back to newest first
+ */
+export const sortHistory = (entries: HistoryEntry[], sort: HistorySort): HistoryEntry[] => {
+  const newestFirst = (a: HistoryEntry, b: HistoryEntry) => b.session.timestamp - a.session.timestamp;
+  const compare: Record<HistorySort, (a: HistoryEntry, b: HistoryEntry) => number> = {
+    newest: newestFirst,
+    oldest: (a, b) => a.session.timestamp - b.session.timestamp,
+    customer: (a, b) => a.session.customerName.localeCompare(b.session.customerName, undefined, { sensitivity: 'base' }) || newestFirst(a, b),
+    pallets: (a, b) => b.session.totalPallets - a.session.totalPallets || newestFirst(a, b)
+  };
+  return [...entries].sort(compare[sort]);
+};
+
+/**
+ * Short, stable name for a device, e.g. "Device 3f9a2c"
+ */
+export const getDeviceLabel = (deviceId: string, currentDeviceId: string): string =>
+  deviceId === currentDeviceId ? 'This device' : `Device ${deviceId.slice(0, 6)}`;
+
+export const getMemberName = (userId: string | undefined, team: Team | null, currentUserId: string | null): string => {
+  if (!userId) return 'Unknown driver';
+  if (userId === currentUserId) return 'Me';
+  return team?.members.find(member => member.userId === userId)?.displayName || 'Former team member';
+};
@@ -0,0 +1,19 @@
+/**
+ * Thumbnails
+ * Small JPEG previews made at capture time so grids never decode full-resolution photos
+ */
+
+import type { PalletPhoto } from '@/contexts/PalletContext';
+import { encodeImageBlob } from '@/lib/imageOutput';
+
+// Enough for a tile on a high-density phone screen
+export const THUMBNAIL_MAX_EDGE = 400;
+const THUMBNAIL_QUALITY = 0.7;
+
+export const createThumbnail = (photo: Blob): Promise<Blob> =>
+  encodeImageBlob(photo, { format: 'jpeg', quality: THUMBNAIL_QUALITY, maxEdge: THUMBNAIL_MAX_EDGE });
+
+/**
+ * Image to show in a grid tile, falling back to the full photo for photos saved before thumbnails
+ */
+export const getThumbnailUri = (photo: PalletPhoto): string => photo.thumbnailUri || photo.photoUri;
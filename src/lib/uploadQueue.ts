@@ -0,0 +1,619 @@
+/**
+ * Upload Queue
+ * Persistent outbound queue that syncs saved sessions to Supabase, one photo at a time,
+ * retrying failed steps with exponential backoff
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PalletSession } from '@/contexts/PalletContext';
+import type { RemotePhotoRow } from '@/lib/teamHistory';
+import { openDatabase, requestToPromise, transactionDone, UPLOADS_STORE } from '@/lib/db';
+import { sessionStore } from '@/lib/sessionStore';
+import { secureError } from '@/lib/security';
+import { renderAnnotatedImage } from '@/lib/annotations';
+import { getImageExtension } from '@/lib/imageOutput';
+import { hashBlob } from '@/lib/photoIntegrity';
+import { STORAGE_BUCKET, toStoragePath } from '@/lib/photoStorage';
+
+export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'error';
+
+export interface SyncProgress {
+  sessionId: string;
+  status: SyncStatus;
+  total: number;
+  completed: number;
+  lastError?: string;
+}
+
+// A photo is uploaded to storage first, then recorded in the pallet_photos table
+type PhotoUploadState = 'pending' | 'uploaded' | 'recorded';
+
+interface PhotoSlot {
+  palletIndex: number;
+  sideIndex: number;
+}
+
+const isSameSlot = (a: PhotoSlot, b: PhotoSlot): boolean =>
+  a.palletIndex === b.palletIndex && a.sideIndex === b.sideIndex;
+
+interface QueuedPhoto {
+  palletIndex: number;
+  sideIndex: number;
+  state: PhotoUploadState;
+  // Storage paths, recorded in the *_url columns and signed when viewed
+  photoUrl?: string;
+  annotatedUrl?: string;
+  thumbnailUrl?: string;
+  attempts: number;
+  // Infinity once the photo has run out of attempts
+  nextAttemptAt: number;
+  lastError?: string;
+  // Generation of the job that queued this photo; a re-queue gives it a newer one
+  generation?: number;
+}
+
+interface UploadJob {
+  sessionId: string;
+  deviceId: string;
+  // Signed-in user who saved the session; only their client uploads it
+  userId?: string;
+  sessionRecorded: boolean;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  photos: QueuedPhoto[];
+  createdAt: number;
+  // Bumped on every enqueue, so a run can tell whether new work arrived while it was uploading
+  generation?: number;
+  // Generation that last asked for the session row to be sent
+  sessionGeneration?: number;
+  // Photo slots and pallets an edit removed; deleted remotely along with the session row
+  removedPhotos?: PhotoSlot[];
+  removedPallets?: number[];
+}
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+// Failures allowed for one step before it is given up on until the session is queued again
+const MAX_ATTEMPTS = 10;
+
+/**
+ * Exponential backoff with +/-20% jitter so many devices don't retry in lockstep
+ */
+const retryDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+// Backoff for the next try, or never once the attempts are used up
+const nextAttemptTime = (attempts: number): number =>
+  attempts >= MAX_ATTEMPTS ? Infinity : Date.now() + retryDelay(attempts);
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error';
+
+class UploadQueue {
+  private client: SupabaseClient | null = null;
+  private userId: string | null = null;
+  private teamId: string | null = null;
+  private listeners: Set<(progress: SyncProgress) => void> = new Set();
+  private processing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onlineListenerAdded = false;
+  // Read-modify-writes of stored jobs run one at a time, so enqueue and processing can't overwrite each other
+  private jobWrites: Promise<unknown> = Promise.resolve();
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.jobWrites.then(task);
+    this.jobWrites = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Provide the signed-in Supabase client and start processing that user's queued work.
+   * Sessions are shared with `teamId` when the user belongs to a team.
+   */
+  setClient(client: SupabaseClient | null, userId: string | null = null, teamId: string | null = null): void {
+    this.client = client;
+    this.userId = client ? userId : null;
+    this.teamId = client ? teamId : null;
+
+    if (!this.onlineListenerAdded) {
+      // Connectivity coming back is the most likely moment for a retry to succeed
+      window.addEventListener('online', () => this.schedule(0));
+      this.onlineListenerAdded = true;
+    }
+
+    this.schedule(0);
+  }
+
+  /**
+   * Listen for progress changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (progress: SyncProgress) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a saved session for upload. Re-queuing a session restarts its upload, and gives
+   * steps that ran out of attempts a fresh set; pass `onlyPhotos` to re-send just those
+   * photos, e.g. after an annotation changes, and `resendSession` when the session's own
+   * fields changed too. `removedPhotos` and `removedPallets` are deleted from the cloud
+   * when the session row is re-sent.
+   */
+  async enqueue(
+    session: PalletSession,
+    deviceId: string,
+    onlyPhotos?: PhotoSlot[],
+    { resendSession = false, removedPhotos = [], removedPallets = [] }: {
+      resendSession?: boolean;
+      removedPhotos?: PhotoSlot[];
+      removedPallets?: number[];
+    } = {}
+  ): Promise<void> {
+    const now = Date.now();
+    const isSelected = (palletIndex: number, sideIndex: number) =>
+      !onlyPhotos || onlyPhotos.some(photo => isSameSlot(photo, { palletIndex, sideIndex }));
+    const resendRow = resendSession || removedPhotos.length > 0 || removedPallets.length > 0;
+
+    const job = await this.serialize(async () => {
+      const existing = await this.getJob(session.id);
+      const generation = (existing?.generation ?? 0) + 1;
+      // A partial re-send goes to a session row that already exists, unless its fields were edited
+      const keepSessionRow = !!onlyPhotos && !resendRow && !!existing && isFinite(existing.nextAttemptAt);
+      const job: UploadJob = {
+        sessionId: session.id,
+        deviceId,
+        userId: existing?.userId || this.userId || undefined,
+        sessionRecorded: keepSessionRow
+          ? existing.sessionRecorded
+          : !!onlyPhotos && !resendRow && (existing?.sessionRecorded ?? session.syncStatus === 'synced'),
+        attempts: keepSessionRow ? existing.attempts : 0,
+        nextAttemptAt: keepSessionRow ? existing.nextAttemptAt : now,
+        lastError: keepSessionRow ? existing.lastError : undefined,
+        photos: session.photos.flatMap(({ palletIndex, sideIndex }) => {
+          // Keep photos that were already waiting in the queue, unless they had given up
+          const previous = onlyPhotos && existing?.photos.find(photo => photo.palletIndex === palletIndex && photo.sideIndex === sideIndex);
+          if (previous && !isSelected(palletIndex, sideIndex) && isFinite(previous.nextAttemptAt)) {
+            return [previous];
+          }
+          if (previous || isSelected(palletIndex, sideIndex)) {
+            return [{ palletIndex, sideIndex, state: 'pending' as PhotoUploadState, attempts: 0, nextAttemptAt: now, generation }];
+          }
+          return [];
+        }),
+        createdAt: existing?.createdAt || now,
+        generation,
+        sessionGeneration: keepSessionRow ? existing.sessionGeneration : generation,
+        // Removals still waiting from an earlier edit carry over, unless the slot has been filled again
+        removedPhotos: [...(existing?.removedPhotos || []), ...removedPhotos]
+          .filter((slot, index, all) => all.findIndex(other => isSameSlot(other, slot)) === index)
+          .filter(slot => !session.photos.some(photo => isSameSlot(photo, slot))),
+        removedPallets: [...new Set([...(existing?.removedPallets || []), ...removedPallets])]
+          .filter(palletIndex =>
+            palletIndex > session.totalPallets || !session.palletDetails?.some(details => details.palletIndex === palletIndex)
+          )
+      };
+
+      await this.saveJob(job);
+      await sessionStore.updateSession(session.id, { syncStatus: 'pending', syncError: undefined });
+      return job;
+    });
+    this.notify(job);
+    this.schedule(0);
+  }
+
+  /**
+   * Drop a session from the queue, e.g. when it is deleted locally
+   */
+  async remove(sessionId: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(UPLOADS_STORE, 'readwrite');
+    transaction.objectStore(UPLOADS_STORE).delete(sessionId);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Current progress for every session still in the queue
+   */
+  async getProgress(): Promise<SyncProgress[]> {
+    const jobs = await this.loadJobs();
+    return jobs.map(job => this.toProgress(job));
+  }
+
+  private async loadJobs(): Promise<UploadJob[]> {
+    const db = await openDatabase();
+    return requestToPromise<UploadJob[]>(
+      db.transaction(UPLOADS_STORE, 'readonly').objectStore(UPLOADS_STORE).getAll()
+    );
+  }
+
+  private async getJob(sessionId: string): Promise<UploadJob | null> {
+    const db = await openDatabase();
+    const job = await requestToPromise<UploadJob | undefined>(
+      db.transaction(UPLOADS_STORE, 'readonly').objectStore(UPLOADS_STORE).get(sessionId)
+    );
+    return job || null;
+  }
+
+  private async saveJob(job: UploadJob): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(UPLOADS_STORE, 'readwrite');
+    transaction.objectStore(UPLOADS_STORE).put(job);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Save a run's progress over the stored job. Anything queued since the run read the job
+   * wins over the run's copy: new photos and a new session row request are kept as queued.
+   * A step that has run out of attempts marks the session as failed. Returns the job as saved.
+   */
+  private async saveProgress(job: UploadJob): Promise<UploadJob> {
+    return this.serialize(async () => {
+      const stored = await this.getJob(job.sessionId);
+      // Deleted while uploading; don't bring it back
+      if (!stored) return job;
+
+      const merged = stored.generation === job.generation ? job : this.mergeProgress(stored, job);
+      await this.saveJob(merged);
+
+      const failure = this.getFailure(merged);
+      if (failure !== null) {
+        await sessionStore.updateSession(job.sessionId, { syncStatus: 'error', syncError: failure });
+      }
+      return merged;
+    });
+  }
+
+  // Error of the first step that has given up, or null while everything can still be retried
+  private getFailure(job: UploadJob): string | null {
+    const failed = [
+      ...(job.sessionRecorded ? [] : [job]),
+      ...job.photos.filter(photo => photo.state !== 'recorded')
+    ].find(step => !isFinite(step.nextAttemptAt));
+    return failed ? failed.lastError || 'Unknown error' : null;
+  }
+
+  private mergeProgress(stored: UploadJob, run: UploadJob): UploadJob {
+    const sessionFromRun = stored.sessionGeneration === run.sessionGeneration;
+    return {
+      ...stored,
+      userId: run.userId,
+      sessionRecorded: sessionFromRun ? run.sessionRecorded : stored.sessionRecorded,
+      attempts: sessionFromRun ? run.attempts : stored.attempts,
+      nextAttemptAt: sessionFromRun ? run.nextAttemptAt : stored.nextAttemptAt,
+      lastError: sessionFromRun ? run.lastError : stored.lastError,
+      removedPhotos: sessionFromRun ? run.removedPhotos : stored.removedPhotos,
+      removedPallets: sessionFromRun ? run.removedPallets : stored.removedPallets,
+      photos: stored.photos.map(queued => {
+        const fromRun = run.photos.find(photo => isSameSlot(photo, queued));
+        return fromRun && fromRun.generation === queued.generation ? fromRun : queued;
+      })
+    };
+  }
+
+  /**
+   * Mark the session synced and drop its job, unless more work was queued during the run.
+   * Returns whether it was finished.
+   */
+  private async finishJob(job: UploadJob): Promise<boolean> {
+    return this.serialize(async () => {
+      const stored = await this.getJob(job.sessionId);
+      if (stored && stored.generation !== job.generation) {
+        await this.saveJob(this.mergeProgress(stored, job));
+        return false;
+      }
+      await this.remove(job.sessionId);
+      // Inside the queue so a session re-queued right after can't be stamped synced
+      await sessionStore.updateSession(job.sessionId, { syncStatus: 'synced', syncedAt: Date.now() });
+      return true;
+    });
+  }
+
+  private toProgress(job: UploadJob, status?: SyncStatus): SyncProgress {
+    const completed = job.photos.filter(photo => photo.state === 'recorded').length;
+    const failedPhoto = job.photos.find(photo => photo.state !== 'recorded' && photo.lastError);
+    const failure = this.getFailure(job);
+    // A step that is still being retried shows its error alongside 'pending'
+    const lastError = failure ?? (job.lastError || failedPhoto?.lastError);
+
+    return {
+      sessionId: job.sessionId,
+      status: status || (failure !== null ? 'error' : 'pending'),
+      total: job.photos.length,
+      completed,
+      lastError
+    };
+  }
+
+  private notify(job: UploadJob, status?: SyncStatus): void {
+    const progress = this.toProgress(job, status);
+    this.listeners.forEach(listener => listener(progress));
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.process();
+    }, delay);
+  }
+
+  // Jobs queued before sign-in belong to whoever signs in first
+  private isOwnJob(job: UploadJob): boolean {
+    return !!this.userId && (!job.userId || job.userId === this.userId);
+  }
+
+  private async process(): Promise<void> {
+    if (this.processing || !this.client || !this.userId || !navigator.onLine) {
+      return;
+    }
+
+    this.processing = true;
+    try {
+      const jobs = await this.loadJobs();
+      for (const job of jobs.filter(job => this.isOwnJob(job))) {
+        await this.processJob(job);
+      }
+    } catch (error) {
+      secureError('Error processing upload queue', error);
+    } finally {
+      this.processing = false;
+    }
+
+    // Wake up again when the earliest pending retry is due; steps that gave up wait to be queued again
+    const remaining = await this.loadJobs().catch(() => [] as UploadJob[]);
+    const dueTimes = remaining.filter(job => this.isOwnJob(job)).flatMap(job => [
+      job.sessionRecorded ? Infinity : job.nextAttemptAt,
+      ...job.photos.filter(photo => photo.state !== 'recorded').map(photo => photo.nextAttemptAt)
+    ]).filter(isFinite);
+    if (dueTimes.length > 0) {
+      this.schedule(Math.max(0, Math.min(...dueTimes) - Date.now()));
+    }
+  }
+
+  /**
+   * Delete the rows and files of photo slots and pallets an edit removed. Files go first,
+   * so a retry can still find them through their rows.
+   */
+  private async deleteRemoved(client: SupabaseClient, job: UploadJob): Promise<void> {
+    const removedPhotos = job.removedPhotos || [];
+    const removedPallets = job.removedPallets || [];
+
+    if (removedPhotos.length > 0) {
+      const { data, error } = await client
+        .from('pallet_photos')
+        .select('pallet_index, side_index, photo_url, annotated_url, thumbnail_url')
+        .eq('session_id', job.sessionId);
+      if (error) throw error;
+
+      type Row = Pick<RemotePhotoRow, 'pallet_index' | 'side_index' | 'photo_url' | 'annotated_url' | 'thumbnail_url'>;
+      const rows = (data as Row[]).filter(row =>
+        removedPhotos.some(slot => isSameSlot(slot, { palletIndex: row.pallet_index, sideIndex: row.side_index }))
+      );
+      const paths = rows
+        .flatMap(row => [row.photo_url, row.annotated_url, row.thumbnail_url])
+        .filter((value): value is string => !!value)
+        .map(toStoragePath);
+      if (paths.length > 0) {
+        const { error: storageError } = await client.storage.from(STORAGE_BUCKET).remove(paths);
+        if (storageError) throw storageError;
+      }
+
+      for (const row of rows) {
+        const { error: deleteError } = await client
+          .from('pallet_photos')
+          .delete()
+          .eq('session_id', job.sessionId)
+          .eq('pallet_index', row.pallet_index)
+          .eq('side_index', row.side_index);
+        if (deleteError) throw deleteError;
+      }
+    }
+
+    if (removedPallets.length > 0) {
+      const { error } = await client
+        .from('pallet_details')
+        .delete()
+        .eq('session_id', job.sessionId)
+        .in('pallet_index', removedPallets);
+      if (error) throw error;
+    }
+
+    job.removedPhotos = [];
+    job.removedPallets = [];
+  }
+
+  private async processJob(job: UploadJob): Promise<void> {
+    const client = this.client;
+    const userId = this.userId;
+    const now = Date.now();
+
+    const session = await sessionStore.getSessionMeta(job.sessionId);
+    if (!session || !client || !userId) {
+      if (!session) await this.remove(job.sessionId);
+      return;
+    }
+    job.userId = userId;
+
+    // 1. Create (or re-create) the session row, keyed by the local session ID so retries are idempotent,
+    //    along with its pallet details
+    if (!job.sessionRecorded) {
+      if (job.nextAttemptAt > now) return;
+
+      this.notify(job, 'syncing');
+      const { error } = await client
+        .from('pallet_sessions')
+        .upsert({
+          id: session.id,
+          customer_name: session.customerName,
+          po_number: session.poNumber,
+          total_pallets: session.totalPallets,
+          wrap_status: session.wrapStatus,
+          capture_template_id: session.captureTemplate?.id || null,
+          captured_at: new Date(session.timestamp).toISOString(),
+          device_id: job.deviceId,
+          user_id: userId,
+          team_id: this.teamId,
+          edit_history: session.edits || [],
+          linked_session_id: session.linkedSessionId || null
+        }, { onConflict: 'id' });
+
+      // Per-pallet details are written with the session so a retry re-sends both
+      const palletDetails = session.palletDetails || [];
+      let detailsError: unknown = null;
+      if (!error && palletDetails.length > 0) {
+        ({ error: detailsError } = await client
+          .from('pallet_details')
+          .upsert(palletDetails.map(details => ({
+            session_id: session.id,
+            pallet_index: details.palletIndex,
+            pallet_id: details.palletId || null,
+            sku: details.sku || null,
+            case_count: details.caseCount ?? null,
+            weight: details.weight ?? null,
+            weight_unit: details.weightUnit,
+            verdict: details.verdict
+          })), { onConflict: 'session_id,pallet_index' }));
+      }
+
+      // Then whatever an edit removed, so it doesn't linger in team history
+      let removalError: unknown = null;
+      if (!error && !detailsError) {
+        removalError = await this.deleteRemoved(client, job).then(() => null, removalFailure => removalFailure);
+      }
+
+      const stepError = error || detailsError || removalError;
+      if (stepError) {
+        job.attempts++;
+        job.nextAttemptAt = nextAttemptTime(job.attempts);
+        job.lastError = errorMessage(stepError);
+        secureError(
+          error ? 'Error creating session' : detailsError ? 'Error recording pallet details' : 'Error removing deleted photos',
+          stepError
+        );
+        this.notify(await this.saveProgress(job));
+        return;
+      }
+
+      job.sessionRecorded = true;
+      job.attempts = 0;
+      job.lastError = undefined;
+      await this.saveProgress(job);
+    }
+
+    // 2. Upload each photo, then record it; each step is retried on its own schedule
+    for (const photo of job.photos) {
+      if (photo.state === 'recorded' || photo.nextAttemptAt > Date.now()) continue;
+
+      const ref = session.photos.find(
+        candidate => candidate.palletIndex === photo.palletIndex && candidate.sideIndex === photo.sideIndex
+      );
+      const annotation = ref?.annotation;
+
+      this.notify(job, 'syncing');
+      try {
+        if (photo.state === 'pending') {
+          const blob = await sessionStore.getPhotoBlob(job.sessionId, photo.palletIndex, photo.sideIndex);
+          if (!blob) {
+            throw new Error('Photo is missing from local storage');
+          }
+          // Never upload a photo that no longer matches what the camera produced
+          if (ref?.sha256 && await hashBlob(blob) !== ref.sha256) {
+            throw new Error('Photo does not match the hash recorded when it was taken');
+          }
+
+          // Storage policies only allow writes under the uploader's own user ID
+          const storagePath = `${userId}/${job.sessionId}/${photo.palletIndex}_${photo.sideIndex}.${getImageExtension(blob.type)}`;
+          const { error: uploadError } = await client.storage
+            .from(STORAGE_BUCKET)
+            .upload(storagePath, blob, { contentType: blob.type || 'image/jpeg', upsert: true });
+          if (uploadError) throw uploadError;
+          photo.photoUrl = storagePath;
+
+          // A missing thumbnail only costs team history a larger download, so it doesn't hold up the photo
+          const thumbnail = await sessionStore.getThumbnailBlob(job.sessionId, photo.palletIndex, photo.sideIndex)
+            .catch(error => {
+              secureError('Error reading thumbnail', error);
+              return null;
+            });
+          if (thumbnail) {
+            const thumbnailPath = `${userId}/${job.sessionId}/${photo.palletIndex}_${photo.sideIndex}_thumb.${getImageExtension(thumbnail.type)}`;
+            const { error: thumbnailError } = await client.storage
+              .from(STORAGE_BUCKET)
+              .upload(thumbnailPath, thumbnail, { contentType: thumbnail.type || 'image/jpeg', upsert: true });
+            if (thumbnailError) throw thumbnailError;
+            photo.thumbnailUrl = thumbnailPath;
+          } else {
+            photo.thumbnailUrl = undefined;
+          }
+
+          // Markup is also uploaded burned into a separate copy so it can be viewed anywhere
+          if (annotation?.markup.length) {
+            const annotatedBlob = await renderAnnotatedImage(blob, annotation);
+            const annotatedPath = `${userId}/${job.sessionId}/${photo.palletIndex}_${photo.sideIndex}_annotated.${getImageExtension(annotatedBlob.type)}`;
+            const { error: annotatedError } = await client.storage
+              .from(STORAGE_BUCKET)
+              .upload(annotatedPath, annotatedBlob, { contentType: annotatedBlob.type || 'image/jpeg', upsert: true });
+            if (annotatedError) throw annotatedError;
+            photo.annotatedUrl = annotatedPath;
+          } else {
+            photo.annotatedUrl = undefined;
+          }
+
+          photo.state = 'uploaded';
+        }
+
+        if (photo.state === 'uploaded') {
+          const { error: photoError } = await client
+            .from('pallet_photos')
+            .upsert({
+              session_id: job.sessionId,
+              pallet_index: photo.palletIndex,
+              side_index: photo.sideIndex,
+              photo_url: photo.photoUrl,
+              annotated_url: photo.annotatedUrl || null,
+              thumbnail_url: photo.thumbnailUrl || null,
+              captured_at: ref?.capturedAt ? new Date(ref.capturedAt).toISOString() : null,
+              capture_metadata: ref?.metadata || null,
+              sha256: ref?.sha256 || null,
+              notes: annotation?.notes || null,
+              damage_categories: annotation?.damageCategories || [],
+              markup: annotation?.markup || []
+            }, { onConflict: 'session_id,pallet_index,side_index' });
+          if (photoError) throw photoError;
+
+          photo.state = 'recorded';
+        }
+
+        photo.attempts = 0;
+        photo.lastError = undefined;
+      } catch (error) {
+        photo.attempts++;
+        photo.nextAttemptAt = nextAttemptTime(photo.attempts);
+        photo.lastError = errorMessage(error);
+        secureError('Error uploading photo', error);
+      }
+
+      this.notify(await this.saveProgress(job));
+    }
+
+    // 3. Only a session whose every photo is confirmed counts as synced
+    if (job.photos.every(photo => photo.state === 'recorded')) {
+      if (await this.finishJob(job)) {
+        this.notify(job, 'synced');
+      } else {
+        // Work queued during this run is picked up straight away
+        this.schedule(0);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const uploadQueue = new UploadQueue();
@@ -0,0 +1,109 @@
+/**
+ * Watermark
+ * Stamps customer, PO, slot, wrap status and capture time onto shared and downloaded copies.
+ * Stored originals are never watermarked, so their capture hashes keep verifying.
+ */
+
+import { format } from 'date-fns';
+import type { PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+import { getSlotLabel } from '@/lib/captureTemplates';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export type WatermarkSize = 'small' | 'medium' | 'large';
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  position: WatermarkPosition;
+  size: WatermarkSize;
+  // Opacity of the stamp's background; the text stays fully opaque so it can be read
+  opacity: number;
+}
+
+export const WATERMARK_POSITIONS: { id: WatermarkPosition; label: string }[] = [
+  { id: 'bottom-left', label: 'Bottom left' },
+  { id: 'bottom-right', label: 'Bottom right' },
+  { id: 'top-left', label: 'Top left' },
+  { id: 'top-right', label: 'Top right' }
+];
+
+// Font size as a share of the image's shorter side
+export const WATERMARK_SIZES: { id: WatermarkSize; label: string; scale: number }[] = [
+  { id: 'small', label: 'Small', scale: 0.022 },
+  { id: 'medium', label: 'Medium', scale: 0.032 },
+  { id: 'large', label: 'Large', scale: 0.045 }
+];
+
+export const WATERMARK_OPACITY_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.35, label: 'Light' },
+  { value: 0.6, label: 'Medium' },
+  { value: 0.85, label: 'Strong' }
+];
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: false,
+  position: 'bottom-left',
+  size: 'medium',
+  opacity: 0.6
+};
+
+export type WatermarkSession = Pick<PalletSession, 'customerName' | 'poNumber' | 'wrapStatus' | 'captureTemplate'>;
+
+/**
+ * The text stamped on a photo, one entry per line
+ */
+export const getWatermarkLines = (session: WatermarkSession, photo: PalletPhoto): string[] => {
+  const slot = getSlotLabel(session.captureTemplate, photo.sideIndex);
+  const status = session.wrapStatus === 'wrapped' ? 'Wrapped' : 'Unwrapped';
+  return [
+    `${session.customerName} · PO ${session.poNumber}`,
+    `Pallet ${photo.palletIndex} - ${slot} · ${status}`,
+    photo.capturedAt ? format(new Date(photo.capturedAt), 'MMM d, yyyy h:mm a') : ''
+  ].filter(Boolean);
+};
+
+/**
+ * A copy of the image with the lines drawn in a box in one corner, in the original's format
+ */
+export const renderWatermark = async (blob: Blob, lines: string[], settings: WatermarkSettings): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas context not available');
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const scale = WATERMARK_SIZES.find(size => size.id === settings.size)?.scale ?? WATERMARK_SIZES[1].scale;
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) * scale));
+  const padding = Math.round(fontSize * 0.5);
+  const lineHeight = Math.round(fontSize * 1.3);
+  const margin = padding * 2;
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textBaseline = 'top';
+
+  const maxTextWidth = width - margin * 2 - padding * 2;
+  const textWidth = Math.min(maxTextWidth, Math.max(...lines.map(line => ctx.measureText(line).width)));
+  const boxWidth = textWidth + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2 - (lineHeight - fontSize);
+  const x = settings.position.endsWith('right') ? width - margin - boxWidth : margin;
+  const y = settings.position.startsWith('bottom') ? height - margin - boxHeight : margin;
+
+  ctx.fillStyle = `rgba(0, 0, 0, ${settings.opacity})`;
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, index) => {
+    ctx.fillText(line, x + padding, y + padding + index * lineHeight, maxTextWidth);
+  });
+
+  const mimeType = ['image/png', 'image/webp'].includes(blob.type) ? blob.type : 'image/jpeg';
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Image encoding failed'))), mimeType, 0.92);
+  });
+};
@@ -0,0 +1,52 @@
+/**
+ * Wrap Phases
+ * Pairs the unwrapped and wrapped sessions photographed of the same pallets
+ */
+
+import type { PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+import { findSlotPhoto } from '@/lib/captureProgress';
+
+export interface WrapPhases {
+  unwrapped: PalletSession;
+  wrapped: PalletSession;
+}
+
+// One slot of one pallet, before and after wrapping
+export interface WrapPhotoPair {
+  palletIndex: number;
+  sideIndex: number;
+  unwrapped?: PalletPhoto;
+  wrapped?: PalletPhoto;
+}
+
+/**
+ * The other half of a before/after pair. Only the wrapped session records the link.
+ */
+export const findLinkedSession = (session: PalletSession, sessions: PalletSession[]): PalletSession | undefined =>
+  sessions.find(candidate =>
+    candidate.id !== session.id &&
+    (candidate.id === session.linkedSessionId || candidate.linkedSessionId === session.id)
+  );
+
+export const getWrapPhases = (session: PalletSession, linked: PalletSession): WrapPhases =>
+  session.wrapStatus === 'wrapped'
+    ? { unwrapped: linked, wrapped: session }
+    : { unwrapped: session, wrapped: linked };
+
+/**
+ * Every slot of one pallet photographed in either phase, in template order
+ */
+export const getPalletPhotoPairs = ({ unwrapped, wrapped }: WrapPhases, palletIndex: number): WrapPhotoPair[] => {
+  const slotCount = Math.max(unwrapped.captureTemplate.slots.length, wrapped.captureTemplate.slots.length);
+  return Array.from({ length: slotCount }, (_, i) => i + 1)
+    .map(sideIndex => ({
+      palletIndex,
+      sideIndex,
+      unwrapped: findSlotPhoto(unwrapped.photos, palletIndex, sideIndex),
+      wrapped: findSlotPhoto(wrapped.photos, palletIndex, sideIndex)
+    }))
+    .filter(pair => pair.unwrapped || pair.wrapped);
+};
+
+export const getPairedPalletCount = ({ unwrapped, wrapped }: WrapPhases): number =>
+  Math.max(unwrapped.totalPallets, wrapped.totalPallets);
@@ -1,14 +1,11 @@
 
-import React, { useState } from 'react';
-import { PalletProvider } from '@/contexts/PalletContext';
+import React from 'react';
 import PalletApp from '@/components/PalletApp';
 
 const Index = () => {
   return (
     <div className="min-h-screen bg-pallet-light">
-      <PalletProvider>
-        <PalletApp />
-      </PalletProvider>
+      <PalletApp />
     </div>
   );
 };
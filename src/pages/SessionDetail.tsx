@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
+import { usePallet, PalletPhoto, PalletSession } from '@/contexts/PalletContext';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, Cloud, Download, FileArchive, FileText, History, Layers, Loader2, Maximize2, Pencil } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { secureError } from '@/lib/security';
+import { hasAnnotation } from '@/lib/annotations';
+import { buildSessionZip, downloadBlob, exportPhoto, shareFiles, sortPhotos } from '@/lib/sessionExport';
+import { buildSessionReport } from '@/lib/pdfReport';
+import { getMemberName } from '@/lib/teamHistory';
+import { findLinkedSession, getWrapPhases } from '@/lib/wrapPhases';
+import SessionPhotoGrid from '@/components/SessionPhotoGrid';
+import SyncStatusBadge from '@/components/SyncStatusBadge';
+import SessionExpiryLabel from '@/components/SessionExpiryLabel';
+import PhotoViewer from '@/components/PhotoViewer';
+import WrapComparisonView from '@/components/WrapComparisonView';
+
+/**
+ * Every pallet and side of one saved or uploaded session, opened from history
+ */
+const SessionDetail = () => {
+  const { sessionId = '' } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const {
+    localSessions, localSessionsLoaded, fetchHistorySession, authStatus, supabase, syncProgress, deviceId,
+    reopenSession, unfinishedDraft, team, authUser, settings
+  } = usePallet();
+  const { toast } = useToast();
+  // Result of looking the session up in the cloud, kept with the ID it was for
+  const [remoteLookup, setRemoteLookup] = useState<{ sessionId: string; session: PalletSession | null } | null>(null);
+  const [burnAnnotations, setBurnAnnotations] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  // Sessions saved here are shown from the local copy; anything else is fetched from the team's uploads
+  const localSession = localSessions.find(session => session.id === sessionId);
+  const hasLocalCopy = !!localSession;
+  const isLoadingRemote = !hasLocalCopy && !!supabase && remoteLookup?.sessionId !== sessionId;
+  const session = localSession || (remoteLookup?.sessionId === sessionId ? remoteLookup.session : null);
+  // The other phase of a before/after pair, when both are saved on this device
+  const linkedSession = session ? findLinkedSession(session, localSessions) : undefined;
+
+  useEffect(() => {
+    if (!localSessionsLoaded || hasLocalCopy || !supabase) return;
+
+    let cancelled = false;
+    fetchHistorySession(sessionId).then(result => {
+      if (!cancelled) setRemoteLookup({ sessionId, session: result });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, localSessionsLoaded, hasLocalCopy, supabase, fetchHistorySession]);
+
+  const backToHistory = () => navigate('/', { state: { view: 'history' } });
+
+  // Only sessions saved on this device can be reopened
+  const handleEdit = async () => {
+    if (await reopenSession(sessionId)) {
+      navigate('/', { state: { view: 'edit' } });
+      return;
+    }
+    toast({
+      title: "Can't Edit Session",
+      description: unfinishedDraft
+        ? "Resume or discard the unfinished session first."
+        : "This session could not be opened for editing. Please try again.",
+      variant: "destructive",
+      duration: 4000
+    });
+  };
+
+  const handleDownload = async (photo: PalletPhoto) => {
+    if (!session) return;
+    try {
+      const { blob, fileName } = await exportPhoto(session, photo, burnAnnotations, settings.watermark);
+      downloadBlob(blob, fileName);
+
+      toast({
+        title: "Photo Saved",
+        description: `${fileName} has been saved to your downloads folder.`,
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error downloading photo from session detail', error);
+      toast({
+        title: "Download Failed",
+        description: "There was an error downloading the photo. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    }
+  };
+
+  const handleExportZip = async () => {
+    if (!session) return;
+    setIsExporting(true);
+    try {
+      const { blob, fileName } = await buildSessionZip(session, {
+        deviceId, burnAnnotations, linkedSession, watermark: settings.watermark
+      });
+      downloadBlob(blob, fileName);
+      toast({
+        title: "ZIP Ready",
+        description: `${session.photos.length + (linkedSession?.photos.length ?? 0)} photos and a manifest were saved as ${fileName}.`,
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error exporting session ZIP from session detail', error);
+      toast({
+        title: "Export Failed",
+        description: "There was an error creating the ZIP file. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleReport = async () => {
+    if (!session) return;
+    setIsExporting(true);
+    try {
+      const { blob, fileName } = await buildSessionReport(session, { deviceId, linkedSession });
+      const file = new File([blob], fileName, { type: 'application/pdf' });
+      const shared = await shareFiles([file], `${session.customerName} - ${session.poNumber} Report`);
+      if (!shared) {
+        downloadBlob(blob, fileName);
+      }
+      toast({
+        title: "Report Ready",
+        description: shared ? "The PDF report has been shared." : `${fileName} has been saved to your downloads folder.`,
+        duration: 3000
+      });
+    } catch (error) {
+      secureError('Error generating PDF report from session detail', error);
+      toast({
+        title: "Report Failed",
+        description: "There was an error generating the PDF report. Please try again.",
+        variant: "destructive",
+        duration: 3000
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // The photo grid is shared by the plain view and the photos tab of a before/after pair
+  const renderPhotoGrid = (shown: PalletSession) => (
+    <SessionPhotoGrid
+      photos={shown.photos}
+      totalPallets={shown.totalPallets}
+      palletDetails={shown.palletDetails}
+      captureTemplate={shown.captureTemplate}
+      onPhotoClick={(photo) => setViewerIndex(sortPhotos(shown.photos).indexOf(photo))}
+      renderActions={(photo) => (
+        <>
+          <Button
+            size="sm"
+            className="bg-white text-pallet-primary hover:bg-gray-100"
+            onClick={() => setViewerIndex(sortPhotos(shown.photos).indexOf(photo))}
+            title="View full screen"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            className="bg-white text-pallet-primary hover:bg-gray-100"
+            onClick={() => handleDownload(photo)}
+            title="Download"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    />
+  );
+
+  // History is only available to a signed-in driver when sync is configured
+  if (authStatus === 'signed-out') {
+    return <Navigate to="/" replace />;
+  }
+
+  const isLoading = authStatus === 'loading' || !localSessionsLoaded || isLoadingRemote;
+
+  return (
+    <div className="min-h-screen bg-pallet-light">
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-pallet-primary">Pallet Documenter</h1>
+          <Button
+            variant="outline"
+            onClick={backToHistory}
+            className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+          >
+            <ArrowLeft className="mr-2 h-5 w-5" />
+            History
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[60vh]">
+            <Loader2 className="h-8 w-8 animate-spin text-pallet-primary" />
+          </div>
+        ) : !session ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">This session could not be found.</p>
+            <p className="text-gray-400 text-sm mt-2">
+              It may have expired from this device, or it hasn't been uploaded yet.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col items-center mb-8">
+              <h2 className="text-2xl font-bold mb-1">{session.customerName}</h2>
+              <p className="text-gray-600 text-center">
+                PO: {session.poNumber} - {session.wrapStatus.charAt(0).toUpperCase() + session.wrapStatus.slice(1)}
+              </p>
+              <p className="text-sm text-gray-500 mb-2">
+                {format(new Date(session.timestamp), 'MMM d, yyyy h:mm a')} · {session.totalPallets} pallet(s), {session.photos.length} photos
+              </p>
+              {linkedSession && (
+                <Link
+                  to={`/sessions/${linkedSession.id}`}
+                  className="flex items-center gap-1 text-sm text-pallet-primary hover:underline mb-2"
+                >
+                  <Layers className="h-4 w-4" />
+                  Paired with {linkedSession.wrapStatus} photos from {format(new Date(linkedSession.timestamp), 'MMM d, yyyy h:mm a')}
+                </Link>
+              )}
+              <div className="mb-4">
+                {localSession ? (
+                  <div className="flex flex-col items-center gap-1">
+                    <SyncStatusBadge status={session.syncStatus} progress={syncProgress[session.id]} error={session.syncError} />
+                    <SessionExpiryLabel session={localSession} />
+                  </div>
+                ) : (
+                  <p className="flex items-center gap-1 text-sm text-gray-500">
+                    <Cloud className="h-4 w-4" />
+                    Uploaded from another device
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-4 justify-center">
+                <Button
+                  onClick={handleExportZip}
+                  className="bg-pallet-primary hover:bg-pallet-accent"
+                  disabled={isExporting || session.photos.length === 0}
+                >
+                  <FileArchive className="mr-2 h-5 w-5" />
+                  {isExporting ? "Preparing..." : "Download All (ZIP)"}
+                </Button>
+                <Button
+                  onClick={handleReport}
+                  variant="outline"
+                  className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+                  disabled={isExporting}
+                >
+                  <FileText className="mr-2 h-5 w-5" />
+                  PDF Report
+                </Button>
+                {localSession && (
+                  <Button
+                    onClick={handleEdit}
+                    variant="outline"
+                    className="border-pallet-primary text-pallet-primary hover:bg-pallet-secondary"
+                  >
+                    <Pencil className="mr-2 h-5 w-5" />
+                    Edit
+                  </Button>
+                )}
+              </div>
+              {session.photos.some(photo => hasAnnotation(photo.annotation)) && (
+                <div className="flex items-center gap-2 mt-4">
+                  <Switch id="detailBurnAnnotations" checked={burnAnnotations} onCheckedChange={setBurnAnnotations} />
+                  <Label htmlFor="detailBurnAnnotations">Burn damage markup into exported photos</Label>
+                </div>
+              )}
+            </div>
+
+            {linkedSession ? (
+              <Tabs defaultValue="photos">
+                <TabsList className="mb-6">
+                  <TabsTrigger value="photos">{session.wrapStatus === 'wrapped' ? 'Wrapped Photos' : 'Unwrapped Photos'}</TabsTrigger>
+                  <TabsTrigger value="compare">Before / After</TabsTrigger>
+                </TabsList>
+                <TabsContent value="photos">
+                  {renderPhotoGrid(session)}
+                </TabsContent>
+                <TabsContent value="compare">
+                  <WrapComparisonView phases={getWrapPhases(session, linkedSession)} />
+                </TabsContent>
+              </Tabs>
+            ) : renderPhotoGrid(session)}
+
+            {session.edits && session.edits.length > 0 && (
+              <div className="bg-white rounded-lg shadow p-6 mt-8">
+                <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+                  <History className="h-5 w-5" />
+                  Edit History
+                </h2>
+                <ol className="space-y-4">
+                  {[...session.edits].reverse().map(edit => (
+                    <li key={edit.editedAt}>
+                      <p className="text-sm font-medium">
+                        {format(new Date(edit.editedAt), 'MMM d, yyyy h:mm a')}
+                        {edit.userId && ` · ${getMemberName(edit.userId, team, authUser?.id ?? null)}`}
+                      </p>
+                      <ul className="list-disc pl-5 text-sm text-gray-600">
+                        {edit.changes.map(change => <li key={change}>{change}</li>)}
+                      </ul>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            <PhotoViewer
+              session={session}
+              startIndex={viewerIndex}
+              burnAnnotations={burnAnnotations}
+              onClose={() => setViewerIndex(null)}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionDetail;
@@ -0,0 +1,105 @@
+-- Schema changes for Pallet App
+-- Apply these to your Supabase database alongside security-policies.sql
+
+-- Damage annotations recorded per photo
+ALTER TABLE pallet_photos ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE pallet_photos ADD COLUMN IF NOT EXISTS damage_categories text[] NOT NULL DEFAULT '{}';
+ALTER TABLE pallet_photos ADD COLUMN IF NOT EXISTS markup jsonb NOT NULL DEFAULT '[]'::jsonb;
+-- Copy of the photo with the markup burned in, when any was drawn
+ALTER TABLE pallet_photos ADD COLUMN IF NOT EXISTS annotated_url text;
+-- Small JPEG preview for grids; null for photos uploaded before thumbnails
+ALTER TABLE pallet_photos ADD COLUMN IF NOT EXISTS thumbnail_url text;
+-- When, where and with what the photo was taken:
+-- { "capturedAt": <ms>, "location": { "latitude", "longitude", "accuracy", ... }, "device": {...}, "camera": {...}, ... }
+ALTER TABLE pallet_photos ADD COLUMN IF NOT EXISTS captured_at timestamptz;
+ALTER TABLE pallet_photos ADD COLUMN IF NOT EXISTS capture_metadata jsonb;
+-- Hex SHA-256 of the image as captured, checked before upload and looked up by the Verify screen
+ALTER TABLE pallet_photos ADD COLUMN IF NOT EXISTS sha256 text;
+CREATE INDEX IF NOT EXISTS idx_pallet_photos_sha256 ON pallet_photos(sha256);
+
+-- Per-pallet identification, contents and condition verdict
+CREATE TABLE IF NOT EXISTS pallet_details (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id uuid NOT NULL REFERENCES pallet_sessions(id) ON DELETE CASCADE,
+    pallet_index integer NOT NULL,
+    pallet_id text,
+    sku text,
+    case_count integer CHECK (case_count >= 0),
+    weight numeric CHECK (weight >= 0),
+    weight_unit text NOT NULL DEFAULT 'kg' CHECK (weight_unit IN ('kg', 'lb')),
+    verdict text NOT NULL CHECK (verdict IN ('pass', 'damaged', 'rejected')),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (session_id, pallet_index)
+);
+
+-- Customer directory with per-customer defaults, one row per customer per device
+CREATE TABLE IF NOT EXISTS customers (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    device_id text NOT NULL,
+    key text NOT NULL,
+    name text NOT NULL,
+    default_wrap_status text CHECK (default_wrap_status IN ('unwrapped', 'wrapped')),
+    default_pallet_count integer CHECK (default_pallet_count > 0),
+    default_template_id text,
+    defaults_source text NOT NULL DEFAULT 'learned' CHECK (defaults_source IN ('learned', 'manual')),
+    -- Removed customers are kept so they stay removed on every synced copy
+    hidden boolean NOT NULL DEFAULT false,
+    last_used_at timestamptz NOT NULL,
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (device_id, key)
+);
+
+-- Signed-in driver, stamped alongside the device that captured the session.
+-- Rows uploaded before sign-in existed have no user_id; assign them to a driver
+-- before applying security-policies.sql or they will no longer be visible.
+ALTER TABLE pallet_sessions ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) DEFAULT auth.uid();
+
+-- The customer directory follows the driver across devices
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) DEFAULT auth.uid();
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_device_id_key_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_user_key ON customers(user_id, key);
+
+-- Teams share session history across every member's devices.
+-- Teams and memberships are managed by an admin from the Supabase dashboard.
+CREATE TABLE IF NOT EXISTS teams (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+    team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Shown in history filters, e.g. "Night shift - Sam"
+    display_name text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (team_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+
+-- Sessions carry enough to be listed on other devices without their photos
+ALTER TABLE pallet_sessions ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE SET NULL;
+ALTER TABLE pallet_sessions ADD COLUMN IF NOT EXISTS wrap_status text CHECK (wrap_status IN ('unwrapped', 'wrapped'));
+ALTER TABLE pallet_sessions ADD COLUMN IF NOT EXISTS capture_template_id text;
+ALTER TABLE pallet_sessions ADD COLUMN IF NOT EXISTS captured_at timestamptz;
+
+-- Teams the signed-in user belongs to. SECURITY DEFINER so policies on
+-- team_members can call it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.current_user_team_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT team_id FROM team_members WHERE user_id = auth.uid()
+$$;
+
+-- Corrections made after a session was saved, oldest first:
+-- [{ "editedAt": <ms>, "userId": "<uuid>", "changes": ["Retook Pallet 2 - Side 3", ...] }]
+ALTER TABLE pallet_sessions ADD COLUMN IF NOT EXISTS edit_history jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Wrapped sessions point at the unwrapped session of the same pallets so the
+-- two phases can be compared and exported together. No foreign key: the
+-- unwrapped session may not have finished uploading yet.
+ALTER TABLE pallet_sessions ADD COLUMN IF NOT EXISTS linked_session_id uuid;